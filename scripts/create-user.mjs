@@ -0,0 +1,41 @@
+// Создание учетной записи сотрудника (регистрация на сайте всегда дает роль patient).
+// Запускать при остановленном сервере: данные пишутся в тот же data/users.json.
+//
+//   node scripts/create-user.mjs --email admin@clinicaldan.ru --password "..." --name "Иванова Анна" [--role staff]
+
+import { createUser } from "../server/auth.js";
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i]?.replace(/^--/, "");
+    if (key) args[key] = argv[i + 1];
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+if (!args.email || !args.password) {
+  console.error('Использование: node scripts/create-user.mjs --email <email> --password <пароль> [--name "<имя>"] [--role staff|patient]');
+  process.exit(1);
+}
+if (args.password.length < 8) {
+  console.error("Пароль должен быть не короче 8 символов");
+  process.exit(1);
+}
+
+const user = await createUser(
+  {
+    email: args.email,
+    password: args.password,
+    name: args.name,
+    role: args.role || "staff",
+  },
+  { emailVerified: true }
+);
+
+if (!user) {
+  console.error(`Пользователь ${args.email} уже существует`);
+  process.exit(1);
+}
+console.log(`✅ Создан пользователь #${user.id} ${user.email} (${user.role})`);
@@ -0,0 +1,84 @@
+// Пререндер страниц для поисковиков: запускается после `vite build` (npm run build).
+// Собирает src/prerender.tsx в режиме SSR и для каждой страницы записывает
+// dist/<путь>/index.html — копию собранного index.html со своими title, description,
+// Open Graph, canonical, разметкой schema.org и текстом страницы внутри #root.
+// Исходная оболочка приложения сохраняется как dist/spa.html: ее отдают для всех
+// остальных адресов.
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { build } from "vite";
+
+const root = process.cwd();
+const distDir = path.resolve(root, "dist");
+const ssrDir = path.resolve(root, "node_modules/.prerender");
+const templatePath = path.join(distDir, "index.html");
+const shellPath = path.join(distDir, "spa.html");
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// JSON внутри <script> не должен закрывать тег
+const jsonForScript = (data) => JSON.stringify(data).replace(/</g, "\\u003c");
+
+function renderDocument(template, page, { canonicalUrl, metaTags, pageTitle }) {
+  const head = [
+    ...metaTags(page).map((tag) => `<meta ${tag.attribute}="${tag.key}" content="${escapeHtml(tag.content)}" />`),
+    `<link rel="canonical" href="${escapeHtml(canonicalUrl(page.path))}" />`,
+    ...(page.structuredData || []).map((data) => `<script type="application/ld+json">${jsonForScript(data)}</script>`),
+  ];
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/, () => `<title>${escapeHtml(pageTitle(page.title))}</title>`)
+    .replace(/\s*<meta\s+name="description"[\s\S]*?>/, "")
+    .replace("</head>", () => `${head.map((tag) => `  ${tag}\n`).join("")}</head>`)
+    .replace('<div id="root"></div>', () => `<div id="root">${page.html}</div>`);
+}
+
+async function main() {
+  if (!fs.existsSync(templatePath)) {
+    throw new Error("dist/index.html не найден — сначала выполните vite build");
+  }
+  // Повторный запуск без vite build не должен брать уже отрисованную главную как шаблон
+  if (!fs.existsSync(shellPath)) {
+    fs.copyFileSync(templatePath, shellPath);
+  }
+  const template = fs.readFileSync(shellPath, "utf8");
+
+  await build({
+    logLevel: "warn",
+    build: {
+      ssr: "src/prerender.tsx",
+      outDir: ssrDir,
+      emptyOutDir: true,
+      copyPublicDir: false,
+      rollupOptions: { output: { entryFileNames: "prerender.js" } },
+    },
+  });
+
+  const entry = await import(pathToFileURL(path.join(ssrDir, "prerender.js")).href);
+  const pages = await entry.renderPages();
+
+  const written = new Set();
+  for (const page of pages) {
+    if (written.has(page.path)) continue;
+    written.add(page.path);
+    const file = path.join(distDir, page.path, "index.html");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, renderDocument(template, page, entry));
+  }
+
+  fs.rmSync(ssrDir, { recursive: true, force: true });
+  console.log(`Prerendered ${written.size} pages`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Prerender failed:", error);
+    process.exit(1);
+  });
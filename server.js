@@ -1,47 +1,62 @@
 import express from "express";
 import cors from "cors";
-import fetch from "node-fetch";
+import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import {
+  getAlfaBankOrderStatus,
+  registerAlfaBankOrder,
+  requirePaymentConfigured,
+} from "./server/alfaBank.js";
+import { createArchimedProxy } from "./server/archimedProxy.js";
+import { createAuthRouter } from "./server/auth.js";
+import { createCertificateCheckoutRouter, createCertificatesRouter } from "./server/certificates.js";
+import { config } from "./server/config.js";
+import { createInboxRouter } from "./server/inbox.js";
+import { createLabResultsAdminRouter, createLabResultsRouter } from "./server/labResults.js";
+import { createLeadsRouter } from "./server/leads.js";
+import { createMailQueueRouter, startMailQueue } from "./server/mailer.js";
+import { registerNotifications } from "./server/notifications.js";
+import {
+  createOrder,
+  createOrdersRouter,
+  generateOrderNumber,
+  markOrderFailed,
+  markOrderRegistered,
+  recordOrderStatus,
+} from "./server/orderLedger.js";
+import { createPaymentCallbackRouter } from "./server/paymentCallback.js";
+import { createServiceTaxonomyRouter } from "./server/serviceTaxonomy.js";
+import { createDoctorServicesRouter } from "./server/doctorServices.js";
+import { requireStaff } from "./server/authMiddleware.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
-const PORT = process.env.PORT || 3001;
+const PORT = config.port;
+
+// За nginx берем реальный IP клиента из X-Forwarded-For (нужно для rate limiting)
+app.set("trust proxy", 1);
 
 // Middleware
 app.use(cors());
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Конфигурация Альфа-Банка
-const ALFA_BANK_CONFIG = {
-  // Тестовая среда
-  test: {
-    url: "https://alfa.rbsuat.com/payment/rest",
-    token: "pfcr5js74l5jnsqcsrms960nok",
-    login: "clinicaldan-operator",
-    password: "KACr2LiW3R?",
-  },
-  // Продакшн среда
-  production: {
-    url: "https://pay.alfabank.ru/payment/rest",
-    token: "pfcr5js74l5jnsqcsrms960nok",
-    login: "clinicaldan-operator",
-    password: "vy_$2BTVD*KVD#u/",
-  },
-};
-
-// Определяем текущую среду
-const isProduction = process.env.NODE_ENV === "production";
-const currentConfig = isProduction
-  ? ALFA_BANK_CONFIG.production
-  : ALFA_BANK_CONFIG.test;
+// Конфигурация Альфа-Банка загружается из окружения (см. server/config.js)
+const isProduction = config.isProduction;
+const currentConfig = config.alfaBank;
 
 console.log(`🚀 Запуск в ${isProduction ? "ПРОДАКШН" : "ТЕСТОВОЙ"} среде`);
 console.log(`🔗 URL Альфа-Банка: ${currentConfig.url}`);
 
+// Callback-уведомления Альфа-Банка о смене статуса заказа (проверка подписи внутри)
+app.use("/api/payment/callback", createPaymentCallbackRouter());
+
+// Без реквизитов (допустимо только вне продакшна) платежные эндпоинты недоступны
+app.use("/api/payment", requirePaymentConfigured);
+
 // Прокси для создания платежа
 app.post("/api/payment/register", async (req, res) => {
   const startTime = Date.now();
@@ -50,7 +65,7 @@ app.post("/api/payment/register", async (req, res) => {
   console.log(`[${requestId}] === НАЧАЛО СОЗДАНИЯ ПЛАТЕЖА ===`);
 
   try {
-    const { amount, returnUrl, failUrl, description } = req.body;
+    const { amount, returnUrl, failUrl, description, kind, customer } = req.body;
 
     console.log(`[${requestId}] Получен запрос на создание платежа:`, {
       amount,
@@ -93,53 +108,26 @@ app.post("/api/payment/register", async (req, res) => {
       });
     }
 
-    // Генерация orderNumber
-    const orderNumber = `cert_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+    // Генерация orderNumber и запись заказа в журнал до обращения к банку
+    const orderNumber = generateOrderNumber(kind);
     console.log(`[${requestId}] Сгенерирован номер заказа: ${orderNumber}`);
-
-    const requestData = {
-      orderNumber: orderNumber,
-      amount: (amount * 100).toString(), // Конвертация в копейки
-      returnUrl: returnUrl,
-      failUrl: failUrl,
-      description: description,
-      token: currentConfig.token,
-    };
+    await createOrder({ orderNumber, kind, amount, description, customer });
 
     console.log(`[${requestId}] Отправка запроса к Альфа-Банку:`, {
-      orderNumber: requestData.orderNumber,
-      amount: requestData.amount,
-      returnUrl: requestData.returnUrl,
-      failUrl: requestData.failUrl,
-      description: requestData.description,
-      token: "***", // Скрываем токен в логах
+      orderNumber,
+      amount,
+      returnUrl,
+      failUrl,
+      description,
     });
 
-    const response = await fetch(`${currentConfig.url}/register.do`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams(requestData).toString(),
+    const result = await registerAlfaBankOrder({
+      orderNumber,
+      amount,
+      returnUrl,
+      failUrl,
+      description,
     });
-
-    console.log(
-      `[${requestId}] Статус ответа от Альфа-Банка: ${response.status}`
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(
-        `[${requestId}] ❌ HTTP ошибка от Альфа-Банка:`,
-        response.status,
-        errorText
-      );
-      throw new Error(
-        `HTTP error! status: ${response.status}, body: ${errorText}`
-      );
-    }
-
-    const result = await response.json();
     console.log(`[${requestId}] Ответ от Альфа-Банка:`, result);
 
     if (result.errorCode) {
@@ -148,6 +136,7 @@ app.post("/api/payment/register", async (req, res) => {
         errorMessage: result.errorMessage,
         orderNumber: orderNumber,
       });
+      await markOrderFailed(orderNumber, result.errorCode, result.errorMessage);
       return res.status(400).json({
         error: true,
         errorCode: result.errorCode,
@@ -156,6 +145,8 @@ app.post("/api/payment/register", async (req, res) => {
       });
     }
 
+    await markOrderRegistered(orderNumber, result.orderId);
+
     const duration = Date.now() - startTime;
     console.log(`[${requestId}] ✅ Платеж успешно создан:`, {
       orderId: result.orderId,
@@ -209,41 +200,9 @@ app.post("/api/payment/status", async (req, res) => {
       });
     }
 
-    const requestData = {
-      orderId: orderId,
-      token: currentConfig.token,
-    };
+    console.log(`[${requestId}] Проверка статуса заказа:`, { orderId });
 
-    console.log(`[${requestId}] Проверка статуса заказа:`, {
-      orderId: requestData.orderId,
-      token: "***", // Скрываем токен в логах
-    });
-
-    const response = await fetch(`${currentConfig.url}/getOrderStatus.do`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams(requestData).toString(),
-    });
-
-    console.log(
-      `[${requestId}] Статус ответа от Альфа-Банка: ${response.status}`
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(
-        `[${requestId}] ❌ HTTP ошибка от Альфа-Банка:`,
-        response.status,
-        errorText
-      );
-      throw new Error(
-        `HTTP error! status: ${response.status}, body: ${errorText}`
-      );
-    }
-
-    const result = await response.json();
+    const result = await getAlfaBankOrderStatus(orderId);
     console.log(`[${requestId}] Статус заказа от Альфа-Банка:`, result);
 
     if (result.errorCode) {
@@ -263,6 +222,8 @@ app.post("/api/payment/status", async (req, res) => {
       });
     }
 
+    await recordOrderStatus({ ...result, orderId });
+
     const duration = Date.now() - startTime;
     console.log(`[${requestId}] ✅ Статус заказа успешно получен:`, {
       orderId: orderId,
@@ -294,14 +255,57 @@ app.post("/api/payment/status", async (req, res) => {
   }
 });
 
-// Статические файлы для продакшена
-app.use(express.static(path.join(__dirname, "dist")));
+// Журнал заказов для сверки (только для сотрудников)
+app.use("/api/orders", requireStaff, createOrdersRouter());
+
+// Подарочные сертификаты: оформление/проверка оплаты, баланс и списание
+app.use("/certificate", createCertificateCheckoutRouter());
+app.use("/api/certificates", createCertificatesRouter());
 
-// Fallback для SPA
+// Учетные записи сайта: вход, регистрация, refresh-токены, подтверждение email, сброс пароля
+app.use("/api/auth", createAuthRouter());
+
+// Заявки из формы обратной связи
+app.use("/api/leads", createLeadsRouter());
+
+// Рабочие пометки к записям и заявкам: ответственный, результат звонка, заметки
+app.use("/api/inbox", requireStaff, createInboxRouter());
+
+// Результаты анализов: загрузка лабораторией и просмотр пациентом
+app.use("/api/lab-orders", requireStaff, createLabResultsAdminRouter());
+app.use("/api/lab-results", createLabResultsRouter());
+
+// Таксономия услуг: чтение публичное, изменения — только сотрудники
+app.use("/api/service-taxonomy", createServiceTaxonomyRouter());
+
+// Услуги, которые выполняет каждый врач: чтение публичное, изменения — только сотрудники
+app.use("/api/doctor-services", createDoctorServicesRouter());
+
+// Очередь исходящих писем (только для сотрудников)
+app.use("/api/mail/queue", requireStaff, createMailQueueRouter());
+
+// Прокси к Archimed: токен подставляется только на сервере
+app.use("/api/archimed", createArchimedProxy());
+
+// Статические файлы для продакшена. Каталоги без слеша не перенаправляем —
+// их пререндеренные страницы отдает обработчик ниже
+const distDir = path.join(__dirname, "dist");
+app.use(express.static(distDir, { redirect: false }));
+
+// Пререндеренная страница (dist/<путь>/index.html, scripts/prerender.mjs), иначе оболочка SPA
 app.get("*", (req, res) => {
-  res.sendFile(path.join(__dirname, "dist", "index.html"));
+  const page = path.join(distDir, req.path, "index.html");
+  if (page.startsWith(distDir + path.sep) && fs.existsSync(page)) {
+    return res.sendFile(page);
+  }
+  const shell = path.join(distDir, "spa.html");
+  res.sendFile(fs.existsSync(shell) ? shell : path.join(distDir, "index.html"));
 });
 
+// Письма пациентам и клинике по событиям заказов и записей
+registerNotifications();
+startMailQueue();
+
 app.listen(PORT, () => {
   console.log(`Сервер запущен на порту ${PORT}`);
   console.log(`API доступен по адресу: http://localhost:${PORT}/api`);
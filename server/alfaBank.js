@@ -0,0 +1,47 @@
+import fetch from "node-fetch";
+import { alfaBankAuthParams, config } from "./config.js";
+
+// Вызов метода REST API Альфа-Банка (register.do, getOrderStatus.do, ...).
+// Реквизиты мерчанта подставляются здесь; HTTP-ошибки превращаются в исключение.
+export async function callAlfaBank(method, params) {
+  const response = await fetch(`${config.alfaBank.url}/${method}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({ ...params, ...alfaBankAuthParams() }).toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
+  }
+
+  return response.json();
+}
+
+export function registerAlfaBankOrder({ orderNumber, amount, returnUrl, failUrl, description }) {
+  return callAlfaBank("register.do", {
+    orderNumber,
+    amount: Math.round(amount * 100).toString(), // Конвертация в копейки
+    returnUrl,
+    failUrl,
+    description,
+  });
+}
+
+export function getAlfaBankOrderStatus(orderId) {
+  return callAlfaBank("getOrderStatus.do", { orderId });
+}
+
+// Без реквизитов (допустимо только вне продакшна) платежные эндпоинты недоступны
+export function requirePaymentConfigured(req, res, next) {
+  if (!config.alfaBank.configured) {
+    return res.status(503).json({
+      error: true,
+      errorCode: "PAYMENT_NOT_CONFIGURED",
+      message: "Платежи временно недоступны",
+    });
+  }
+  next();
+}
@@ -0,0 +1,262 @@
+import { EventEmitter } from "events";
+import express from "express";
+import fetch from "node-fetch";
+import { findUserById } from "./auth.js";
+import { requireAuth, requireStaff } from "./authMiddleware.js";
+import { bearerToken, verifyAccessToken } from "./authTokens.js";
+import { config } from "./config.js";
+import { normalizePhone, phoneKey } from "./phone.js";
+import { createRateLimiter } from "./rateLimit.js";
+
+const ARCHIMED_API_URL = config.archimed.url;
+const ARCHIMED_API_TOKEN = config.archimed.token;
+const REQUEST_TIMEOUT_MS = 20000;
+
+// Эндпоинты Archimed, которые реально использует ArchimedService, и разрешенные методы
+const ALLOWED_ENDPOINTS = {
+  doctors: ["GET"],
+  services: ["GET"],
+  branchs: ["GET"],
+  zones: ["GET"],
+  scientific_degrees: ["GET"],
+  schedule: ["GET"],
+  talons: ["GET", "POST", "PUT", "DELETE"],
+  talonstatuses: ["GET"],
+};
+
+// "talonCreated" ({ talon, request }) — Archimed принял новую запись на прием
+export const archimedEvents = new EventEmitter();
+
+// Поля, которые пациент может менять в своем талоне
+const PATIENT_TALON_FIELDS = ["start", "end", "preferred_date", "preferred_time", "status_id"];
+
+// Поля новой записи из формы на сайте; статус и служебные поля задает Archimed
+const NEW_TALON_FIELDS = [
+  "patient_name",
+  "patient_phone",
+  "patient_email",
+  "preferred_date",
+  "preferred_time",
+  "comments",
+  "service_id",
+  "doctor_id",
+  "branch_id",
+  "start",
+  "end",
+];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const pickFields = (source, fields) =>
+  Object.fromEntries(fields.filter((field) => source?.[field] !== undefined).map((field) => [field, source[field]]));
+
+// Создание записи публичное: в Archimed уходят только поля формы, а письмо-подтверждение —
+// только на корректный адрес из этой же формы
+function acceptNewTalon(req, res, next) {
+  const body = pickFields(req.body, NEW_TALON_FIELDS);
+  const fields = {};
+  if (typeof body.patient_name !== "string" || !body.patient_name.trim()) fields.patient_name = "Укажите имя";
+  if (!normalizePhone(body.patient_phone)) fields.patient_phone = "Введите корректный номер телефона";
+  if (body.patient_email !== undefined && body.patient_email !== "" && !EMAIL_RE.test(String(body.patient_email))) {
+    fields.patient_email = "Email имеет неверный формат";
+  }
+  if (Object.keys(fields).length > 0) {
+    return res.status(422).json({
+      error: true,
+      errorCode: "VALIDATION_ERROR",
+      message: Object.values(fields)[0],
+      fields,
+    });
+  }
+  req.body = body;
+  next();
+}
+
+// Талоны содержат персональные данные: посетитель может только создать запись.
+// Сотрудник видит и меняет все талоны, пациент из личного кабинета — только свои
+// (телефон в талоне совпадает с телефоном в профиле): просмотр, перенос и отмена.
+function authorizeTalons(req, res, next) {
+  if (req.params.resource !== "talons") return next();
+  if (req.method === "POST") return acceptNewTalon(req, res, next);
+
+  const tokenRole = verifyAccessToken(bearerToken(req))?.role;
+  if (req.get("X-Staff-Api-Key") || tokenRole === "staff") return requireStaff(req, res, next);
+
+  requireAuth(req, res, () => {
+    if (req.method === "DELETE") {
+      return res.status(403).json({ error: true, errorCode: "FORBIDDEN", message: "Недостаточно прав" });
+    }
+    const user = findUserById(req.user.id);
+    const phone = phoneKey(user?.phone);
+    if (phone.length < 10) {
+      return res.status(403).json({
+        error: true,
+        errorCode: "PHONE_REQUIRED",
+        message: "Укажите телефон в профиле, чтобы видеть свои записи",
+      });
+    }
+    // Номер из профиля должен быть подтвержден кодом — иначе можно было бы смотреть чужие записи
+    if (!user.phone_verified) {
+      return res.status(403).json({
+        error: true,
+        errorCode: "PHONE_NOT_VERIFIED",
+        message: "Подтвердите телефон в профиле, чтобы видеть свои записи",
+      });
+    }
+    req.patientPhone = phone;
+    next();
+  });
+}
+
+// Проверка доступа пациента к конкретному талону перед проксированием.
+// Возвращает { status, errorCode, message }, если запрос нужно отклонить.
+async function checkPatientTalon(req, id) {
+  const notFound = { status: 404, errorCode: "NOT_FOUND", message: "Запись не найдена" };
+  let talon;
+  try {
+    talon = await fetchArchimedResource("talons", id);
+  } catch {
+    return notFound;
+  }
+  if (phoneKey(talon.patient_phone) !== req.patientPhone) return notFound;
+  if (req.method !== "PUT") return null;
+
+  const slotTime = talon.start || talon.preferred_date;
+  if (slotTime && new Date(slotTime).getTime() < Date.now()) {
+    return { status: 409, errorCode: "APPOINTMENT_PAST", message: "Прошедшую запись изменить нельзя" };
+  }
+
+  req.body = pickFields(req.body, PATIENT_TALON_FIELDS);
+  // Из статусов пациенту доступна только отмена
+  if (req.body.status_id !== undefined) {
+    const status = await fetchArchimedResource("talonstatuses", req.body.status_id).catch(() => null);
+    if (!/отмен/i.test(status?.name || "")) {
+      return { status: 403, errorCode: "FORBIDDEN", message: "Запись можно только отменить или перенести" };
+    }
+  }
+  return null;
+}
+
+// Чтение справочников — щедрый лимит, создание/изменение талонов — строгий
+const readLimiter = createRateLimiter({ windowMs: 60 * 1000, max: 120, name: "archimed-read" });
+const writeLimiter = createRateLimiter({ windowMs: 60 * 1000, max: 10, name: "archimed-write" });
+
+// Прямой запрос к Archimed с серверной стороны (справочные данные для писем и т.п.)
+export async function fetchArchimedResource(resource, id) {
+  if (!ARCHIMED_API_TOKEN) throw new Error("Интеграция с Archimed не настроена");
+  const response = await fetch(`${ARCHIMED_API_URL}/${resource}/${id}`, {
+    headers: { Authorization: `Bearer ${ARCHIMED_API_TOKEN}` },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`Archimed API error: ${response.status}`);
+  return response.json();
+}
+
+export function createArchimedProxy() {
+  const router = express.Router();
+
+  // Клиент узнает, настроен ли токен, и при его отсутствии работает на моковых данных
+  router.get("/status", readLimiter, (req, res) => {
+    res.json({ configured: Boolean(ARCHIMED_API_TOKEN) });
+  });
+
+  router.all("/:resource/:id?", (req, res, next) => {
+    const limiter = req.method === "GET" ? readLimiter : writeLimiter;
+    limiter(req, res, next);
+  }, authorizeTalons, async (req, res) => {
+    const { resource, id } = req.params;
+    const allowedMethods = ALLOWED_ENDPOINTS[resource];
+
+    if (!allowedMethods) {
+      return res.status(404).json({
+        error: true,
+        errorCode: "ENDPOINT_NOT_ALLOWED",
+        message: "Эндпоинт недоступен",
+      });
+    }
+
+    if (!allowedMethods.includes(req.method)) {
+      return res.status(405).json({
+        error: true,
+        errorCode: "METHOD_NOT_ALLOWED",
+        message: `Метод ${req.method} недоступен для ${resource}`,
+      });
+    }
+
+    if (id !== undefined && !/^\d+$/.test(id)) {
+      return res.status(400).json({
+        error: true,
+        errorCode: "INVALID_ID",
+        message: "Некорректный идентификатор",
+      });
+    }
+
+    if (!ARCHIMED_API_TOKEN) {
+      return res.status(503).json({
+        error: true,
+        errorCode: "ARCHIMED_NOT_CONFIGURED",
+        message: "Интеграция с Archimed не настроена",
+      });
+    }
+
+    if (req.patientPhone && id !== undefined) {
+      const denied = await checkPatientTalon(req, id);
+      if (denied) {
+        return res.status(denied.status).json({ error: true, errorCode: denied.errorCode, message: denied.message });
+      }
+    }
+
+    const query = new URLSearchParams(req.patientPhone && id === undefined
+      ? { ...req.query, patient_phone: req.patientPhone }
+      : req.query).toString();
+    const targetUrl = `${ARCHIMED_API_URL}/${resource}${id ? `/${id}` : ""}${query ? `?${query}` : ""}`;
+    const hasBody = req.method === "POST" || req.method === "PUT";
+
+    try {
+      const response = await fetch(targetUrl, {
+        method: req.method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${ARCHIMED_API_TOKEN}`,
+        },
+        body: hasBody ? JSON.stringify(req.body ?? {}) : undefined,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      const text = await response.text();
+      if (!response.ok) {
+        console.error(
+          `[archimed] ❌ ${req.method} /${resource} → ${response.status}`
+        );
+      }
+      if (response.ok && resource === "talons" && req.method === "POST") {
+        let talon = null;
+        try {
+          talon = JSON.parse(text);
+        } catch {
+          // Ответ без JSON: уведомляем по данным из запроса
+        }
+        archimedEvents.emit("talonCreated", { talon, request: req.body ?? {} });
+      }
+      // Список талонов пациента дополнительно фильтруем сами: не полагаемся на фильтр Archimed
+      if (response.ok && req.patientPhone && id === undefined) {
+        const body = JSON.parse(text);
+        const data = (body.data || []).filter((talon) => phoneKey(talon.patient_phone) === req.patientPhone);
+        return res.json({ ...body, data, total: data.length });
+      }
+      res
+        .status(response.status)
+        .type(response.headers.get("content-type") || "application/json")
+        .send(text);
+    } catch (error) {
+      console.error(`[archimed] ❌ Ошибка запроса ${req.method} /${resource}:`, error.message);
+      res.status(502).json({
+        error: true,
+        errorCode: "ARCHIMED_UNAVAILABLE",
+        message: "Archimed API недоступен",
+      });
+    }
+  });
+
+  return router;
+}
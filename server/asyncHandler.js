@@ -0,0 +1,13 @@
+// Обертка для async-обработчиков Express 4: исключение (например, ошибка записи в data/)
+// не теряется в отклоненном промисе, а превращается в ответ 500 в общем формате ошибок API
+export function asyncHandler(handler) {
+  return async (req, res, next) => {
+    try {
+      await handler(req, res, next);
+    } catch (error) {
+      console.error(`[api] ❌ ${req.method} ${req.originalUrl}:`, error);
+      if (res.headersSent) return next(error);
+      res.status(500).json({ error: true, errorCode: "INTERNAL_ERROR", message: "Внутренняя ошибка сервера" });
+    }
+  };
+}
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import express from "express";
+import { asyncHandler } from "./asyncHandler.js";
+
+let server;
+let baseUrl;
+
+before(async () => {
+  const app = express();
+  app.get("/ok", asyncHandler(async (req, res) => res.json({ success: true })));
+  app.get(
+    "/fail",
+    asyncHandler(async () => {
+      throw new Error("disk is full");
+    })
+  );
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+
+test("ответ обработчика передается как есть", async () => {
+  const response = await fetch(`${baseUrl}/ok`);
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { success: true });
+});
+
+test("исключение в обработчике превращается в ответ 500 без подробностей", async () => {
+  const response = await fetch(`${baseUrl}/fail`);
+  assert.equal(response.status, 500);
+  assert.deepEqual(await response.json(), {
+    error: true,
+    errorCode: "INTERNAL_ERROR",
+    message: "Внутренняя ошибка сервера",
+  });
+});
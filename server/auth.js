@@ -0,0 +1,423 @@
+import crypto from "crypto";
+import express from "express";
+import { promisify } from "util";
+import { asyncHandler } from "./asyncHandler.js";
+import { requireAuth } from "./authMiddleware.js";
+import { signAccessToken } from "./authTokens.js";
+import { config } from "./config.js";
+import { createJsonStore } from "./jsonStore.js";
+import { enqueueMail } from "./mailer.js";
+import { sendOtp, sendOtpError, verifyOtp } from "./otp.js";
+import { maskPhone, normalizePhone, phoneKey } from "./phone.js";
+import { createRateLimiter } from "./rateLimit.js";
+
+// Учетные записи сайта (пациенты и сотрудники), refresh-сессии и одноразовые токены из писем.
+// Пароли — scrypt с солью; refresh- и email-токены хранятся только в виде sha256.
+// Пациент может войти и по номеру телефона с кодом из SMS (без email и пароля).
+const store = createJsonStore("users.json", { nextId: 1, users: [], sessions: [], tokens: [] });
+const loginLimiter = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 10, name: "auth-login" });
+const emailLimiter = createRateLimiter({ windowMs: 60 * 60 * 1000, max: 5, name: "auth-email" });
+const smsLimiter = createRateLimiter({ windowMs: 60 * 60 * 1000, max: 10, name: "auth-sms" });
+
+const scrypt = promisify(crypto.scrypt);
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+export const USER_ROLES = ["patient", "staff"];
+const MIN_PASSWORD_LENGTH = 8;
+const REFRESH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const VERIFY_EMAIL_TTL_MS = 48 * 60 * 60 * 1000;
+const RESET_PASSWORD_TTL_MS = 60 * 60 * 1000;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PROFILE_FIELDS = ["lastname", "firstname", "middlename", "phone"];
+
+const trimmed = (value) => (typeof value === "string" ? value.trim() : "");
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+const randomToken = () => crypto.randomBytes(32).toString("base64url");
+
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString("base64url");
+  const hash = await scrypt(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  return `scrypt$${SCRYPT_PARAMS.N}$${SCRYPT_PARAMS.r}$${SCRYPT_PARAMS.p}$${salt}$${hash.toString("base64url")}`;
+}
+
+async function verifyPassword(password, stored) {
+  const [scheme, N, r, p, salt, hash] = String(stored || "").split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scrypt(password, salt, expected.length, { N: Number(N), r: Number(r), p: Number(p) });
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+const fullName = (user) => [user.firstname, user.middlename, user.lastname].filter(Boolean).join(" ");
+
+// То, что уходит клиенту (тип User в src/types/cms.ts) — без хеша пароля
+function publicUser(user) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    phone: user.phone || undefined,
+    role: user.role,
+    lastname: user.lastname || undefined,
+    firstname: user.firstname || undefined,
+    middlename: user.middlename || undefined,
+    email_verified: user.email_verified,
+    phone_verified: Boolean(user.phone_verified),
+    created_at: user.created_at,
+    updated_at: user.updated_at,
+  };
+}
+
+const findByEmail = (data, email) => Boolean(email) && data.users.find((u) => u.email === email);
+
+// Телефон считается принадлежащим пользователю, только если подтвержден кодом из SMS
+const findByVerifiedPhone = (data, phone) =>
+  data.users.find((u) => u.phone_verified && phoneKey(u.phone) === phoneKey(phone));
+
+export function findUserById(id) {
+  return store.read().users.find((u) => u.id === id) || null;
+}
+
+function validationError(res, fields) {
+  return res.status(422).json({
+    error: true,
+    errorCode: "VALIDATION_ERROR",
+    message: Object.values(fields)[0],
+    fields,
+  });
+}
+
+function passwordError(password) {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Пароль должен быть не короче ${MIN_PASSWORD_LENGTH} символов`;
+  }
+  return null;
+}
+
+// Создает пользователя. Используется регистрацией, входом по SMS (без email и пароля)
+// и scripts/create-user.mjs (сотрудники). Из profile берутся только PROFILE_FIELDS и name;
+// подтверждение email и телефона задает только вызывающий код (options), не данные из запроса:
+// телефон — после проверки кода из SMS в /phone/login.
+export async function createUser(
+  { email, password, role = "patient", ...profile },
+  { emailVerified = false, phoneVerified = false } = {}
+) {
+  const normalizedEmail = trimmed(email).toLowerCase();
+  if (!USER_ROLES.includes(role)) throw new Error(`Неизвестная роль: ${role}`);
+  const passwordHash = password ? await hashPassword(password) : null;
+
+  return store.update((data) => {
+    if (findByEmail(data, normalizedEmail)) return null;
+    const now = new Date().toISOString();
+    const user = {
+      id: data.nextId++,
+      email: normalizedEmail,
+      role,
+      ...Object.fromEntries(PROFILE_FIELDS.map((field) => [field, trimmed(profile[field])])),
+      name: "",
+      passwordHash,
+      email_verified: emailVerified,
+      phone_verified: phoneVerified,
+      created_at: now,
+      updated_at: now,
+    };
+    user.name = trimmed(profile.name) || fullName(user) || normalizedEmail || user.phone;
+    data.users.push(user);
+    return user;
+  });
+}
+
+// Access-токен + новый refresh-токен (ротация: старый передается в replaceSession и удаляется)
+async function issueSession(user, replaceSession) {
+  const refreshToken = randomToken();
+  const now = Date.now();
+  await store.update((data) => {
+    data.sessions = data.sessions.filter(
+      (s) => new Date(s.expiresAt).getTime() > now && s.tokenHash !== replaceSession?.tokenHash
+    );
+    data.sessions.push({
+      tokenHash: hashToken(refreshToken),
+      userId: user.id,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + REFRESH_TTL_MS).toISOString(),
+    });
+  });
+
+  const { token, expiresAt } = signAccessToken({ sub: user.id, role: user.role, name: user.name, email: user.email });
+  return { user: publicUser(user), token, expires_at: expiresAt, refresh_token: refreshToken };
+}
+
+// Завершает сессии пользователя; keepToken — refresh-токен текущего устройства
+function revokeSessions(userId, keepToken) {
+  const keepHash = keepToken ? hashToken(keepToken) : null;
+  return store.update((data) => {
+    data.sessions = data.sessions.filter((s) => s.userId !== userId || s.tokenHash === keepHash);
+  });
+}
+
+// Одноразовый токен для ссылки из письма; предыдущие токены того же назначения отменяются
+async function createEmailToken(userId, purpose, ttlMs) {
+  const token = randomToken();
+  const now = Date.now();
+  await store.update((data) => {
+    data.tokens = data.tokens.filter(
+      (t) => new Date(t.expiresAt).getTime() > now && !(t.userId === userId && t.purpose === purpose)
+    );
+    data.tokens.push({ tokenHash: hashToken(token), userId, purpose, expiresAt: new Date(now + ttlMs).toISOString() });
+  });
+  return token;
+}
+
+// Гасит токен и возвращает пользователя или null, если токен неизвестен или истек
+function consumeEmailToken(token, purpose) {
+  const tokenHash = hashToken(String(token || ""));
+  return store.update((data) => {
+    const index = data.tokens.findIndex((t) => t.tokenHash === tokenHash && t.purpose === purpose);
+    if (index === -1) return null;
+    const [record] = data.tokens.splice(index, 1);
+    if (new Date(record.expiresAt).getTime() <= Date.now()) return null;
+    return data.users.find((u) => u.id === record.userId) || null;
+  });
+}
+
+async function sendVerificationEmail(user) {
+  const token = await createEmailToken(user.id, "verify_email", VERIFY_EMAIL_TTL_MS);
+  await enqueueMail("emailVerification", user.email, {
+    name: user.firstname || user.name,
+    url: `${config.publicUrl}/verify-email?token=${token}`,
+  });
+}
+
+const invalidToken = (res) =>
+  res.status(400).json({ error: true, errorCode: "INVALID_TOKEN", message: "Ссылка недействительна или устарела" });
+
+// API для AuthService (src/services/auth.ts)
+export function createAuthRouter() {
+  const router = express.Router();
+
+  router.post("/register", emailLimiter, asyncHandler(async (req, res) => {
+    const body = req.body || {};
+    const email = trimmed(body.email).toLowerCase();
+    const fields = {};
+    if (!EMAIL_RE.test(email)) fields.email = "Email имеет неверный формат";
+    const passwordProblem = passwordError(body.password);
+    if (passwordProblem) fields.password = passwordProblem;
+    if (!trimmed(body.name) && !trimmed(body.firstname)) fields.firstname = "Укажите имя";
+    if (Object.keys(fields).length > 0) return validationError(res, fields);
+
+    // Берем только поля профиля: роль и отметки о подтверждении из запроса не принимаем,
+    // сотрудников заводит администратор
+    const profile = Object.fromEntries(PROFILE_FIELDS.map((field) => [field, body[field]]));
+    const user = await createUser({ ...profile, name: body.name, email, password: body.password, role: "patient" });
+    if (!user) {
+      return res
+        .status(409)
+        .json({ error: true, errorCode: "EMAIL_TAKEN", message: "Пользователь с таким email уже зарегистрирован" });
+    }
+
+    await sendVerificationEmail(user);
+    console.log(`[auth] ✅ Зарегистрирован пользователь #${user.id}`);
+    res.status(201).json(await issueSession(user));
+  }));
+
+  router.post("/login", loginLimiter, asyncHandler(async (req, res) => {
+    const email = trimmed(req.body?.email).toLowerCase();
+    const user = email && findByEmail(store.read(), email);
+    const passwordOk = user && (await verifyPassword(String(req.body?.password ?? ""), user.passwordHash));
+    if (!passwordOk) {
+      return res
+        .status(401)
+        .json({ error: true, errorCode: "INVALID_CREDENTIALS", message: "Неверный email или пароль" });
+    }
+    res.json(await issueSession(user));
+  }));
+
+  router.post("/refresh", asyncHandler(async (req, res) => {
+    const tokenHash = hashToken(String(req.body?.refresh_token || ""));
+    const data = store.read();
+    const session = data.sessions.find((s) => s.tokenHash === tokenHash);
+    const user = session && data.users.find((u) => u.id === session.userId);
+    if (!user || new Date(session.expiresAt).getTime() <= Date.now()) {
+      return res
+        .status(401)
+        .json({ error: true, errorCode: "INVALID_REFRESH_TOKEN", message: "Сессия истекла, войдите снова" });
+    }
+    res.json(await issueSession(user, session));
+  }));
+
+  router.post("/logout", asyncHandler(async (req, res) => {
+    const tokenHash = hashToken(String(req.body?.refresh_token || ""));
+    await store.update((data) => {
+      data.sessions = data.sessions.filter((s) => s.tokenHash !== tokenHash);
+    });
+    res.json({ success: true });
+  }));
+
+  router.get("/me", requireAuth, (req, res) => {
+    const user = findUserById(req.user.id);
+    if (!user) return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Пользователь не найден" });
+    res.json(publicUser(user));
+  });
+
+  // Email и роль здесь не меняются
+  router.put("/profile", requireAuth, asyncHandler(async (req, res) => {
+    const body = req.body || {};
+    const user = await store.update((data) => {
+      const found = data.users.find((u) => u.id === req.user.id);
+      if (!found) return null;
+      const previousPhone = phoneKey(found.phone);
+      for (const field of PROFILE_FIELDS) {
+        if (field in body) found[field] = trimmed(body[field]);
+      }
+      // Новый номер нужно подтвердить заново
+      if (phoneKey(found.phone) !== previousPhone) found.phone_verified = false;
+      found.name = ("name" in body && trimmed(body.name)) || fullName(found) || found.name;
+      found.updated_at = new Date().toISOString();
+      return found;
+    });
+    if (!user) return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Пользователь не найден" });
+    res.json(publicUser(user));
+  }));
+
+  // Остальные устройства выходят из аккаунта; текущее остается, если клиент передал свой refresh_token
+  router.post("/change-password", requireAuth, asyncHandler(async (req, res) => {
+    const { currentPassword, newPassword, refresh_token: keepToken } = req.body || {};
+    const user = findUserById(req.user.id);
+    // Пользователь, вошедший по SMS, задает первый пароль без текущего
+    const needsCurrent = Boolean(user?.passwordHash);
+    if (!user || (needsCurrent && !(await verifyPassword(String(currentPassword ?? ""), user.passwordHash)))) {
+      return validationError(res, { currentPassword: "Текущий пароль указан неверно" });
+    }
+    const passwordProblem = passwordError(newPassword);
+    if (passwordProblem) return validationError(res, { newPassword: passwordProblem });
+
+    const passwordHash = await hashPassword(newPassword);
+    await store.update(() => {
+      user.passwordHash = passwordHash;
+      user.updated_at = new Date().toISOString();
+    });
+    await revokeSessions(user.id, keepToken);
+    res.json({ success: true });
+  }));
+
+  // Вход по телефону, шаг 1: код на номер. Аккаунт создается при первом входе.
+  router.post("/phone/request", smsLimiter, asyncHandler(async (req, res) => {
+    const phone = normalizePhone(req.body?.phone);
+    if (!phone) return validationError(res, { phone: "Введите корректный номер телефона" });
+    try {
+      const result = await sendOtp("login", phone, (code) => `Код для входа на сайт Клиники Алдан: ${code}`);
+      if (result.error) return sendOtpError(res, result);
+      res.json({ phone: maskPhone(phone), ...result });
+    } catch (error) {
+      console.error("[auth] ❌ Не удалось отправить SMS с кодом входа:", error.message);
+      res.status(503).json({ error: true, errorCode: "SMS_UNAVAILABLE", message: "Не удалось отправить SMS, попробуйте позже" });
+    }
+  }));
+
+  // Вход по телефону, шаг 2: код → сессия
+  router.post("/phone/login", asyncHandler(async (req, res) => {
+    const phone = normalizePhone(req.body?.phone);
+    if (!phone) return validationError(res, { phone: "Введите корректный номер телефона" });
+    const result = await verifyOtp("login", phone, req.body?.code);
+    if (result.error) return sendOtpError(res, result);
+
+    let user = findByVerifiedPhone(store.read(), phone);
+    if (!user) {
+      user = await createUser({ phone }, { phoneVerified: true });
+      console.log(`[auth] ✅ Зарегистрирован пользователь #${user.id} по телефону`);
+    }
+    res.json(await issueSession(user));
+  }));
+
+  // Подтверждение телефона из профиля: по нему личный кабинет находит записи и анализы
+  router.post("/phone/confirm/request", requireAuth, smsLimiter, asyncHandler(async (req, res) => {
+    const user = findUserById(req.user.id);
+    const phone = normalizePhone(user?.phone);
+    if (!phone) return validationError(res, { phone: "Сначала укажите телефон в профиле" });
+    try {
+      const result = await sendOtp("confirm", phone, (code) => `Код подтверждения телефона: ${code}`);
+      if (result.error) return sendOtpError(res, result);
+      res.json({ phone: maskPhone(phone), ...result });
+    } catch (error) {
+      console.error("[auth] ❌ Не удалось отправить SMS с кодом подтверждения:", error.message);
+      res.status(503).json({ error: true, errorCode: "SMS_UNAVAILABLE", message: "Не удалось отправить SMS, попробуйте позже" });
+    }
+  }));
+
+  router.post("/phone/confirm", requireAuth, asyncHandler(async (req, res) => {
+    const user = findUserById(req.user.id);
+    const phone = normalizePhone(user?.phone);
+    if (!phone) return validationError(res, { phone: "Сначала укажите телефон в профиле" });
+
+    const owner = findByVerifiedPhone(store.read(), phone);
+    if (owner && owner.id !== user.id) {
+      return res.status(409).json({
+        error: true,
+        errorCode: "PHONE_TAKEN",
+        message: "Этот номер уже подтвержден в другом аккаунте",
+      });
+    }
+    const result = await verifyOtp("confirm", phone, req.body?.code);
+    if (result.error) return sendOtpError(res, result);
+
+    await store.update(() => {
+      user.phone_verified = true;
+      user.updated_at = new Date().toISOString();
+    });
+    res.json(publicUser(user));
+  }));
+
+  // Ответ одинаковый, есть такой email или нет — чтобы по нему нельзя было проверять адреса
+  router.post("/reset-password", emailLimiter, asyncHandler(async (req, res) => {
+    const user = findByEmail(store.read(), trimmed(req.body?.email).toLowerCase());
+    if (user) {
+      const token = await createEmailToken(user.id, "reset_password", RESET_PASSWORD_TTL_MS);
+      await enqueueMail("passwordReset", user.email, {
+        name: user.firstname || user.name,
+        url: `${config.publicUrl}/reset-password/confirm?token=${token}`,
+        validMinutes: RESET_PASSWORD_TTL_MS / 60000,
+      });
+    }
+    res.json({ success: true, message: "Если такой email зарегистрирован, мы отправили на него ссылку" });
+  }));
+
+  router.post("/reset-password/confirm", asyncHandler(async (req, res) => {
+    const { token, newPassword } = req.body || {};
+    const passwordProblem = passwordError(newPassword);
+    if (passwordProblem) return validationError(res, { newPassword: passwordProblem });
+
+    const user = await consumeEmailToken(token, "reset_password");
+    if (!user) return invalidToken(res);
+
+    const passwordHash = await hashPassword(newPassword);
+    await store.update(() => {
+      user.passwordHash = passwordHash;
+      // Ссылка пришла на почту — значит, адрес подтвержден
+      user.email_verified = true;
+      user.updated_at = new Date().toISOString();
+    });
+    await revokeSessions(user.id);
+    console.log(`[auth] ✅ Пароль пользователя #${user.id} сброшен`);
+    res.json({ success: true });
+  }));
+
+  router.post("/verify-email", asyncHandler(async (req, res) => {
+    const user = await consumeEmailToken(req.body?.token, "verify_email");
+    if (!user) return invalidToken(res);
+    await store.update(() => {
+      user.email_verified = true;
+      user.updated_at = new Date().toISOString();
+    });
+    res.json({ success: true });
+  }));
+
+  router.post("/verify-email/resend", requireAuth, emailLimiter, asyncHandler(async (req, res) => {
+    const user = findUserById(req.user.id);
+    if (!user) return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Пользователь не найден" });
+    if (!user.email_verified) await sendVerificationEmail(user);
+    res.json({ success: true });
+  }));
+
+  return router;
+}
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import express from "express";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "aldan-auth-"));
+process.env.DATA_DIR = dataDir;
+process.env.MAIL_TRANSPORT = "maildir";
+process.env.SMS_PROVIDER = "file";
+const { createAuthRouter, findUserById } = await import("./auth.js");
+
+let server;
+let baseUrl;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/auth", createAuthRouter());
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}/api/auth`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+// Последний код из файла SMS_PROVIDER=file
+const lastSmsCode = () => {
+  const lines = fs.readFileSync(path.join(dataDir, "sms-outbox.log"), "utf8").trim().split("\n");
+  return JSON.parse(lines.at(-1)).text.match(/\d{4,}/)[0];
+};
+
+const post = (route, body) =>
+  fetch(`${baseUrl}${route}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+test("регистрация сохраняет только поля профиля, email и пароль", async () => {
+  const response = await post("/register", {
+    email: " Patient@Example.com ",
+    password: "secret-password",
+    firstname: "Анна",
+    lastname: "Иванова",
+    phone: "+7 914 000-00-00",
+    role: "staff",
+    emailVerified: true,
+    email_verified: true,
+    phoneVerified: true,
+    phone_verified: true,
+    passwordHash: "scrypt$1$1$1$salt$hash",
+    id: 999,
+  });
+  assert.equal(response.status, 201);
+  const session = await response.json();
+  assert.equal(session.user.email, "patient@example.com");
+  assert.equal(session.user.role, "patient");
+  assert.equal(session.user.email_verified, false);
+  assert.equal(session.user.name, "Анна Иванова");
+
+  const stored = findUserById(session.user.id);
+  assert.notEqual(stored.id, 999);
+  assert.equal(stored.role, "patient");
+  assert.equal(stored.email_verified, false);
+  assert.equal(stored.phone_verified, false);
+  assert.match(stored.passwordHash, /^scrypt\$16384\$/);
+  assert.equal(stored.phone, "+7 914 000-00-00");
+
+  const login = await post("/login", { email: "patient@example.com", password: "secret-password" });
+  assert.equal(login.status, 200);
+});
+
+test("телефон не подтверждается через профиль без кода из SMS", async () => {
+  const registered = await post("/register", { email: "phone@example.com", password: "secret-password", firstname: "Олег" });
+  const { token } = await registered.json();
+
+  const response = await fetch(`${baseUrl}/profile`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ phone: "+7 914 111-11-11", phone_verified: true, phoneVerified: true }),
+  });
+  assert.equal(response.status, 200);
+  const user = await response.json();
+  assert.equal(user.phone, "+7 914 111-11-11");
+  assert.equal(user.phone_verified, false);
+});
+
+test("вход по коду из SMS создает пользователя с подтвержденным телефоном", async () => {
+  const phone = "+7 914 222-22-22";
+  assert.equal((await post("/phone/request", { phone })).status, 200);
+
+  const code = lastSmsCode();
+  const wrongCode = code.replace(/\d$/, (digit) => String((Number(digit) + 1) % 10));
+  assert.notEqual((await post("/phone/login", { phone, code: wrongCode })).status, 200);
+
+  const response = await post("/phone/login", { phone, code });
+  assert.equal(response.status, 200);
+  const { user } = await response.json();
+  assert.equal(user.phone_verified, true);
+  assert.equal(user.role, "patient");
+});
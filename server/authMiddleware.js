@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import { bearerToken, verifyAccessToken } from "./authTokens.js";
+import { config } from "./config.js";
+
+function safeEqual(a, b) {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+const unauthorized = (res, message = "Требуется авторизация") =>
+  res.status(401).json({ error: true, errorCode: "UNAUTHORIZED", message });
+
+const forbidden = (res) =>
+  res.status(403).json({ error: true, errorCode: "FORBIDDEN", message: "Недостаточно прав" });
+
+// Пользователь из access-токена (Authorization: Bearer ...) или null
+function userFromToken(req) {
+  const payload = verifyAccessToken(bearerToken(req));
+  if (!payload) return null;
+  return { id: payload.sub, role: payload.role, name: payload.name || "", email: payload.email || "" };
+}
+
+// Любой вошедший пользователь; req.user — данные из токена
+export function requireAuth(req, res, next) {
+  const user = userFromToken(req);
+  if (!user) return unauthorized(res);
+  req.user = user;
+  next();
+}
+
+// Служебные API: сотрудник с токеном (role=staff) или интеграция по ключу STAFF_API_KEY.
+// req.staff.name подставляется в журналы изменений (кто назначил, кто списал).
+export function requireStaff(req, res, next) {
+  const apiKey = req.get("X-Staff-Api-Key");
+  if (apiKey) {
+    if (!config.staffApiKey || !safeEqual(apiKey, config.staffApiKey)) {
+      return unauthorized(res, "Неверный ключ служебного API");
+    }
+    req.staff = { id: null, name: "", via: "apiKey" };
+    return next();
+  }
+
+  const user = userFromToken(req);
+  if (!user) return unauthorized(res, "Требуется авторизация сотрудника");
+  if (user.role !== "staff") return forbidden(res);
+  req.user = user;
+  req.staff = { id: user.id, name: user.name, via: "token" };
+  next();
+}
@@ -0,0 +1,40 @@
+import crypto from "crypto";
+import { config } from "./config.js";
+
+// Минимальный JWT (HS256) на node:crypto: подпись и проверка access-токенов
+const base64url = (input) => Buffer.from(input).toString("base64url");
+const HEADER = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+
+function sign(data) {
+  return crypto.createHmac("sha256", config.auth.jwtSecret).update(data).digest("base64url");
+}
+
+export function signAccessToken(payload, ttlSec = config.auth.accessTokenTtlSec) {
+  const now = Math.floor(Date.now() / 1000);
+  const body = base64url(JSON.stringify({ ...payload, iat: now, exp: now + ttlSec }));
+  const token = `${HEADER}.${body}.${sign(`${HEADER}.${body}`)}`;
+  return { token, expiresAt: new Date((now + ttlSec) * 1000).toISOString() };
+}
+
+// Возвращает payload или null, если подпись не сходится или токен истек
+export function verifyAccessToken(token) {
+  const parts = String(token || "").split(".");
+  if (parts.length !== 3 || parts[0] !== HEADER) return null;
+
+  const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`));
+  const actual = Buffer.from(parts[2]);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+    if (!payload.exp || payload.exp * 1000 <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function bearerToken(req) {
+  const header = req.get("Authorization") || "";
+  return header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+}
@@ -0,0 +1,114 @@
+import fs from "fs";
+import { createRequire } from "module";
+import path from "path";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { config } from "./config.js";
+
+const require = createRequire(import.meta.url);
+// Стандартные шрифты PDF не содержат кириллицы — берем DejaVu из npm-пакета
+const FONT_DIR = path.join(path.dirname(require.resolve("dejavu-fonts-ttf/package.json")), "ttf");
+const FONT_REGULAR = path.join(FONT_DIR, "DejaVuSans.ttf");
+const FONT_BOLD = path.join(FONT_DIR, "DejaVuSans-Bold.ttf");
+const LOGO_PATH = path.join(config.rootDir, "public", "Logo.png");
+
+const BRAND_RED = "#d2002e";
+const DARK = "#2c3e50";
+const MUTED = "#6b7280";
+
+const personName = (person) => [person?.firstName, person?.lastName].filter(Boolean).join(" ");
+const formatAmount = (amount) => `${Number(amount).toLocaleString("ru-RU")} ₽`;
+const formatDate = (iso) =>
+  new Date(iso).toLocaleDateString("ru-RU", { day: "numeric", month: "long", year: "numeric" });
+
+export function certificatePdfFileName(certificate) {
+  return `certificate-${certificate.code}.pdf`;
+}
+
+// Фирменный PDF-сертификат (A4 альбомная): получатель, отправитель, поздравление,
+// номинал, код, QR-код со ссылкой на проверку баланса и срок действия
+export async function renderCertificatePdf(certificate) {
+  const balanceUrl = `${config.publicUrl}/certificates/balance?code=${encodeURIComponent(certificate.code)}`;
+  const qrPng = await QRCode.toBuffer(balanceUrl, { margin: 1, width: 240, color: { dark: DARK } });
+
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: 0,
+    info: { Title: `Подарочный сертификат ${certificate.code}`, Author: "Клиника Алдан" },
+  });
+  doc.registerFont("regular", FONT_REGULAR);
+  doc.registerFont("bold", FONT_BOLD);
+
+  const chunks = [];
+  doc.on("data", (chunk) => chunks.push(chunk));
+  const done = new Promise((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const { width, height } = doc.page;
+  const left = 60;
+  const contentWidth = width - left * 2 - 200;
+
+  // Рамка и фирменная полоса
+  doc.rect(0, 0, width, 16).fill(BRAND_RED);
+  doc.rect(0, height - 16, width, 16).fill(BRAND_RED);
+  doc.lineWidth(1.5).rect(30, 36, width - 60, height - 72).stroke(BRAND_RED);
+
+  if (fs.existsSync(LOGO_PATH)) {
+    doc.image(LOGO_PATH, left, 56, { height: 60 });
+  }
+
+  doc.font("bold").fontSize(34).fillColor(DARK).text("Подарочный сертификат", left, 140, { width: contentWidth });
+  doc.font("bold").fontSize(44).fillColor(BRAND_RED).text(formatAmount(certificate.amount), left, 192);
+
+  let y = 262;
+  const recipient = personName(certificate.recipient);
+  const sponsor = personName(certificate.sponsor);
+  doc.font("regular").fontSize(14).fillColor(MUTED);
+  if (recipient) {
+    doc.text("Для:", left, y).font("bold").fillColor(DARK).text(recipient, left + 50, y);
+    y += 24;
+  }
+  if (sponsor) {
+    doc.font("regular").fillColor(MUTED).text("От:", left, y).font("bold").fillColor(DARK).text(sponsor, left + 50, y);
+    y += 24;
+  }
+  if (certificate.greetingText) {
+    y += 10;
+    doc
+      .font("regular")
+      .fontSize(13)
+      .fillColor(DARK)
+      .text(`«${certificate.greetingText}»`, left, y, { width: contentWidth, height: 90, ellipsis: true });
+  }
+
+  // Код, QR и срок действия — справа
+  const qrX = width - left - 180;
+  doc.image(qrPng, qrX, 140, { width: 180 });
+  doc.font("regular").fontSize(10).fillColor(MUTED).text("Проверить баланс", qrX, 326, { width: 180, align: "center" });
+
+  doc.font("regular").fontSize(12).fillColor(MUTED).text("Код сертификата", left, height - 150);
+  doc.font("bold").fontSize(24).fillColor(DARK).text(certificate.code, left, height - 132, { characterSpacing: 2 });
+  if (certificate.expiresAt) {
+    doc
+      .font("regular")
+      .fontSize(12)
+      .fillColor(MUTED)
+      .text(`Действует до ${formatDate(certificate.expiresAt)}`, left, height - 96);
+  }
+  doc
+    .font("regular")
+    .fontSize(10)
+    .fillColor(MUTED)
+    .text(
+      "Предъявите код администратору клиники при оплате услуг. Сертификат можно использовать частями.",
+      qrX - 120,
+      height - 110,
+      { width: 300, align: "right" }
+    );
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,445 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import express from "express";
+import { getAlfaBankOrderStatus, registerAlfaBankOrder, requirePaymentConfigured } from "./alfaBank.js";
+import { asyncHandler } from "./asyncHandler.js";
+import { certificatePdfFileName, renderCertificatePdf } from "./certificatePdf.js";
+import { config } from "./config.js";
+import { createJsonStore } from "./jsonStore.js";
+import {
+  createOrder,
+  findOrderByAlfaOrderId,
+  generateOrderNumber,
+  markOrderFailed,
+  markOrderRegistered,
+  orderEvents,
+  recordOrderStatus,
+} from "./orderLedger.js";
+import { createRateLimiter } from "./rateLimit.js";
+import { findUserById } from "./auth.js";
+import { requireAuth, requireStaff } from "./authMiddleware.js";
+
+// Без похожих символов (0/O, 1/I), чтобы код было удобно диктовать на ресепшене
+const CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const CODE_PREFIX = "ALD";
+
+const store = createJsonStore("certificates.json", { certificates: {} });
+
+// "issued" (certificate) — код только что выпущен; на него подписаны уведомления
+export const certificateEvents = new EventEmitter();
+const balanceLimiter = createRateLimiter({ windowMs: 60 * 1000, max: 20, name: "certificate-balance" });
+
+function codeChecksum(body) {
+  const digest = crypto.createHmac("sha256", config.certificates.codeSecret).update(body).digest();
+  return CODE_ALPHABET[digest[0] % 32] + CODE_ALPHABET[digest[1] % 32];
+}
+
+// Код вида ALD-XXXX-XXXX-CC: 8 случайных символов и 2 символа подписи (HMAC),
+// поэтому опечатку или подобранный код видно без обращения к хранилищу
+function generateCode() {
+  let body = "";
+  for (let i = 0; i < 8; i++) body += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  return `${CODE_PREFIX}-${body.slice(0, 4)}-${body.slice(4)}-${codeChecksum(body)}`;
+}
+
+export function normalizeCode(input) {
+  const compact = String(input || "").toUpperCase().replace(/[^0-9A-Z]/g, "");
+  const raw = compact.startsWith(CODE_PREFIX) ? compact.slice(CODE_PREFIX.length) : compact;
+  if (raw.length !== 10) return null;
+  const body = raw.slice(0, 8);
+  const check = raw.slice(8);
+  if ([...raw].some((ch) => !CODE_ALPHABET.includes(ch))) return null;
+  if (codeChecksum(body) !== check) return null;
+  return `${CODE_PREFIX}-${body.slice(0, 4)}-${body.slice(4)}-${check}`;
+}
+
+function addMonths(date, months) {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+// Статус с учетом срока действия (в хранилище "expired" не записываем)
+function effectiveStatus(certificate) {
+  if (certificate.status === "active" && certificate.expiresAt && new Date(certificate.expiresAt) < new Date()) {
+    return "expired";
+  }
+  return certificate.status;
+}
+
+function withEffectiveStatus(certificate) {
+  return certificate && { ...certificate, status: effectiveStatus(certificate) };
+}
+
+function toPublicView(certificate) {
+  return {
+    code: certificate.code,
+    amount: certificate.amount,
+    balance: certificate.balance,
+    status: effectiveStatus(certificate),
+    expiresAt: certificate.expiresAt,
+  };
+}
+
+export function getCertificateByOrder(orderNumber) {
+  return withEffectiveStatus(store.read().certificates[orderNumber] || null);
+}
+
+export function getCertificateByCode(code) {
+  const normalized = normalizeCode(code);
+  if (!normalized) return null;
+  const found = Object.values(store.read().certificates).find((c) => c.code === normalized);
+  return withEffectiveStatus(found || null);
+}
+
+// Выпуск кода после оплаты. Повторный вызов возвращает уже выпущенный сертификат.
+export async function issueCertificateForOrder(orderNumber) {
+  let newlyIssued = false;
+  const issued = await store.update((data) => {
+    const certificate = data.certificates[orderNumber];
+    if (!certificate || certificate.status !== "pending") return certificate || null;
+    newlyIssued = true;
+
+    const existingCodes = new Set(Object.values(data.certificates).map((c) => c.code));
+    let code = generateCode();
+    while (existingCodes.has(code)) code = generateCode();
+
+    const now = new Date();
+    certificate.code = code;
+    certificate.status = "active";
+    certificate.balance = certificate.amount;
+    certificate.issuedAt = now.toISOString();
+    certificate.expiresAt = addMonths(now, config.certificates.validityMonths).toISOString();
+    certificate.updatedAt = now.toISOString();
+    console.log(`[certificates] ✅ Выпущен сертификат ${code} по заказу ${orderNumber}`);
+    return certificate;
+  });
+  if (newlyIssued) certificateEvents.emit("issued", withEffectiveStatus(issued));
+  return withEffectiveStatus(issued);
+}
+
+function cancelCertificateForOrder(orderNumber, reason) {
+  return store.update((data) => {
+    const certificate = data.certificates[orderNumber];
+    if (!certificate || certificate.status === "cancelled") return certificate || null;
+    certificate.status = "cancelled";
+    certificate.cancelReason = reason;
+    certificate.updatedAt = new Date().toISOString();
+    console.log(`[certificates] Сертификат по заказу ${orderNumber} аннулирован: ${reason}`);
+    return certificate;
+  });
+}
+
+export async function redeemCertificate(code, { amount, comment, staffName }) {
+  const normalized = normalizeCode(code);
+  if (!normalized) {
+    return { error: "INVALID_CODE", message: "Неверный код сертификата" };
+  }
+  return store.update((data) => {
+    const certificate = Object.values(data.certificates).find((c) => c.code === normalized);
+    if (!certificate) return { error: "NOT_FOUND", message: "Сертификат не найден" };
+
+    const status = effectiveStatus(certificate);
+    if (status !== "active") {
+      return { error: "NOT_ACTIVE", message: `Сертификат недействителен (статус: ${status})` };
+    }
+    if (!(amount > 0) || amount > certificate.balance) {
+      return {
+        error: "INVALID_AMOUNT",
+        message: `Сумма списания должна быть от 1 до ${certificate.balance} ₽`,
+      };
+    }
+
+    const now = new Date().toISOString();
+    certificate.balance = Math.round((certificate.balance - amount) * 100) / 100;
+    certificate.redemptions.push({
+      amount,
+      comment: comment || "",
+      staffName: staffName || "",
+      balanceAfter: certificate.balance,
+      at: now,
+    });
+    if (certificate.balance === 0) certificate.status = "redeemed";
+    certificate.updatedAt = now;
+    return { certificate: withEffectiveStatus(certificate) };
+  });
+}
+
+// Оплата заказа → выпуск кода; отмена/возврат → аннулирование
+orderEvents.on("stateChange", ({ order, to }) => {
+  if (order.kind !== "certificate") return;
+  const task =
+    to === "paid"
+      ? issueCertificateForOrder(order.orderNumber)
+      : to === "reversed" || to === "refunded"
+        ? cancelCertificateForOrder(order.orderNumber, to)
+        : null;
+  task?.catch((error) => {
+    console.error(`[certificates] ❌ Ошибка обработки заказа ${order.orderNumber}:`, error.message);
+  });
+});
+
+async function sendCertificatePdf(res, certificate) {
+  const pdf = await renderCertificatePdf(certificate);
+  res
+    .status(200)
+    .type("application/pdf")
+    .attachment(certificatePdfFileName(certificate))
+    .send(pdf);
+}
+
+const personName = (person) => [person?.firstName, person?.lastName].filter(Boolean).join(" ");
+
+// Оформление и проверка оплаты (эндпоинты, которые вызывает certificateService на клиенте)
+export function createCertificateCheckoutRouter() {
+  const router = express.Router();
+
+  router.post("/", requirePaymentConfigured, async (req, res) => {
+    const { amount, customer, sponsor, greetingText } = req.body || {};
+    const { minAmount, maxAmount } = config.certificates;
+
+    if (!customer?.firstName || !customer?.email) {
+      return res.status(400).json({
+        error: true,
+        errorCode: "MISSING_PARAMETERS",
+        message: "Укажите имя и email получателя",
+      });
+    }
+    if (!Number.isFinite(amount) || amount < minAmount || amount > maxAmount) {
+      return res.status(400).json({
+        error: true,
+        errorCode: "INVALID_AMOUNT",
+        message: `Сумма сертификата должна быть от ${minAmount} до ${maxAmount} ₽`,
+      });
+    }
+
+    const orderNumber = generateOrderNumber("certificate");
+    const description = `Подарочный сертификат на ${amount} ₽`;
+    const buyer = sponsor || customer;
+
+    try {
+      await createOrder({
+        orderNumber,
+        kind: "certificate",
+        amount,
+        description,
+        customer: { name: personName(buyer), email: buyer.email, phone: buyer.phone },
+      });
+
+      const now = new Date().toISOString();
+      await store.update((data) => {
+        data.certificates[orderNumber] = {
+          orderNumber,
+          code: null,
+          amount,
+          balance: 0,
+          status: "pending",
+          recipient: customer,
+          sponsor: sponsor || null,
+          greetingText: greetingText || "",
+          redemptions: [],
+          createdAt: now,
+          updatedAt: now,
+          issuedAt: null,
+          expiresAt: null,
+        };
+      });
+
+      const result = await registerAlfaBankOrder({
+        orderNumber,
+        amount,
+        returnUrl: `${config.publicUrl}/certificates/success`,
+        failUrl: `${config.publicUrl}/certificates/cancel`,
+        description,
+      });
+
+      if (result.errorCode && result.errorCode !== "0") {
+        await markOrderFailed(orderNumber, result.errorCode, result.errorMessage);
+        return res.status(400).json({
+          error: true,
+          errorCode: result.errorCode,
+          message: result.errorMessage || "Ошибка при создании платежа",
+        });
+      }
+
+      await markOrderRegistered(orderNumber, result.orderId);
+      res.json({
+        message: "Сертификат создан, ожидается оплата",
+        orderNumber,
+        paymentUrl: result.formUrl,
+        orderId: result.orderId,
+      });
+    } catch (error) {
+      console.error(`[certificates] ❌ Ошибка оформления сертификата ${orderNumber}:`, error.message);
+      res.status(500).json({
+        error: true,
+        errorCode: "INTERNAL_ERROR",
+        message: "Внутренняя ошибка сервера",
+      });
+    }
+  });
+
+  // orderId — идентификатор заказа в банке (его банк добавляет к returnUrl)
+  router.post("/check-payment/:orderId", requirePaymentConfigured, async (req, res) => {
+    const { orderId } = req.params;
+    try {
+      const result = await getAlfaBankOrderStatus(orderId);
+      if (result.errorCode && result.errorCode !== "0") {
+        return res.status(400).json({
+          error: true,
+          errorCode: result.errorCode,
+          message: result.errorMessage || "Ошибка при проверке статуса",
+        });
+      }
+
+      await recordOrderStatus({ ...result, orderId });
+      const order = findOrderByAlfaOrderId(orderId);
+      const orderNumber = order?.orderNumber || result.orderNumber;
+      const certificate =
+        result.orderStatus === 2
+          ? await issueCertificateForOrder(orderNumber)
+          : getCertificateByOrder(orderNumber);
+
+      res.json({
+        orderStatus: result.orderStatus,
+        orderNumber,
+        amount: result.amount,
+        certificate: certificate?.code ? toPublicView(certificate) : null,
+      });
+    } catch (error) {
+      console.error(`[certificates] ❌ Ошибка проверки оплаты ${orderId}:`, error.message);
+      res.status(500).json({
+        error: true,
+        errorCode: "INTERNAL_ERROR",
+        message: "Внутренняя ошибка сервера",
+      });
+    }
+  });
+
+  // Скачивание PDF со страницы успешной оплаты: orderId банка знает только покупатель
+  router.get("/:orderId/pdf", async (req, res) => {
+    const order = findOrderByAlfaOrderId(req.params.orderId);
+    const certificate = order && getCertificateByOrder(order.orderNumber);
+    if (!certificate?.code) {
+      return res.status(404).json({
+        error: true,
+        errorCode: "CERTIFICATE_NOT_ISSUED",
+        message: "Сертификат еще не выпущен",
+      });
+    }
+    try {
+      await sendCertificatePdf(res, certificate);
+    } catch (error) {
+      console.error(`[certificates] ❌ Ошибка генерации PDF ${certificate.code}:`, error.message);
+      res.status(500).json({ error: true, errorCode: "INTERNAL_ERROR", message: "Внутренняя ошибка сервера" });
+    }
+  });
+
+  return router;
+}
+
+// Публичная проверка баланса и служебные операции с сертификатами
+export function createCertificatesRouter() {
+  const router = express.Router();
+
+  router.get("/:code/balance", balanceLimiter, (req, res) => {
+    const certificate = getCertificateByCode(req.params.code);
+    if (!certificate) {
+      return res.status(404).json({
+        error: true,
+        errorCode: "CERTIFICATE_NOT_FOUND",
+        message: "Сертификат с таким кодом не найден",
+      });
+    }
+    res.json(toPublicView(certificate));
+  });
+
+  // Личный кабинет: купленные пользователем и подаренные ему сертификаты.
+  // Сопоставление по email, поэтому адрес должен быть подтвержден.
+  router.get("/mine", requireAuth, (req, res) => {
+    const user = findUserById(req.user.id);
+    if (!user?.email_verified) {
+      return res.status(403).json({
+        error: true,
+        errorCode: "EMAIL_NOT_VERIFIED",
+        message: "Подтвердите email, чтобы видеть свои сертификаты",
+      });
+    }
+    const email = user.email.toLowerCase();
+    const sameEmail = (person) => person?.email?.toLowerCase() === email;
+    const certificates = Object.values(store.read().certificates)
+      .filter((c) => c.code && (sameEmail(c.sponsor || c.recipient) || sameEmail(c.recipient)))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((c) => ({
+        ...toPublicView(c),
+        orderNumber: c.orderNumber,
+        issuedAt: c.issuedAt,
+        relation: sameEmail(c.sponsor || c.recipient) ? "purchased" : "received",
+        recipientName: personName(c.recipient),
+      }));
+    res.json({ data: certificates, total: certificates.length });
+  });
+
+  router.get("/", requireStaff, (req, res) => {
+    const { status, q } = req.query;
+    const search = (q || "").toString().trim().toLowerCase();
+    const certificates = Object.values(store.read().certificates)
+      .map(withEffectiveStatus)
+      .filter((c) => !status || c.status === status)
+      .filter((c) => {
+        if (!search) return true;
+        return [c.code, c.orderNumber, personName(c.recipient), c.recipient?.email, personName(c.sponsor)]
+          .filter(Boolean)
+          .some((v) => String(v).toLowerCase().includes(search));
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    res.json({ data: certificates, total: certificates.length });
+  });
+
+  router.get("/:code", requireStaff, (req, res) => {
+    const certificate = getCertificateByCode(req.params.code);
+    if (!certificate) {
+      return res.status(404).json({
+        error: true,
+        errorCode: "CERTIFICATE_NOT_FOUND",
+        message: "Сертификат с таким кодом не найден",
+      });
+    }
+    res.json(certificate);
+  });
+
+  // Повторная печать сертификата на ресепшене
+  router.get("/:code/pdf", requireStaff, async (req, res) => {
+    const certificate = getCertificateByCode(req.params.code);
+    if (!certificate) {
+      return res.status(404).json({
+        error: true,
+        errorCode: "CERTIFICATE_NOT_FOUND",
+        message: "Сертификат с таким кодом не найден",
+      });
+    }
+    try {
+      await sendCertificatePdf(res, certificate);
+    } catch (error) {
+      console.error(`[certificates] ❌ Ошибка генерации PDF ${certificate.code}:`, error.message);
+      res.status(500).json({ error: true, errorCode: "INTERNAL_ERROR", message: "Внутренняя ошибка сервера" });
+    }
+  });
+
+  // Частичное списание на ресепшене
+  router.post("/:code/redeem", requireStaff, asyncHandler(async (req, res) => {
+    const amount = Number(req.body?.amount);
+    const result = await redeemCertificate(req.params.code, {
+      amount,
+      comment: req.body?.comment,
+      staffName: req.staff.name || req.body?.staffName,
+    });
+    if (result.error) {
+      const status = result.error === "NOT_FOUND" ? 404 : 400;
+      return res.status(status).json({ error: true, errorCode: result.error, message: result.message });
+    }
+    res.json(result.certificate);
+  }));
+
+  return router;
+}
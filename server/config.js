@@ -0,0 +1,191 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, "..");
+
+// Подхватываем .env из корня проекта (значения из окружения имеют приоритет)
+function loadEnvFile(filePath) {
+  if (!fs.existsSync(filePath)) return;
+  const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+  for (const line of lines) {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)\s*$/);
+    if (!match) continue;
+    const [, key, rawValue] = match;
+    if (process.env[key] !== undefined) continue;
+    process.env[key] = rawValue.replace(/^(['"])(.*)\1$/, "$2");
+  }
+}
+
+// Значение берется из NAME или из файла, путь к которому указан в NAME_FILE (docker/k8s secrets)
+function readSecret(name) {
+  const filePath = process.env[`${name}_FILE`];
+  if (filePath) {
+    try {
+      return fs.readFileSync(filePath, "utf8").trim();
+    } catch (error) {
+      throw new Error(`Не удалось прочитать ${name}_FILE (${filePath}): ${error.message}`);
+    }
+  }
+  const value = process.env[name];
+  return value ? value.trim() : "";
+}
+
+function loadAlfaBankConfig(isProduction) {
+  const env = isProduction ? "PROD" : "TEST";
+  const alfaBank = {
+    url:
+      readSecret(`ALFA_BANK_${env}_URL`) ||
+      (isProduction
+        ? "https://pay.alfabank.ru/payment/rest"
+        : "https://alfa.rbsuat.com/payment/rest"),
+    token: readSecret(`ALFA_BANK_${env}_TOKEN`) || readSecret("ALFA_BANK_TOKEN"),
+    login: readSecret(`ALFA_BANK_${env}_LOGIN`),
+    password: readSecret(`ALFA_BANK_${env}_PASSWORD`),
+    // Ключ для проверки контрольной суммы callback-уведомлений
+    callbackSecret: readSecret("ALFA_BANK_CALLBACK_SECRET"),
+  };
+
+  const errors = [];
+  if (!/^https:\/\//.test(alfaBank.url)) {
+    errors.push(`ALFA_BANK_${env}_URL должен начинаться с https://`);
+  }
+  if (!alfaBank.token && !(alfaBank.login && alfaBank.password)) {
+    errors.push(
+      `нужен ALFA_BANK_TOKEN (или ALFA_BANK_${env}_TOKEN) либо пара ALFA_BANK_${env}_LOGIN / ALFA_BANK_${env}_PASSWORD`
+    );
+  }
+
+  return { ...alfaBank, configured: errors.length === 0, errors };
+}
+
+function loadMailConfig(dataDir) {
+  const smtpHost = readSecret("SMTP_HOST");
+  const transport = process.env.MAIL_TRANSPORT || (smtpHost ? "smtp" : "maildir");
+  if (!["smtp", "maildir"].includes(transport)) {
+    throw new Error(`MAIL_TRANSPORT должен быть smtp или maildir (получено: ${transport})`);
+  }
+  if (transport === "smtp" && !smtpHost) {
+    throw new Error("Для MAIL_TRANSPORT=smtp нужен SMTP_HOST");
+  }
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return {
+    transport,
+    from: process.env.MAIL_FROM || '"Клиника Алдан" <noreply@clinicaldan.ru>',
+    // Ящик клиники: копии обращений с сайта
+    clinicEmail: process.env.CLINIC_EMAIL || "clinicaldan@mail.ru",
+    smtp: {
+      host: smtpHost,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      user: readSecret("SMTP_USER"),
+      password: readSecret("SMTP_PASSWORD"),
+    },
+    // Maildir для разработки: письма складываются в new/, их можно открыть любым почтовым клиентом
+    maildir: path.resolve(ROOT_DIR, process.env.MAILDIR || path.join(dataDir, "maildir")),
+  };
+}
+
+const SMS_PROVIDERS = ["console", "file", "smsru"];
+
+function loadSmsConfig(dataDir) {
+  const smsRuApiId = readSecret("SMS_RU_API_ID");
+  const provider = process.env.SMS_PROVIDER || (smsRuApiId ? "smsru" : "console");
+  if (!SMS_PROVIDERS.includes(provider)) {
+    throw new Error(`SMS_PROVIDER должен быть одним из: ${SMS_PROVIDERS.join(", ")} (получено: ${provider})`);
+  }
+  if (provider === "smsru" && !smsRuApiId) {
+    throw new Error("Для SMS_PROVIDER=smsru нужен SMS_RU_API_ID");
+  }
+  return {
+    provider,
+    // Файл для разработки: каждое сообщение — строка JSON
+    file: path.resolve(ROOT_DIR, process.env.SMS_OUTBOX || path.join(dataDir, "sms-outbox.log")),
+    smsru: {
+      apiId: smsRuApiId,
+      sender: process.env.SMS_SENDER || "",
+    },
+  };
+}
+
+function loadConfig() {
+  loadEnvFile(path.join(ROOT_DIR, ".env"));
+
+  const isProduction = process.env.NODE_ENV === "production";
+  const alfaBank = loadAlfaBankConfig(isProduction);
+
+  if (!alfaBank.configured) {
+    const message = `Конфигурация Альфа-Банка неполная: ${alfaBank.errors.join("; ")}`;
+    if (isProduction) {
+      // В продакшне без платежных реквизитов не стартуем
+      throw new Error(message);
+    }
+    console.warn(`⚠️  ${message}. Платежи будут недоступны.`);
+  }
+  const certificateCodeSecret = readSecret("CERTIFICATE_CODE_SECRET");
+  if (!certificateCodeSecret && isProduction) {
+    throw new Error("CERTIFICATE_CODE_SECRET обязателен в продакшне");
+  }
+
+  const dataDir = path.resolve(ROOT_DIR, process.env.DATA_DIR || "data");
+  const mail = loadMailConfig(dataDir);
+  if (mail.transport === "maildir" && isProduction) {
+    console.warn(`⚠️  SMTP не настроен: письма не отправляются, а складываются в ${mail.maildir}`);
+  }
+
+  const sms = loadSmsConfig(dataDir);
+  if (sms.provider !== "smsru" && isProduction) {
+    console.warn(`⚠️  SMS-провайдер не настроен: коды не отправляются, а пишутся в ${sms.provider === "file" ? sms.file : "лог"}`);
+  }
+
+  const jwtSecret = readSecret("AUTH_JWT_SECRET");
+  if (!jwtSecret && isProduction) {
+    throw new Error("AUTH_JWT_SECRET обязателен в продакшне");
+  }
+
+  if (!alfaBank.callbackSecret) {
+    console.warn("⚠️  ALFA_BANK_CALLBACK_SECRET не задан: callback-уведомления Альфа-Банка отклоняются.");
+  }
+
+  return {
+    isProduction,
+    port: Number(process.env.PORT) || 3001,
+    rootDir: ROOT_DIR,
+    dataDir,
+    alfaBank,
+    staffApiKey: readSecret("STAFF_API_KEY"),
+    auth: {
+      jwtSecret: jwtSecret || "dev-auth-secret",
+      // Время жизни access-токена; после него клиент обновляет токен через /api/auth/refresh
+      accessTokenTtlSec: Number(process.env.AUTH_ACCESS_TOKEN_TTL_SEC) || 15 * 60,
+    },
+    // Регистраторы, на которых можно назначать заявки в панели сотрудника
+    staffRegistrars: (process.env.STAFF_REGISTRARS || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    // Публичный адрес сайта: возвратные URL оплаты, ссылки в письмах
+    publicUrl: (process.env.PUBLIC_SITE_URL || "http://localhost:5173").replace(/\/$/, ""),
+    certificates: {
+      codeSecret: certificateCodeSecret || "dev-certificate-secret",
+      validityMonths: Number(process.env.CERTIFICATE_VALIDITY_MONTHS) || 3,
+      minAmount: 1000,
+      maxAmount: 50000,
+    },
+    mail,
+    sms,
+    archimed: {
+      url: readSecret("ARCHIMED_API_URL") || "https://newapi.archimed-soft.ru/api/v5",
+      token: readSecret("ARCHIMED_API_TOKEN"),
+    },
+  };
+}
+
+export const config = loadConfig();
+
+// Параметры авторизации в REST API Альфа-Банка: токен мерчанта или логин/пароль
+export function alfaBankAuthParams() {
+  const { token, login, password } = config.alfaBank;
+  return token ? { token } : { userName: login, password };
+}
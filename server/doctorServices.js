@@ -0,0 +1,72 @@
+import express from "express";
+import { asyncHandler } from "./asyncHandler.js";
+import { requireStaff } from "./authMiddleware.js";
+import { createJsonStore } from "./jsonStore.js";
+
+// Какие услуги Archimed выполняет врач. Справочник Archimed этих связей не отдает,
+// поэтому их ведут сотрудники. Врач без записи считается несопоставленным: сайт
+// подбирает врачей по направлению, а не по списку услуг.
+const store = createJsonStore("doctor-services.json", { doctors: {}, updatedAt: null });
+
+const ID_RE = /^\d{1,12}$/;
+const MAX_SERVICES = 500;
+
+function invalid(res, message) {
+  return res.status(400).json({ error: true, errorCode: "INVALID_PARAMETERS", message });
+}
+
+export function createDoctorServicesRouter() {
+  const router = express.Router();
+
+  // Публично: страницы врачей и направлений показывают услуги и исполнителей.
+  // no-cache — браузер сверяет ETag, чтобы правки сотрудников были видны сразу
+  router.get("/", (req, res) => {
+    res.set("Cache-Control", "no-cache");
+    res.json(store.read());
+  });
+
+  router.param("doctorId", (req, res, next, doctorId) => {
+    if (!ID_RE.test(doctorId)) return invalid(res, "Некорректный id врача");
+    next();
+  });
+
+  // Список услуг врача заменяется целиком; пустой список — врач не выполняет услуг из справочника
+  router.put("/:doctorId", requireStaff, asyncHandler(async (req, res) => {
+    const { serviceIds } = req.body || {};
+    if (
+      !Array.isArray(serviceIds) ||
+      serviceIds.length > MAX_SERVICES ||
+      !serviceIds.every((id) => Number.isInteger(id) && id > 0)
+    ) {
+      return invalid(res, `serviceIds: массив id услуг (не больше ${MAX_SERVICES})`);
+    }
+
+    const { doctorId } = req.params;
+    const saved = await store.update((data) => {
+      const now = new Date().toISOString();
+      data.doctors[doctorId] = {
+        serviceIds: [...new Set(serviceIds)].sort((a, b) => a - b),
+        updatedAt: now,
+        updatedBy: req.staff?.name || "",
+      };
+      data.updatedAt = now;
+      return data.doctors[doctorId];
+    });
+    console.log(`[doctor-services] ✅ врач ${doctorId}: ${saved.serviceIds.length} услуг (${req.staff?.name || "API"})`);
+    res.json(saved);
+  }));
+
+  router.delete("/:doctorId", requireStaff, asyncHandler(async (req, res) => {
+    const { doctorId } = req.params;
+    const removed = await store.update((data) => {
+      if (!data.doctors[doctorId]) return false;
+      delete data.doctors[doctorId];
+      data.updatedAt = new Date().toISOString();
+      return true;
+    });
+    if (!removed) return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Связи врача не найдены" });
+    res.json({ success: true });
+  }));
+
+  return router;
+}
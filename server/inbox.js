@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import express from "express";
+import { asyncHandler } from "./asyncHandler.js";
+import { config } from "./config.js";
+import { createJsonStore } from "./jsonStore.js";
+
+// Рабочие пометки сотрудников к записям Archimed и заявкам с сайта.
+// В Archimed таких полей нет, поэтому храним их у себя по ключу "<type>:<id>".
+const store = createJsonStore("inbox.json", { annotations: {} });
+
+const ITEM_TYPES = ["appointment", "lead"];
+export const CALL_OUTCOMES = ["called_back", "no_answer", "booked"];
+const MAX_NOTE_LENGTH = 1000;
+
+const annotationKey = (type, id) => `${type}:${id}`;
+
+function emptyAnnotation(type, id) {
+  return { type, id: String(id), assignee: null, callOutcome: null, notes: [], history: [], updatedAt: null };
+}
+
+export function listAnnotations(type) {
+  const { annotations } = store.read();
+  return Object.fromEntries(Object.entries(annotations).filter(([, a]) => !type || a.type === type));
+}
+
+// Меняет ответственного и/или результат звонка; каждое изменение попадает в history
+export function updateAnnotation(type, id, changes, by) {
+  return store.update((data) => {
+    const key = annotationKey(type, id);
+    const annotation = data.annotations[key] || emptyAnnotation(type, id);
+    const now = new Date().toISOString();
+
+    for (const field of ["assignee", "callOutcome"]) {
+      if (!(field in changes) || changes[field] === annotation[field]) continue;
+      annotation.history.push({ field, from: annotation[field], to: changes[field], by: by || "", at: now });
+      annotation[field] = changes[field];
+    }
+    annotation.updatedAt = now;
+    data.annotations[key] = annotation;
+    return annotation;
+  });
+}
+
+export function addNote(type, id, text, author) {
+  return store.update((data) => {
+    const key = annotationKey(type, id);
+    const annotation = data.annotations[key] || emptyAnnotation(type, id);
+    const now = new Date().toISOString();
+    annotation.notes.push({ id: crypto.randomBytes(4).toString("hex"), text, author: author || "", at: now });
+    annotation.updatedAt = now;
+    data.annotations[key] = annotation;
+    return annotation;
+  });
+}
+
+function invalid(res, message) {
+  return res.status(400).json({ error: true, errorCode: "INVALID_PARAMETERS", message });
+}
+
+// API входящих для StaffDashboard (подключается за проверкой доступа сотрудника)
+export function createInboxRouter() {
+  const router = express.Router();
+
+  router.get("/", (req, res) => {
+    res.json({ data: listAnnotations(req.query.type) });
+  });
+
+  router.get("/registrars", (req, res) => {
+    res.json({ data: config.staffRegistrars });
+  });
+
+  router.param("type", (req, res, next, type) => {
+    if (!ITEM_TYPES.includes(type)) {
+      return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Неизвестный тип записи" });
+    }
+    next();
+  });
+
+  router.patch("/:type/:id", asyncHandler(async (req, res) => {
+    const { by, ...body } = req.body || {};
+    const changes = {};
+
+    if ("assignee" in body) {
+      const assignee = typeof body.assignee === "string" ? body.assignee.trim() : null;
+      changes.assignee = assignee || null;
+    }
+    if ("callOutcome" in body) {
+      if (body.callOutcome !== null && !CALL_OUTCOMES.includes(body.callOutcome)) {
+        return invalid(res, `callOutcome: одно из ${CALL_OUTCOMES.join(", ")} или null`);
+      }
+      changes.callOutcome = body.callOutcome;
+    }
+    if (Object.keys(changes).length === 0) {
+      return invalid(res, "Нет изменений: ожидаются assignee и/или callOutcome");
+    }
+
+    const annotation = await updateAnnotation(req.params.type, req.params.id, changes, req.staff?.name || by);
+    res.json(annotation);
+  }));
+
+  router.post("/:type/:id/notes", asyncHandler(async (req, res) => {
+    const text = typeof req.body?.text === "string" ? req.body.text.trim() : "";
+    if (!text) return invalid(res, "Текст заметки пустой");
+    if (text.length > MAX_NOTE_LENGTH) return invalid(res, `Заметка не длиннее ${MAX_NOTE_LENGTH} символов`);
+
+    const annotation = await addNote(req.params.type, req.params.id, text, req.staff?.name || req.body.author);
+    res.status(201).json(annotation);
+  }));
+
+  return router;
+}
@@ -0,0 +1,66 @@
+import fs from "fs";
+import path from "path";
+import { config } from "./config.js";
+
+// Небольшое файловое хранилище: весь документ в памяти, запись атомарно через временный файл.
+// Записи сериализуются, чтобы параллельные запросы не затирали друг друга.
+// Если запись не удалась, документ перечитывается с диска: изменения отменяются и в памяти,
+// а следующие записи работают как обычно.
+export function createJsonStore(fileName, defaultValue) {
+  const filePath = path.join(config.dataDir, fileName);
+  let data = null;
+  let writeQueue = Promise.resolve();
+  // Растет при каждой отмене: снимки, сделанные до нее, содержат отмененные изменения
+  let generation = 0;
+
+  function load() {
+    if (data) return data;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (error) {
+      if (error.code !== "ENOENT") {
+        console.error(`[store] ❌ Не удалось прочитать ${filePath}:`, error.message);
+        throw error;
+      }
+      data = structuredClone(defaultValue);
+    }
+    return data;
+  }
+
+  function persist() {
+    const snapshot = JSON.stringify(data, null, 2);
+    const snapshotGeneration = generation;
+    const write = writeQueue.then(async () => {
+      if (snapshotGeneration !== generation) {
+        throw new Error(`Изменения ${fileName} отменены из-за ошибки предыдущей записи`);
+      }
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      try {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(tmpPath, snapshot, "utf8");
+        await fs.promises.rename(tmpPath, filePath);
+      } catch (error) {
+        console.error(`[store] ❌ Не удалось записать ${filePath}:`, error.message);
+        await fs.promises.rm(tmpPath, { force: true }).catch(() => {});
+        generation++;
+        data = null;
+        throw error;
+      }
+    });
+    // Очередь продолжается после ошибки; сама ошибка достается только этой записи
+    writeQueue = write.catch(() => {});
+    return write;
+  }
+
+  return {
+    read() {
+      return load();
+    },
+    // Синхронно меняет документ и дожидается записи на диск
+    async update(mutator) {
+      const result = mutator(load());
+      await persist();
+      return result;
+    },
+  };
+}
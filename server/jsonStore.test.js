@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "aldan-store-"));
+process.env.DATA_DIR = dataDir;
+const { createJsonStore } = await import("./jsonStore.js");
+
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+const readFile = (name) => JSON.parse(fs.readFileSync(path.join(dataDir, name), "utf8"));
+
+test("после неудачной записи изменения отменяются, а следующие записи проходят", async () => {
+  const store = createJsonStore("items.json", { items: [] });
+  await store.update((data) => data.items.push(1));
+
+  // Каталог на месте временного файла: запись падает с EISDIR
+  const tmpPath = path.join(dataDir, `items.json.${process.pid}.tmp`);
+  fs.mkdirSync(tmpPath);
+  await assert.rejects(store.update((data) => data.items.push(2)));
+  assert.deepEqual(store.read().items, [1]);
+  await assert.rejects(store.update((data) => data.items.push(3)));
+  fs.rmdirSync(tmpPath);
+
+  await store.update((data) => data.items.push(4));
+  assert.deepEqual(store.read().items, [1, 4]);
+  assert.deepEqual(readFile("items.json").items, [1, 4]);
+});
+
+test("запись, поставленная в очередь до ошибки, тоже отклоняется", async () => {
+  const store = createJsonStore("queued.json", { items: [] });
+  await store.update((data) => data.items.push(1));
+
+  const tmpPath = path.join(dataDir, `queued.json.${process.pid}.tmp`);
+  fs.mkdirSync(tmpPath);
+  const failed = store.update((data) => data.items.push(2));
+  const queued = store.update((data) => data.items.push(3));
+  await assert.rejects(failed);
+  fs.rmdirSync(tmpPath);
+  // Снимок второй записи содержит отмененное изменение — на диск он не попадает
+  await assert.rejects(queued);
+  assert.deepEqual(readFile("queued.json").items, [1]);
+
+  await store.update((data) => data.items.push(4));
+  assert.deepEqual(readFile("queued.json").items, [1, 4]);
+});
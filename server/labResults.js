@@ -0,0 +1,282 @@
+import crypto from "crypto";
+import express from "express";
+import fs from "fs";
+import path from "path";
+import { asyncHandler } from "./asyncHandler.js";
+import { findUserById } from "./auth.js";
+import { requireAuth } from "./authMiddleware.js";
+import { config } from "./config.js";
+import { createJsonStore } from "./jsonStore.js";
+import { maskPhone, phoneKey } from "./phone.js";
+import { createRateLimiter } from "./rateLimit.js";
+import { sendSms } from "./sms.js";
+
+// Результаты лабораторных исследований. Заказы и показатели загружает лаборатория
+// (или сотрудник) через служебное API, PDF-бланки лежат рядом с данными в DATA_DIR.
+const store = createJsonStore("lab-results.json", { orders: {} });
+const documentsDir = path.join(config.dataDir, "lab-results");
+
+const accessLimiter = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 5, name: "lab-access" });
+const verifyLimiter = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 20, name: "lab-access-verify" });
+
+export const LAB_ORDER_STATUSES = ["in_progress", "completed"];
+const ORDER_NUMBER_RE = /^[A-Za-z0-9-]{1,40}$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Доступ без аккаунта: номер заказа + дата рождения → SMS-код → одноразовый токен доступа.
+// Токен гасится при первом открытии результатов; вместо него выдается короткая сессия
+// только для скачивания бланков этого заказа.
+// Коды и токены живут в памяти: после перезапуска сервера их нужно запросить заново.
+const CODE_TTL_MS = 5 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+const ACCESS_TTL_MS = 5 * 60 * 1000;
+const DOCUMENTS_TTL_MS = 15 * 60 * 1000;
+const pendingCodes = new Map();
+const accessTokens = new Map();
+const documentSessions = new Map();
+
+const trimmed = (value) => (typeof value === "string" ? value.trim() : "");
+const hashCode = (code) => crypto.createHash("sha256").update(String(code)).digest("hex");
+
+function pruneExpired(map) {
+  const now = Date.now();
+  for (const [key, entry] of map) {
+    if (entry.expiresAt <= now) map.delete(key);
+  }
+}
+
+// Отметка выхода за референсный интервал: "low", "high" или null
+function referenceFlag(item) {
+  const value = Number(String(item.value).replace(",", "."));
+  if (!Number.isFinite(value)) return null;
+  if (item.referenceMin !== undefined && item.referenceMin !== null && value < Number(item.referenceMin)) return "low";
+  if (item.referenceMax !== undefined && item.referenceMax !== null && value > Number(item.referenceMax)) return "high";
+  return null;
+}
+
+// То, что видит пациент: без телефона и даты рождения
+function toPatientView(order) {
+  return {
+    orderNumber: order.orderNumber,
+    patientName: order.patientName,
+    status: order.status,
+    takenAt: order.takenAt,
+    completedAt: order.completedAt,
+    items: order.items.map((item) => ({ ...item, flag: referenceFlag(item) })),
+    documents: order.documents.map(({ id, name }) => ({ id, name })),
+  };
+}
+
+const notFound = (res, message = "Заказ не найден") =>
+  res.status(404).json({ error: true, errorCode: "NOT_FOUND", message });
+
+function invalid(res, message) {
+  return res.status(400).json({ error: true, errorCode: "INVALID_PARAMETERS", message });
+}
+
+function sendDocument(res, order, documentId) {
+  const document = order.documents.find((d) => d.id === documentId);
+  if (!document) return notFound(res, "Документ не найден");
+  res
+    .type("application/pdf")
+    .attachment(document.name)
+    .sendFile(path.join(documentsDir, order.orderNumber, `${document.id}.pdf`));
+}
+
+function normalizeItems(items) {
+  if (!Array.isArray(items)) return null;
+  const normalized = items.map((item) => ({
+    name: trimmed(item?.name),
+    value: item?.value ?? "",
+    unit: trimmed(item?.unit),
+    referenceMin: item?.referenceMin ?? null,
+    referenceMax: item?.referenceMax ?? null,
+    referenceText: trimmed(item?.referenceText),
+  }));
+  return normalized.every((item) => item.name) ? normalized : null;
+}
+
+// Служебное API (подключается за requireStaff): лаборатория передает заказ целиком,
+// повторная передача обновляет его
+export function createLabResultsAdminRouter() {
+  const router = express.Router();
+
+  router.get("/", (req, res) => {
+    const orders = Object.values(store.read().orders).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    res.json({ data: orders, total: orders.length });
+  });
+
+  router.param("orderNumber", (req, res, next, orderNumber) => {
+    if (!ORDER_NUMBER_RE.test(orderNumber)) return invalid(res, "Некорректный номер заказа");
+    next();
+  });
+
+  router.put("/:orderNumber", asyncHandler(async (req, res) => {
+    const body = req.body || {};
+    const birthDate = trimmed(body.birthDate);
+    const items = normalizeItems(body.items ?? []);
+    if (phoneKey(body.patientPhone).length < 10) return invalid(res, "patientPhone: нужен номер телефона пациента");
+    if (!DATE_RE.test(birthDate)) return invalid(res, "birthDate: дата в формате YYYY-MM-DD");
+    if (!LAB_ORDER_STATUSES.includes(body.status)) return invalid(res, `status: одно из ${LAB_ORDER_STATUSES.join(", ")}`);
+    if (!items) return invalid(res, "items: массив показателей с полем name");
+
+    const { orderNumber } = req.params;
+    const order = await store.update((data) => {
+      const now = new Date().toISOString();
+      const existing = data.orders[orderNumber];
+      data.orders[orderNumber] = {
+        orderNumber,
+        patientName: trimmed(body.patientName),
+        patientPhone: trimmed(body.patientPhone),
+        birthDate,
+        status: body.status,
+        takenAt: body.takenAt || existing?.takenAt || null,
+        completedAt: body.status === "completed" ? body.completedAt || existing?.completedAt || now : null,
+        items,
+        documents: existing?.documents || [],
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+      return data.orders[orderNumber];
+    });
+    res.json(order);
+  }));
+
+  // PDF-бланк: тело запроса — сам файл (Content-Type: application/pdf), имя — ?name=
+  router.post(
+    "/:orderNumber/documents",
+    express.raw({ type: "application/pdf", limit: MAX_DOCUMENT_BYTES }),
+    asyncHandler(async (req, res) => {
+      const { orderNumber } = req.params;
+      if (!store.read().orders[orderNumber]) return notFound(res);
+      if (!Buffer.isBuffer(req.body) || req.body.subarray(0, 5).toString() !== "%PDF-") {
+        return invalid(res, "Ожидается PDF-файл (Content-Type: application/pdf)");
+      }
+
+      const id = crypto.randomBytes(6).toString("hex");
+      const name = trimmed(req.query.name).replace(/[^\p{L}\p{N} ._-]/gu, "") || `${orderNumber}.pdf`;
+      await fs.promises.mkdir(path.join(documentsDir, orderNumber), { recursive: true });
+      await fs.promises.writeFile(path.join(documentsDir, orderNumber, `${id}.pdf`), req.body);
+
+      const order = await store.update((data) => {
+        const current = data.orders[orderNumber];
+        current.documents.push({ id, name: name.endsWith(".pdf") ? name : `${name}.pdf`, uploadedAt: new Date().toISOString() });
+        current.updatedAt = new Date().toISOString();
+        return current;
+      });
+      res.status(201).json(order);
+    })
+  );
+
+  return router;
+}
+
+// Пациент: готовые результаты в личном кабинете (по телефону из профиля, как и записи)
+// и доступ по номеру заказа без аккаунта
+export function createLabResultsRouter() {
+  const router = express.Router();
+
+  // Только по подтвержденному кодом номеру, как и записи на прием
+  function patientOrders(req) {
+    const user = findUserById(req.user.id);
+    const phone = phoneKey(user?.phone);
+    if (phone.length < 10 || !user.phone_verified) return [];
+    return Object.values(store.read().orders).filter(
+      (order) => order.status === "completed" && phoneKey(order.patientPhone) === phone
+    );
+  }
+
+  router.get("/mine", requireAuth, (req, res) => {
+    const orders = patientOrders(req).sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+    res.json({ data: orders.map(toPatientView), total: orders.length });
+  });
+
+  router.get("/mine/:orderNumber/documents/:documentId", requireAuth, (req, res) => {
+    const order = patientOrders(req).find((o) => o.orderNumber === req.params.orderNumber);
+    if (!order) return notFound(res);
+    sendDocument(res, order, req.params.documentId);
+  });
+
+  // Шаг 1: номер заказа и дата рождения. Ответ одинаковый для "нет заказа" и "не та дата".
+  router.post("/access", accessLimiter, asyncHandler(async (req, res) => {
+    const orderNumber = trimmed(req.body?.orderNumber);
+    const birthDate = trimmed(req.body?.birthDate);
+    const order = ORDER_NUMBER_RE.test(orderNumber) ? store.read().orders[orderNumber] : null;
+    if (!order || order.birthDate !== birthDate) {
+      return notFound(res, "Заказ не найден или дата рождения не совпадает");
+    }
+    if (order.status !== "completed") {
+      return res.status(409).json({ error: true, errorCode: "NOT_READY", message: "Результаты еще не готовы" });
+    }
+
+    pruneExpired(pendingCodes);
+    const requestId = crypto.randomBytes(16).toString("base64url");
+    const code = String(crypto.randomInt(0, 1_000_000)).padStart(6, "0");
+    try {
+      await sendSms(order.patientPhone, `Код для просмотра результатов анализов: ${code}. Никому его не сообщайте.`);
+    } catch (error) {
+      console.error(`[lab-results] ❌ Не удалось отправить SMS по заказу ${orderNumber}:`, error.message);
+      return res.status(503).json({
+        error: true,
+        errorCode: "SMS_UNAVAILABLE",
+        message: "Не удалось отправить SMS, попробуйте позже",
+      });
+    }
+    pendingCodes.set(requestId, { orderNumber, codeHash: hashCode(code), attempts: 0, expiresAt: Date.now() + CODE_TTL_MS });
+    res.json({ requestId, phone: maskPhone(order.patientPhone), expiresIn: CODE_TTL_MS / 1000 });
+  }));
+
+  // Шаг 2: код из SMS → одноразовый токен доступа к одному заказу
+  router.post("/access/verify", verifyLimiter, (req, res) => {
+    pruneExpired(pendingCodes);
+    const pending = pendingCodes.get(trimmed(req.body?.requestId));
+    if (!pending) {
+      return res.status(400).json({ error: true, errorCode: "CODE_EXPIRED", message: "Код устарел, запросите новый" });
+    }
+    if (pending.codeHash !== hashCode(trimmed(req.body?.code))) {
+      pending.attempts += 1;
+      if (pending.attempts >= MAX_CODE_ATTEMPTS) pendingCodes.delete(trimmed(req.body?.requestId));
+      return res.status(400).json({
+        error: true,
+        errorCode: "INVALID_CODE",
+        message: "Неверный код",
+        attemptsLeft: Math.max(0, MAX_CODE_ATTEMPTS - pending.attempts),
+      });
+    }
+
+    pendingCodes.delete(trimmed(req.body?.requestId));
+    pruneExpired(accessTokens);
+    const token = crypto.randomBytes(24).toString("base64url");
+    const expiresAt = Date.now() + ACCESS_TTL_MS;
+    accessTokens.set(token, { orderNumber: pending.orderNumber, expiresAt });
+    res.json({ token, expiresAt: new Date(expiresAt).toISOString() });
+  });
+
+  const accessExpired = (res) =>
+    res.status(401).json({ error: true, errorCode: "ACCESS_EXPIRED", message: "Ссылка устарела, запросите код заново" });
+
+  // Шаг 3: результаты. Токен одноразовый — повторное открытие требует нового кода из SMS
+  router.get("/access/:token", (req, res) => {
+    pruneExpired(accessTokens);
+    const access = accessTokens.get(req.params.token);
+    accessTokens.delete(req.params.token);
+    const order = access && store.read().orders[access.orderNumber];
+    if (!order) return accessExpired(res);
+
+    pruneExpired(documentSessions);
+    const documentsToken = crypto.randomBytes(24).toString("base64url");
+    const expiresAt = Date.now() + DOCUMENTS_TTL_MS;
+    documentSessions.set(documentsToken, { orderNumber: order.orderNumber, expiresAt });
+    res.json({ ...toPatientView(order), documentsToken, documentsExpiresAt: new Date(expiresAt).toISOString() });
+  });
+
+  router.get("/access/:token/documents/:documentId", (req, res) => {
+    const session = documentSessions.get(req.params.token);
+    const order = session && session.expiresAt > Date.now() && store.read().orders[session.orderNumber];
+    if (!order) return accessExpired(res);
+    sendDocument(res, order, req.params.documentId);
+  });
+
+  return router;
+}
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import express from "express";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "aldan-lab-"));
+process.env.DATA_DIR = dataDir;
+process.env.SMS_PROVIDER = "file";
+const { createLabResultsAdminRouter, createLabResultsRouter } = await import("./labResults.js");
+
+let server;
+let baseUrl;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/lab-orders", createLabResultsAdminRouter());
+  app.use("/api/lab-results", createLabResultsRouter());
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+const send = (method, route, body, contentType = "application/json") =>
+  fetch(`${baseUrl}${route}`, {
+    method,
+    headers: { "Content-Type": contentType },
+    body: contentType === "application/json" ? JSON.stringify(body) : body,
+  });
+
+// Последний код из файла SMS_PROVIDER=file
+const lastSmsCode = () => {
+  const lines = fs.readFileSync(path.join(dataDir, "sms-outbox.log"), "utf8").trim().split("\n");
+  return JSON.parse(lines.at(-1)).text.match(/\d{6}/)[0];
+};
+
+test("токен доступа к результатам одноразовый, бланки скачиваются по отдельной сессии", async () => {
+  const saved = await send("PUT", "/lab-orders/LAB-1", {
+    patientName: "Иванова Анна",
+    patientPhone: "+7 914 000-00-00",
+    birthDate: "1990-01-01",
+    status: "completed",
+    items: [{ name: "Гемоглобин", value: 130, unit: "г/л", referenceMin: 120, referenceMax: 150 }],
+  });
+  assert.equal(saved.status, 200);
+  const uploaded = await send("POST", "/lab-orders/LAB-1/documents?name=blank", Buffer.from("%PDF-1.4 test"), "application/pdf");
+  assert.equal(uploaded.status, 201);
+  const [document] = (await uploaded.json()).documents;
+
+  const requested = await send("POST", "/lab-results/access", { orderNumber: "LAB-1", birthDate: "1990-01-01" });
+  assert.equal(requested.status, 200);
+  const { requestId } = await requested.json();
+  const verified = await send("POST", "/lab-results/access/verify", { requestId, code: lastSmsCode() });
+  assert.equal(verified.status, 200);
+  const { token } = await verified.json();
+
+  const first = await fetch(`${baseUrl}/lab-results/access/${token}`);
+  assert.equal(first.status, 200);
+  const order = await first.json();
+  assert.equal(order.orderNumber, "LAB-1");
+  assert.equal(order.patientPhone, undefined);
+
+  const second = await fetch(`${baseUrl}/lab-results/access/${token}`);
+  assert.equal(second.status, 401);
+  assert.equal((await second.json()).errorCode, "ACCESS_EXPIRED");
+
+  const pdf = await fetch(`${baseUrl}/lab-results/access/${order.documentsToken}/documents/${document.id}`);
+  assert.equal(pdf.status, 200);
+  assert.equal(await pdf.text(), "%PDF-1.4 test");
+  // Токен доступа не открывает бланки, а сессия бланков — результаты
+  assert.equal((await fetch(`${baseUrl}/lab-results/access/${token}/documents/${document.id}`)).status, 401);
+  assert.equal((await fetch(`${baseUrl}/lab-results/access/${order.documentsToken}`)).status, 401);
+});
@@ -0,0 +1,141 @@
+import crypto from "crypto";
+import express from "express";
+import { asyncHandler } from "./asyncHandler.js";
+import { config } from "./config.js";
+import { createJsonStore } from "./jsonStore.js";
+import { enqueueMail } from "./mailer.js";
+import { createRateLimiter } from "./rateLimit.js";
+import { requireStaff } from "./authMiddleware.js";
+
+const store = createJsonStore("leads.json", { leads: [] });
+const submitLimiter = createRateLimiter({ windowMs: 10 * 60 * 1000, max: 5, name: "leads-submit" });
+
+export const LEAD_STATUSES = ["new", "in_progress", "closed", "spam"];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NAME_LENGTH = 100;
+const MAX_MESSAGE_LENGTH = 2000;
+
+const trimmed = (value) => (typeof value === "string" ? value.trim() : "");
+
+// Проверка заявки. Ошибки возвращаются по полям формы, чтобы клиент показал их под каждым полем.
+// Согласия проверяются здесь же: без них заявку не сохраняем, даже если клиентская проверка обойдена.
+function validateLead(body) {
+  const lead = {
+    name: trimmed(body.name),
+    phone: trimmed(body.phone),
+    email: trimmed(body.email).toLowerCase(),
+    message: trimmed(body.message),
+  };
+  const fields = {};
+
+  if (!lead.name) fields.name = "Укажите имя";
+  else if (lead.name.length > MAX_NAME_LENGTH) fields.name = `Имя не длиннее ${MAX_NAME_LENGTH} символов`;
+
+  const phoneDigits = lead.phone.replace(/\D/g, "");
+  if (!lead.phone) fields.phone = "Укажите номер телефона";
+  else if (phoneDigits.length < 10 || phoneDigits.length > 12) fields.phone = "Введите корректный номер телефона";
+
+  if (!lead.email) fields.email = "Укажите email";
+  else if (!EMAIL_RE.test(lead.email)) fields.email = "Email имеет неверный формат";
+
+  if (!lead.message) fields.message = "Введите сообщение";
+  else if (lead.message.length > MAX_MESSAGE_LENGTH) fields.message = `Сообщение не длиннее ${MAX_MESSAGE_LENGTH} символов`;
+
+  if (body.agreeToTerms !== true) fields.agreeToTerms = "Необходимо принять политику конфиденциальности";
+  if (body.agreeToSiteConsent !== true) {
+    fields.agreeToSiteConsent = "Необходимо согласие на обработку персональных данных";
+  }
+
+  return { lead, fields };
+}
+
+export function createLeadsRouter() {
+  const router = express.Router();
+
+  router.post("/", submitLimiter, async (req, res) => {
+    const { lead, fields } = validateLead(req.body || {});
+    if (Object.keys(fields).length > 0) {
+      return res.status(422).json({
+        error: true,
+        errorCode: "VALIDATION_ERROR",
+        message: "Проверьте правильность заполнения формы",
+        fields,
+      });
+    }
+
+    const now = new Date().toISOString();
+    const record = {
+      id: `lead_${Date.now()}_${crypto.randomBytes(3).toString("hex")}`,
+      ...lead,
+      page: trimmed(req.body.page) || null,
+      status: "new",
+      // Факт согласия храним вместе с заявкой: когда и с какого адреса оно дано
+      consents: {
+        agreeToTerms: true,
+        agreeToSiteConsent: true,
+        acceptedAt: now,
+        ip: req.ip,
+        userAgent: req.get("user-agent") || "",
+      },
+      createdAt: now,
+    };
+
+    try {
+      await store.update((data) => {
+        data.leads.push(record);
+      });
+      console.log(`[leads] ✅ Новая заявка ${record.id}`);
+    } catch (error) {
+      console.error("[leads] ❌ Не удалось сохранить заявку:", error.message);
+      return res.status(500).json({
+        error: true,
+        errorCode: "INTERNAL_ERROR",
+        message: "Не удалось отправить заявку. Позвоните нам, пожалуйста.",
+      });
+    }
+
+    // Заявка уже сохранена: сбой постановки письма не должен превращаться в ошибку для посетителя
+    enqueueMail("contactFormCopy", config.mail.clinicEmail, { ...lead, page: record.page }).catch((error) => {
+      console.error(`[leads] ❌ Письмо по заявке ${record.id} не поставлено в очередь:`, error.message);
+    });
+
+    res.status(201).json({ id: record.id, message: "Заявка принята" });
+  });
+
+  // Список заявок для сотрудников (новые сверху)
+  router.get("/", requireStaff, (req, res) => {
+    const { status } = req.query;
+    const leads = store
+      .read()
+      .leads.filter((lead) => !status || lead.status === status)
+      .slice()
+      .reverse();
+    res.json({ data: leads, total: leads.length });
+  });
+
+  router.patch("/:id", requireStaff, asyncHandler(async (req, res) => {
+    const { status } = req.body || {};
+    if (!LEAD_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: true,
+        errorCode: "INVALID_STATUS",
+        message: `Статус: одно из ${LEAD_STATUSES.join(", ")}`,
+      });
+    }
+
+    const lead = await store.update((data) => {
+      const item = data.leads.find((l) => l.id === req.params.id);
+      if (!item) return null;
+      item.status = status;
+      item.updatedAt = new Date().toISOString();
+      return item;
+    });
+    if (!lead) {
+      return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Заявка не найдена" });
+    }
+    res.json(lead);
+  }));
+
+  return router;
+}
@@ -0,0 +1,191 @@
+import { certificatePdfFileName, renderCertificatePdf } from "./certificatePdf.js";
+import { config } from "./config.js";
+
+const BRAND_RED = "#d2002e";
+const DARK = "#2c3e50";
+const MUTED = "#6b7280";
+const CLINIC_NAME = "Клиника Алдан";
+const CLINIC_PHONES = "+7 (923) 381-60-60, +7 (923) 317-60-60";
+
+const personName = (person) => [person?.firstName, person?.lastName].filter(Boolean).join(" ");
+const formatAmount = (amount) => `${Number(amount).toLocaleString("ru-RU")} ₽`;
+const formatDate = (iso) =>
+  new Date(iso).toLocaleDateString("ru-RU", { day: "numeric", month: "long", year: "numeric" });
+
+function escapeHtml(value) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Строки "Название: значение" без пустых значений
+const detailRows = (rows) => rows.filter(([, value]) => value !== undefined && value !== null && value !== "");
+
+// Общая обертка письма: одинаковые шапка и подпись у всех шаблонов.
+// paragraphs и rows — обычный текст, экранирование делается здесь.
+function layout({ title, paragraphs = [], rows = [], footer = true }) {
+  const visibleRows = detailRows(rows);
+  const text = [
+    title,
+    "",
+    ...paragraphs.flatMap((p) => [p, ""]),
+    ...visibleRows.map(([label, value]) => `${label}: ${value}`),
+    ...(footer ? ["", "--", CLINIC_NAME, `Телефоны: ${CLINIC_PHONES}`, config.publicUrl] : []),
+  ].join("\n");
+
+  const html = `<!doctype html>
+<html lang="ru">
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,sans-serif;color:${DARK}">
+  <div style="max-width:560px;margin:0 auto;background:#fff;border-radius:8px;overflow:hidden">
+    <div style="background:${BRAND_RED};color:#fff;padding:16px 24px;font-size:18px;font-weight:bold">${CLINIC_NAME}</div>
+    <div style="padding:24px">
+      <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(title)}</h1>
+      ${paragraphs.map((p) => `<p style="margin:0 0 12px;line-height:1.5">${escapeHtml(p)}</p>`).join("\n      ")}
+      ${
+        visibleRows.length
+          ? `<table style="border-collapse:collapse;margin-top:8px">${visibleRows
+              .map(
+                ([label, value]) =>
+                  `<tr><td style="padding:4px 16px 4px 0;color:${MUTED}">${escapeHtml(label)}</td><td style="padding:4px 0;font-weight:bold">${escapeHtml(value)}</td></tr>`
+              )
+              .join("")}</table>`
+          : ""
+      }
+    </div>
+    ${
+      footer
+        ? `<div style="padding:16px 24px;border-top:1px solid #e5e7eb;color:${MUTED};font-size:13px">${CLINIC_NAME} · ${CLINIC_PHONES} · <a href="${config.publicUrl}" style="color:${BRAND_RED}">${config.publicUrl.replace(/^https?:\/\//, "")}</a></div>`
+        : ""
+    }
+  </div>
+</body>
+</html>`;
+
+  return { text, html };
+}
+
+// Шаблоны писем. Каждый получает data из очереди и возвращает { subject, text, html, attachments? }.
+// Вложения собираются в момент отправки, чтобы очередь не хранила бинарные данные.
+export const mailTemplates = {
+  // Пациенту: заявка на прием принята
+  appointmentReceived({ patientName, date, time, doctorName, serviceName, comments }) {
+    return {
+      subject: "Ваша заявка на прием принята",
+      ...layout({
+        title: `${patientName ? `${patientName}, в` : "В"}аша заявка на прием принята`,
+        paragraphs: [
+          "Администратор клиники свяжется с вами для подтверждения записи.",
+          "Если планы изменятся, пожалуйста, позвоните нам — мы перенесем или отменим запись.",
+        ],
+        rows: [
+          ["Дата", date ? formatDate(date) : undefined],
+          ["Время", time],
+          ["Врач", doctorName],
+          ["Услуга", serviceName],
+          ["Комментарий", comments],
+        ],
+      }),
+    };
+  },
+
+  // Покупателю: оплата прошла, сертификат выпущен
+  certificatePurchased({ certificate }) {
+    const buyer = certificate.sponsor || certificate.recipient;
+    const recipient = personName(certificate.recipient);
+    const forSomeoneElse = Boolean(certificate.sponsor);
+    return {
+      subject: `Подарочный сертификат на ${formatAmount(certificate.amount)} оплачен`,
+      ...layout({
+        title: `${personName(buyer) || "Здравствуйте"}, спасибо за покупку!`,
+        paragraphs: [
+          forSomeoneElse
+            ? `Сертификат отправлен получателю (${recipient}) на ${certificate.recipient.email}.`
+            : "Сертификат с кодом и QR-кодом придет отдельным письмом.",
+        ],
+        rows: [
+          ["Заказ", certificate.orderNumber],
+          ["Номинал", formatAmount(certificate.amount)],
+          ["Код", certificate.code],
+          ["Действует до", certificate.expiresAt ? formatDate(certificate.expiresAt) : undefined],
+        ],
+      }),
+    };
+  },
+
+  // Получателю: сам сертификат с PDF во вложении
+  async certificateDelivered({ certificate }) {
+    const sponsor = personName(certificate.sponsor);
+    const balanceUrl = `${config.publicUrl}/certificates/balance?code=${encodeURIComponent(certificate.code)}`;
+    const pdf = await renderCertificatePdf(certificate);
+    return {
+      subject: sponsor ? `${sponsor} дарит вам сертификат в ${CLINIC_NAME}` : `Ваш подарочный сертификат — ${CLINIC_NAME}`,
+      ...layout({
+        title: `${personName(certificate.recipient) || "Здравствуйте"}, для вас подарочный сертификат!`,
+        paragraphs: [
+          ...(certificate.greetingText ? [`«${certificate.greetingText}»`] : []),
+          "Сертификат во вложении. Назовите код администратору при оплате услуг — его можно использовать частями.",
+          `Проверить остаток: ${balanceUrl}`,
+        ],
+        rows: [
+          ["Номинал", formatAmount(certificate.amount)],
+          ["Код", certificate.code],
+          ["Действует до", certificate.expiresAt ? formatDate(certificate.expiresAt) : undefined],
+          ["От", sponsor],
+        ],
+      }),
+      attachments: [{ filename: certificatePdfFileName(certificate), content: pdf, contentType: "application/pdf" }],
+    };
+  },
+
+  // Пользователю: ссылка подтверждения email после регистрации
+  emailVerification({ name, url }) {
+    return {
+      subject: "Подтвердите email",
+      ...layout({
+        title: `${name ? `${name}, п` : "П"}одтвердите email`,
+        paragraphs: [
+          "Вы зарегистрировались на сайте клиники. Чтобы подтвердить адрес, перейдите по ссылке:",
+          url,
+          "Если вы не регистрировались, просто проигнорируйте это письмо.",
+        ],
+      }),
+    };
+  },
+
+  // Пользователю: ссылка для смены пароля
+  passwordReset({ name, url, validMinutes }) {
+    return {
+      subject: "Смена пароля",
+      ...layout({
+        title: `${name ? `${name}, с` : "С"}мена пароля`,
+        paragraphs: [
+          `Чтобы задать новый пароль, перейдите по ссылке (действует ${validMinutes} минут):`,
+          url,
+          "Если вы не запрашивали смену пароля, проигнорируйте письмо — пароль останется прежним.",
+        ],
+      }),
+    };
+  },
+
+  // Клинике: копия обращения из формы обратной связи
+  contactFormCopy({ name, phone, email, subject, message, page }) {
+    return {
+      subject: `Обращение с сайта: ${subject || name}`,
+      replyTo: email || undefined,
+      ...layout({
+        title: "Новое обращение с сайта",
+        paragraphs: message ? [message] : [],
+        rows: [
+          ["Имя", name],
+          ["Телефон", phone],
+          ["Email", email],
+          ["Тема", subject],
+          ["Страница", page],
+        ],
+        footer: false,
+      }),
+    };
+  },
+};
@@ -0,0 +1,198 @@
+import crypto from "crypto";
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import nodemailer from "nodemailer";
+import { asyncHandler } from "./asyncHandler.js";
+import { config } from "./config.js";
+import { createJsonStore } from "./jsonStore.js";
+import { mailTemplates } from "./mailTemplates.js";
+
+// Паузы между попытками: после исчерпания письмо помечается failed и ждет ручного повтора
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const POLL_INTERVAL_MS = 15 * 1000;
+// Отправленные письма храним месяц — для разбора жалоб «письмо не пришло»
+const SENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const store = createJsonStore("mail-queue.json", { messages: [] });
+
+// Maildir: письмо пишется в tmp/ и атомарно переносится в new/
+function createMaildirTransport(dir) {
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+  let counter = 0;
+  return {
+    async sendMail(message) {
+      const info = await builder.sendMail(message);
+      await Promise.all(["tmp", "new", "cur"].map((sub) => fs.promises.mkdir(path.join(dir, sub), { recursive: true })));
+      const name = `${Date.now()}.P${process.pid}Q${++counter}.${os.hostname()}`;
+      const tmpPath = path.join(dir, "tmp", name);
+      await fs.promises.writeFile(tmpPath, info.message);
+      await fs.promises.rename(tmpPath, path.join(dir, "new", `${name}.eml`));
+      return { messageId: info.messageId, location: path.join(dir, "new", `${name}.eml`) };
+    },
+  };
+}
+
+function createTransport() {
+  const { transport, smtp, maildir } = config.mail;
+  if (transport === "maildir") return createMaildirTransport(maildir);
+  return nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+  });
+}
+
+const transport = createTransport();
+console.log(
+  `📧 Почта: ${config.mail.transport === "smtp" ? `SMTP ${config.mail.smtp.host}:${config.mail.smtp.port}` : `maildir ${config.mail.maildir}`}`
+);
+
+// Ставит письмо в очередь. Данные шаблона сохраняются как есть, письмо рендерится при отправке.
+export async function enqueueMail(template, to, data) {
+  if (!mailTemplates[template]) {
+    throw new Error(`Неизвестный шаблон письма: ${template}`);
+  }
+  if (!to) {
+    console.warn(`[mail] Письмо ${template} пропущено: не указан адрес`);
+    return null;
+  }
+  const now = new Date().toISOString();
+  const message = {
+    id: `mail_${Date.now()}_${crypto.randomBytes(3).toString("hex")}`,
+    template,
+    to,
+    data,
+    status: "queued",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: now,
+    createdAt: now,
+    sentAt: null,
+  };
+  await store.update((queue) => {
+    queue.messages.push(message);
+  });
+  console.log(`[mail] В очереди ${message.id} (${template}) → ${to}`);
+  setImmediate(processQueue);
+  return message.id;
+}
+
+async function deliver(message) {
+  const rendered = await mailTemplates[message.template](message.data);
+  return transport.sendMail({
+    from: config.mail.from,
+    to: message.to,
+    replyTo: rendered.replyTo,
+    subject: rendered.subject,
+    text: rendered.text,
+    html: rendered.html,
+    attachments: rendered.attachments,
+  });
+}
+
+let processing = false;
+
+// Отправляет письма, у которых подошло время попытки. Один обработчик за раз.
+export async function processQueue() {
+  if (processing) return;
+  processing = true;
+  try {
+    const now = Date.now();
+    const due = store
+      .read()
+      .messages.filter((m) => m.status === "queued" && new Date(m.nextAttemptAt).getTime() <= now)
+      .map((m) => m.id);
+
+    for (const id of due) {
+      const message = store.read().messages.find((m) => m.id === id);
+      if (!message || message.status !== "queued") continue;
+
+      let error = null;
+      try {
+        await deliver(message);
+      } catch (err) {
+        error = err;
+      }
+
+      await store.update((queue) => {
+        const item = queue.messages.find((m) => m.id === id);
+        if (!item) return;
+        item.attempts += 1;
+        if (!error) {
+          item.status = "sent";
+          item.sentAt = new Date().toISOString();
+          item.lastError = null;
+          console.log(`[mail] ✅ Отправлено ${id} (${item.template}) → ${item.to}`);
+        } else if (item.attempts >= MAX_ATTEMPTS) {
+          item.status = "failed";
+          item.lastError = error.message;
+          console.error(`[mail] ❌ ${id} не отправлено после ${item.attempts} попыток: ${error.message}`);
+        } else {
+          item.lastError = error.message;
+          item.nextAttemptAt = new Date(Date.now() + RETRY_DELAYS_MS[item.attempts - 1]).toISOString();
+          console.warn(`[mail] ⚠️  ${id}: попытка ${item.attempts} не удалась (${error.message}), повтор ${item.nextAttemptAt}`);
+        }
+      });
+    }
+
+    const cutoff = Date.now() - SENT_RETENTION_MS;
+    if (store.read().messages.some((m) => m.status === "sent" && new Date(m.sentAt).getTime() < cutoff)) {
+      await store.update((queue) => {
+        queue.messages = queue.messages.filter((m) => m.status !== "sent" || new Date(m.sentAt).getTime() >= cutoff);
+      });
+    }
+  } catch (error) {
+    console.error("[mail] ❌ Ошибка обработки очереди:", error.message);
+  } finally {
+    processing = false;
+  }
+}
+
+export function startMailQueue() {
+  setInterval(processQueue, POLL_INTERVAL_MS).unref();
+  setImmediate(processQueue);
+}
+
+// Данные шаблона могут содержать персональные данные — в списке отдаем только служебные поля
+const toListItem = ({ data, ...message }) => message;
+
+// Очередь писем для сотрудников: просмотр и ручной повтор
+export function createMailQueueRouter() {
+  const router = express.Router();
+
+  router.get("/", (req, res) => {
+    const { status } = req.query;
+    const messages = store
+      .read()
+      .messages.filter((m) => !status || m.status === status)
+      .map(toListItem)
+      .reverse();
+    res.json({ messages });
+  });
+
+  router.post("/:id/retry", asyncHandler(async (req, res) => {
+    const message = await store.update((queue) => {
+      const item = queue.messages.find((m) => m.id === req.params.id);
+      if (!item || item.status === "sent") return item || null;
+      item.status = "queued";
+      item.attempts = 0;
+      item.nextAttemptAt = new Date().toISOString();
+      return item;
+    });
+
+    if (!message) {
+      return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Письмо не найдено" });
+    }
+    if (message.status === "sent") {
+      return res.status(409).json({ error: true, errorCode: "ALREADY_SENT", message: "Письмо уже отправлено" });
+    }
+    setImmediate(processQueue);
+    res.json({ message: toListItem(message) });
+  }));
+
+  return router;
+}
@@ -0,0 +1,53 @@
+import { archimedEvents, fetchArchimedResource } from "./archimedProxy.js";
+import { certificateEvents } from "./certificates.js";
+import { enqueueMail } from "./mailer.js";
+
+const reportError = (context) => (error) => {
+  console.error(`[notifications] ❌ ${context}:`, error.message);
+};
+
+// Имя врача и название услуги для письма; без них письмо все равно уходит
+async function lookupName(resource, id, format) {
+  if (!id) return undefined;
+  try {
+    const item = await fetchArchimedResource(resource, id);
+    return format(item?.data ?? item);
+  } catch (error) {
+    console.warn(`[notifications] Не удалось получить ${resource}/${id}: ${error.message}`);
+    return undefined;
+  }
+}
+
+async function notifyAppointmentReceived({ talon, request }) {
+  const source = { ...request, ...(talon?.data ?? talon ?? {}) };
+  if (!source.patient_email) return;
+
+  const [doctorName, serviceName] = await Promise.all([
+    lookupName("doctors", source.doctor_id, (d) => [d?.name, d?.name1, d?.name2].filter(Boolean).join(" ")),
+    lookupName("services", source.service_id, (s) => s?.name),
+  ]);
+  await enqueueMail("appointmentReceived", source.patient_email, {
+    patientName: source.patient_name,
+    date: source.preferred_date,
+    time: source.preferred_time,
+    doctorName,
+    serviceName,
+    comments: source.comments,
+  });
+}
+
+async function notifyCertificateIssued(certificate) {
+  const buyer = certificate.sponsor || certificate.recipient;
+  await enqueueMail("certificatePurchased", buyer?.email, { certificate });
+  await enqueueMail("certificateDelivered", certificate.recipient?.email, { certificate });
+}
+
+// Подписка на доменные события: сами модули о почте ничего не знают
+export function registerNotifications() {
+  archimedEvents.on("talonCreated", (event) => {
+    notifyAppointmentReceived(event).catch(reportError("письмо о записи на прием"));
+  });
+  certificateEvents.on("issued", (certificate) => {
+    notifyCertificateIssued(certificate).catch(reportError(`письма по сертификату ${certificate.orderNumber}`));
+  });
+}
@@ -0,0 +1,194 @@
+import { EventEmitter } from "events";
+import express from "express";
+import { createJsonStore } from "./jsonStore.js";
+
+// Коды orderStatus из getOrderStatus.do → состояние заказа
+const ORDER_STATUS_STATES = {
+  0: "registered",
+  1: "approved",
+  2: "paid",
+  3: "reversed",
+  4: "refunded",
+  5: "acs_pending",
+  6: "declined",
+};
+
+export const ORDER_KINDS = ["certificate", "appointment"];
+
+const store = createJsonStore("orders.json", { orders: {}, processedCallbacks: {} });
+
+// "stateChange" ({ order, from, to }) — после сохранения перехода на диск.
+// Подписчики (выпуск сертификатов, письма) не должны бросать исключения.
+export const orderEvents = new EventEmitter();
+
+function appendTransition(order, entry, changes) {
+  const now = new Date().toISOString();
+  const from = order.state;
+  const to = entry.state || from;
+  order.statusHistory.push({ ...entry, from, to, at: now });
+  order.state = to;
+  order.updatedAt = now;
+  if (from !== to) changes.push({ order, from, to });
+}
+
+async function updateOrders(mutator) {
+  const changes = [];
+  const result = await store.update((data) => mutator(data, changes));
+  for (const change of changes) {
+    orderEvents.emit("stateChange", change);
+  }
+  return result;
+}
+
+export function generateOrderNumber(kind) {
+  const prefix = kind === "appointment" ? "appt" : "cert";
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+}
+
+export function findOrderByAlfaOrderId(alfaOrderId) {
+  return Object.values(store.read().orders).find((o) => o.alfaOrderId === alfaOrderId) || null;
+}
+
+export function createOrder({ orderNumber, kind, amount, description, customer, metadata }) {
+  const now = new Date().toISOString();
+  const order = {
+    orderNumber,
+    kind: ORDER_KINDS.includes(kind) ? kind : "certificate",
+    alfaOrderId: null,
+    amount,
+    description,
+    customer: {
+      name: customer?.name || "",
+      email: customer?.email || "",
+      phone: customer?.phone || "",
+    },
+    metadata: metadata || {},
+    state: "created",
+    statusHistory: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  return updateOrders((data) => {
+    data.orders[orderNumber] = order;
+    return order;
+  });
+}
+
+export function markOrderRegistered(orderNumber, alfaOrderId) {
+  return updateOrders((data, changes) => {
+    const order = data.orders[orderNumber];
+    if (!order) return null;
+    order.alfaOrderId = alfaOrderId;
+    appendTransition(order, { source: "register", state: "registered" }, changes);
+    return order;
+  });
+}
+
+export function markOrderFailed(orderNumber, errorCode, errorMessage) {
+  return updateOrders((data, changes) => {
+    const order = data.orders[orderNumber];
+    if (!order) return null;
+    appendTransition(order, { source: "register", state: "failed", errorCode, errorMessage }, changes);
+    return order;
+  });
+}
+
+// Ответ getOrderStatus.do: пишем в историю только смену статуса, а не каждый опрос
+export function recordOrderStatus(result) {
+  return updateOrders((data, changes) => {
+    const order =
+      data.orders[result.orderNumber] ||
+      (result.orderId && findOrderByAlfaOrderId(result.orderId));
+    if (!order) return null;
+    const state = ORDER_STATUS_STATES[result.orderStatus];
+    if (state && state !== order.state) {
+      appendTransition(order, { source: "status", orderStatus: result.orderStatus, state }, changes);
+    }
+    return order;
+  });
+}
+
+// Возвращает true, если это уведомление уже обрабатывалось (повторная доставка)
+export function recordCallback({ mdOrder, orderNumber, operation, state, success }) {
+  const eventKey = `${mdOrder}|${operation}|${success ? 1 : 0}`;
+  return updateOrders((data, changes) => {
+    if (data.processedCallbacks[eventKey]) return true;
+    data.processedCallbacks[eventKey] = new Date().toISOString();
+
+    // Заказ мог быть создан не через этот сервер — заводим запись по уведомлению
+    const now = new Date().toISOString();
+    const order = data.orders[orderNumber] || {
+      orderNumber,
+      kind: orderNumber.startsWith("appt_") ? "appointment" : "certificate",
+      alfaOrderId: mdOrder,
+      amount: null,
+      description: "",
+      customer: { name: "", email: "", phone: "" },
+      metadata: {},
+      state: "registered",
+      statusHistory: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    order.alfaOrderId = order.alfaOrderId || mdOrder;
+    appendTransition(order, { source: "callback", operation, success, state: success ? state : null }, changes);
+    data.orders[orderNumber] = order;
+    return false;
+  });
+}
+
+export function getOrder(orderNumber) {
+  return store.read().orders[orderNumber] || null;
+}
+
+export function listOrders({ state, kind, from, to, q } = {}) {
+  const search = (q || "").toString().trim().toLowerCase();
+  return Object.values(store.read().orders)
+    .filter((o) => !state || o.state === state)
+    .filter((o) => !kind || o.kind === kind)
+    .filter((o) => !from || o.createdAt >= from)
+    .filter((o) => !to || o.createdAt <= to)
+    .filter((o) => {
+      if (!search) return true;
+      return [o.orderNumber, o.alfaOrderId, o.description, o.customer.name, o.customer.email, o.customer.phone]
+        .filter(Boolean)
+        .some((v) => String(v).toLowerCase().includes(search));
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Сверка: итоги по состояниям за период
+export function summarizeOrders(orders) {
+  const summary = {};
+  for (const order of orders) {
+    const entry = summary[order.state] || { count: 0, amount: 0 };
+    entry.count += 1;
+    entry.amount += order.amount || 0;
+    summary[order.state] = entry;
+  }
+  return summary;
+}
+
+export function createOrdersRouter() {
+  const router = express.Router();
+
+  router.get("/", (req, res) => {
+    const { state, kind, from, to, q } = req.query;
+    const orders = listOrders({ state, kind, from, to, q });
+    res.json({ data: orders, total: orders.length, summary: summarizeOrders(orders) });
+  });
+
+  router.get("/:orderNumber", (req, res) => {
+    const order = getOrder(req.params.orderNumber);
+    if (!order) {
+      return res.status(404).json({
+        error: true,
+        errorCode: "ORDER_NOT_FOUND",
+        message: "Заказ не найден",
+      });
+    }
+    res.json(order);
+  });
+
+  return router;
+}
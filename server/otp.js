@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import { createJsonStore } from "./jsonStore.js";
+import { phoneKey } from "./phone.js";
+import { sendSms } from "./sms.js";
+
+// Одноразовые SMS-коды для входа и подтверждения телефона.
+// Ограничения считаются по номеру (а не по IP), поэтому хранятся в файле и переживают перезапуск.
+const store = createJsonStore("otp.json", { codes: {} });
+
+const CODE_TTL_MS = 5 * 60 * 1000;
+const RESEND_INTERVAL_MS = 60 * 1000;
+const SEND_WINDOW_MS = 60 * 60 * 1000;
+const MAX_SENDS_PER_WINDOW = 5;
+const MAX_ATTEMPTS = 5;
+const LOCK_MS = 15 * 60 * 1000;
+
+const hashCode = (code) => crypto.createHash("sha256").update(String(code)).digest();
+const secondsUntil = (time) => Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+function emptyRecord() {
+  return { codeHash: null, expiresAt: 0, attempts: 0, sends: [], lockedUntil: 0 };
+}
+
+// Записи без действующего кода, блокировки и недавних отправок больше не нужны
+function prune(codes, now) {
+  for (const [key, record] of Object.entries(codes)) {
+    const recentSend = record.sends.some((at) => at > now - SEND_WINDOW_MS);
+    if (record.expiresAt <= now && record.lockedUntil <= now && !recentSend) delete codes[key];
+  }
+}
+
+// Отправляет новый код. Результат: { expiresIn, resendIn } или { error, retryAfter }, где error —
+// RESEND_TOO_SOON (прошло меньше минуты), TOO_MANY_CODES (лимит в час) или LOCKED (блокировка после ошибок).
+export async function sendOtp(purpose, phone, message) {
+  const key = `${purpose}:${phoneKey(phone)}`;
+  const code = String(crypto.randomInt(0, 1_000_000)).padStart(6, "0");
+
+  const result = await store.update((data) => {
+    const now = Date.now();
+    prune(data.codes, now);
+    const record = data.codes[key] || emptyRecord();
+    record.sends = record.sends.filter((at) => at > now - SEND_WINDOW_MS);
+
+    if (record.lockedUntil > now) return { error: "LOCKED", retryAfter: secondsUntil(record.lockedUntil) };
+    const lastSend = record.sends[record.sends.length - 1] || 0;
+    if (lastSend + RESEND_INTERVAL_MS > now) {
+      return { error: "RESEND_TOO_SOON", retryAfter: secondsUntil(lastSend + RESEND_INTERVAL_MS) };
+    }
+    if (record.sends.length >= MAX_SENDS_PER_WINDOW) {
+      return { error: "TOO_MANY_CODES", retryAfter: secondsUntil(record.sends[0] + SEND_WINDOW_MS) };
+    }
+
+    record.codeHash = hashCode(code).toString("hex");
+    record.expiresAt = now + CODE_TTL_MS;
+    record.attempts = 0;
+    record.sends.push(now);
+    data.codes[key] = record;
+    return { expiresIn: CODE_TTL_MS / 1000, resendIn: RESEND_INTERVAL_MS / 1000 };
+  });
+  if (result.error) return result;
+
+  await sendSms(phone, message(code));
+  return result;
+}
+
+// Проверяет код. Результат: { ok: true } или { error, ... }: INVALID_CODE (attemptsLeft),
+// CODE_EXPIRED или LOCKED (retryAfter). После MAX_ATTEMPTS ошибок номер блокируется на 15 минут.
+export function verifyOtp(purpose, phone, code) {
+  const key = `${purpose}:${phoneKey(phone)}`;
+  return store.update((data) => {
+    const now = Date.now();
+    const record = data.codes[key];
+    if (record?.lockedUntil > now) return { error: "LOCKED", retryAfter: secondsUntil(record.lockedUntil) };
+    if (!record?.codeHash || record.expiresAt <= now) return { error: "CODE_EXPIRED" };
+
+    const expected = Buffer.from(record.codeHash, "hex");
+    if (!crypto.timingSafeEqual(expected, hashCode(String(code ?? "").trim()))) {
+      record.attempts += 1;
+      if (record.attempts >= MAX_ATTEMPTS) {
+        record.codeHash = null;
+        record.lockedUntil = now + LOCK_MS;
+        console.warn(`[otp] ❌ Номер заблокирован после ${MAX_ATTEMPTS} неверных кодов (${purpose})`);
+        return { error: "LOCKED", retryAfter: secondsUntil(record.lockedUntil) };
+      }
+      return { error: "INVALID_CODE", attemptsLeft: MAX_ATTEMPTS - record.attempts };
+    }
+
+    // Код одноразовый; лимит отправок при этом сохраняется
+    record.codeHash = null;
+    record.expiresAt = 0;
+    record.attempts = 0;
+    return { ok: true };
+  });
+}
+
+const OTP_ERRORS = {
+  RESEND_TOO_SOON: { status: 429, message: (r) => `Новый код можно запросить через ${r.retryAfter} сек.` },
+  TOO_MANY_CODES: { status: 429, message: () => "Слишком много кодов за последний час, попробуйте позже" },
+  LOCKED: { status: 429, message: (r) => `Слишком много неверных кодов. Попробуйте через ${Math.ceil(r.retryAfter / 60)} мин.` },
+  INVALID_CODE: { status: 400, message: () => "Неверный код" },
+  CODE_EXPIRED: { status: 400, message: () => "Код устарел, запросите новый" },
+};
+
+// Ответ API по результату sendOtp/verifyOtp с ошибкой
+export function sendOtpError(res, result) {
+  const { status, message } = OTP_ERRORS[result.error];
+  if (result.retryAfter) res.setHeader("Retry-After", String(result.retryAfter));
+  return res.status(status).json({
+    error: true,
+    errorCode: result.error,
+    message: message(result),
+    ...(result.retryAfter && { retryAfter: result.retryAfter }),
+    ...(result.attemptsLeft !== undefined && { attemptsLeft: result.attemptsLeft }),
+  });
+}
@@ -0,0 +1,85 @@
+import crypto from "crypto";
+import express from "express";
+import { config } from "./config.js";
+import { recordCallback } from "./orderLedger.js";
+
+// Операции из callback-уведомлений Альфа-Банка → состояние заказа
+const OPERATION_STATES = {
+  approved: "approved", // сумма захолдирована
+  deposited: "paid", // списание завершено
+  reversed: "reversed", // авторизация отменена
+  refunded: "refunded", // возврат
+  declinedByTimeout: "declined", // истекло время на оплату
+};
+
+// Контрольная сумма: HMAC-SHA256 по строке "key;value;" для всех параметров
+// (кроме checksum и sign_alias), отсортированных по имени, в верхнем регистре hex
+export function computeCallbackChecksum(params, secret) {
+  const payload = Object.keys(params)
+    .filter((key) => key !== "checksum" && key !== "sign_alias")
+    .sort()
+    .map((key) => `${key};${params[key]};`)
+    .join("");
+  return crypto.createHmac("sha256", secret).update(payload, "utf8").digest("hex").toUpperCase();
+}
+
+function isChecksumValid(params, secret) {
+  if (typeof params.checksum !== "string") return false;
+  const expected = Buffer.from(computeCallbackChecksum(params, secret));
+  const received = Buffer.from(params.checksum.toUpperCase());
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+export function createPaymentCallbackRouter() {
+  const router = express.Router();
+
+  // Банк может присылать уведомления как GET-запросом, так и POST (form-urlencoded)
+  router.all("/", async (req, res) => {
+    const params = { ...req.query, ...(req.method === "POST" ? req.body : {}) };
+    const { mdOrder, orderNumber, operation, status } = params;
+    const requestId = `callback_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+    console.log(`[${requestId}] Callback Альфа-Банка:`, { mdOrder, orderNumber, operation, status });
+
+    if (!config.alfaBank.callbackSecret) {
+      console.error(`[${requestId}] ❌ ALFA_BANK_CALLBACK_SECRET не настроен`);
+      return res.status(503).send("CALLBACK_NOT_CONFIGURED");
+    }
+
+    if (!mdOrder || !orderNumber || !operation || status === undefined) {
+      console.error(`[${requestId}] ❌ Неполные параметры уведомления`);
+      return res.status(400).send("MISSING_PARAMETERS");
+    }
+
+    if (!isChecksumValid(params, config.alfaBank.callbackSecret)) {
+      console.error(`[${requestId}] ❌ Неверная контрольная сумма`);
+      return res.status(403).send("INVALID_CHECKSUM");
+    }
+
+    // Повторная доставка того же уведомления ничего не меняет
+    const isSuccess = String(status) === "1";
+
+    try {
+      const duplicate = await recordCallback({
+        mdOrder,
+        orderNumber,
+        operation,
+        state: OPERATION_STATES[operation] || null,
+        success: isSuccess,
+      });
+
+      if (duplicate) {
+        console.log(`[${requestId}] Повторное уведомление ${mdOrder}/${operation}, пропускаем`);
+      } else {
+        console.log(`[${requestId}] ✅ Уведомление обработано: ${orderNumber} → ${operation} (${status})`);
+      }
+      res.status(200).send("OK");
+    } catch (error) {
+      console.error(`[${requestId}] ❌ Ошибка обработки уведомления:`, error.message);
+      // Не 200 — банк повторит доставку позже
+      res.status(500).send("INTERNAL_ERROR");
+    }
+  });
+
+  return router;
+}
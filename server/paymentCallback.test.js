@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import express from "express";
+
+const SECRET = "test-callback-secret";
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "aldan-callback-"));
+process.env.DATA_DIR = dataDir;
+process.env.ALFA_BANK_CALLBACK_SECRET = SECRET;
+const { computeCallbackChecksum, createPaymentCallbackRouter } = await import("./paymentCallback.js");
+const { orderEvents } = await import("./orderLedger.js");
+
+let server;
+let baseUrl;
+
+before(async () => {
+  const app = express();
+  app.use(express.urlencoded({ extended: true }));
+  app.use("/callback", createPaymentCallbackRouter());
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}/callback`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+const readOrders = () => JSON.parse(fs.readFileSync(path.join(dataDir, "orders.json"), "utf8")).orders;
+
+function notification(overrides = {}) {
+  const params = { mdOrder: "md-1", orderNumber: "cert_1", operation: "deposited", status: "1", amount: "500000", ...overrides };
+  return { ...params, checksum: computeCallbackChecksum(params, SECRET) };
+}
+
+const post = (params) =>
+  fetch(baseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params),
+  });
+
+test("контрольная сумма не зависит от порядка параметров и не учитывает checksum и sign_alias", () => {
+  const checksum = computeCallbackChecksum({ b: "2", a: "1" }, SECRET);
+  assert.match(checksum, /^[0-9A-F]{64}$/);
+  assert.equal(computeCallbackChecksum({ a: "1", b: "2", checksum: "x", sign_alias: "y" }, SECRET), checksum);
+  assert.notEqual(computeCallbackChecksum({ a: "1", b: "3" }, SECRET), checksum);
+  assert.notEqual(computeCallbackChecksum({ a: "1", b: "2" }, "other-secret"), checksum);
+});
+
+test("уведомление с верной контрольной суммой принимается", async () => {
+  const params = notification({ mdOrder: "md-valid", orderNumber: "cert_valid" });
+  params.checksum = params.checksum.toLowerCase();
+  const response = await post(params);
+  assert.equal(response.status, 200);
+  assert.equal(await response.text(), "OK");
+  assert.equal(readOrders().cert_valid.state, "paid");
+});
+
+test("повторная доставка того же уведомления не создает второй переход", async () => {
+  const changes = [];
+  const onChange = (change) => {
+    if (change.order.orderNumber === "cert_repeat") changes.push(change);
+  };
+  orderEvents.on("stateChange", onChange);
+  try {
+    const params = notification({ mdOrder: "md-repeat", orderNumber: "cert_repeat" });
+    for (let delivery = 0; delivery < 2; delivery++) {
+      const response = await post(params);
+      assert.equal(response.status, 200);
+      assert.equal(await response.text(), "OK");
+    }
+  } finally {
+    orderEvents.off("stateChange", onChange);
+  }
+
+  const order = readOrders().cert_repeat;
+  assert.equal(order.state, "paid");
+  assert.equal(order.statusHistory.length, 1);
+  assert.equal(changes.length, 1);
+});
+
+test("уведомление с неверной или без контрольной суммы отклоняется", async () => {
+  const tampered = notification({ mdOrder: "md-bad", orderNumber: "cert_bad" });
+  tampered.amount = "1";
+  const { checksum: _checksum, ...unsigned } = notification({ mdOrder: "md-bad", orderNumber: "cert_bad" });
+
+  for (const params of [tampered, unsigned, { ...unsigned, checksum: "0".repeat(64) }]) {
+    const response = await post(params);
+    assert.equal(response.status, 403);
+    assert.equal(await response.text(), "INVALID_CHECKSUM");
+  }
+  assert.equal(readOrders().cert_bad, undefined);
+});
+
+test("уведомление без обязательных параметров отклоняется до проверки подписи", async () => {
+  const { operation: _operation, ...params } = notification();
+  const response = await post(params);
+  assert.equal(response.status, 400);
+  assert.equal(await response.text(), "MISSING_PARAMETERS");
+});
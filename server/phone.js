@@ -0,0 +1,14 @@
+// Последние 10 цифр: +7 (923) ... и 8923... считаются одним номером
+export const phoneKey = (phone) => String(phone || "").replace(/\D/g, "").slice(-10);
+
+// +79231112233 или пустая строка, если номер не похож на российский мобильный/городской
+export function normalizePhone(phone) {
+  const key = phoneKey(phone);
+  return key.length === 10 ? `+7${key}` : "";
+}
+
+// +7 (***) ***-22-33 — для сообщений "код отправлен на ..."
+export function maskPhone(phone) {
+  const key = phoneKey(phone);
+  return key.length === 10 ? `+7 (***) ***-${key.slice(6, 8)}-${key.slice(8)}` : "";
+}
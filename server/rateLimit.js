@@ -0,0 +1,44 @@
+// Простой in-memory rate limiter по IP (фиксированное окно)
+export function createRateLimiter({ windowMs, max, name = "default" }) {
+  const hits = new Map();
+
+  // Периодически чистим устаревшие записи, чтобы Map не рос бесконечно
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of hits) {
+      if (entry.resetAt <= now) hits.delete(key);
+    }
+  }, windowMs);
+  cleanup.unref();
+
+  return (req, res, next) => {
+    const key = req.ip || req.socket?.remoteAddress || "unknown";
+    const now = Date.now();
+    let entry = hits.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count += 1;
+    const remaining = Math.max(0, max - entry.count);
+    res.setHeader("X-RateLimit-Limit", String(max));
+    res.setHeader("X-RateLimit-Remaining", String(remaining));
+    res.setHeader("X-RateLimit-Reset", String(Math.ceil(entry.resetAt / 1000)));
+
+    if (entry.count > max) {
+      const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
+      console.warn(`[rate-limit:${name}] ❌ Превышен лимит запросов для ${key}`);
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        error: true,
+        errorCode: "RATE_LIMITED",
+        message: "Слишком много запросов, попробуйте позже",
+        retryAfter,
+      });
+    }
+
+    next();
+  };
+}
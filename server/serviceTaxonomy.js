@@ -0,0 +1,87 @@
+import express from "express";
+import { asyncHandler } from "./asyncHandler.js";
+import { requireStaff } from "./authMiddleware.js";
+import { createJsonStore } from "./jsonStore.js";
+
+// Таксономия услуг: к каким направлениям, категориям и подкатегориям сайта относятся
+// группы и отдельные услуги Archimed. Сопоставление группы действует на все ее услуги,
+// сопоставление услуги уточняет группу. Где сопоставления нет, сайт угадывает по ключевым словам.
+const store = createJsonStore("service-taxonomy.json", { groups: {}, services: {}, updatedAt: null });
+
+const KINDS = { groups: "группа", services: "услуга" };
+const ID_RE = /^-?\d{1,12}$/;
+const SLUG_RE = /^[a-z0-9-]{1,60}$/;
+const MAX_DIRECTIONS = 10;
+
+function invalid(res, message) {
+  return res.status(400).json({ error: true, errorCode: "INVALID_PARAMETERS", message });
+}
+
+// Проверяет и нормализует запись; строка — текст ошибки
+function normalizeEntry(body) {
+  const entry = {};
+  if ("directions" in body) {
+    const { directions } = body;
+    if (!Array.isArray(directions) || directions.length > MAX_DIRECTIONS || !directions.every((d) => SLUG_RE.test(d))) {
+      return `directions: массив slug направлений (не больше ${MAX_DIRECTIONS})`;
+    }
+    entry.directions = [...new Set(directions)];
+  }
+  for (const field of ["category", "subcategory"]) {
+    if (!(field in body)) continue;
+    if (body[field] !== null && !SLUG_RE.test(String(body[field]))) return `${field}: slug или null`;
+    entry[field] = body[field];
+  }
+  if (Object.keys(entry).length === 0) return "Нужно хотя бы одно из полей: directions, category, subcategory";
+  return entry;
+}
+
+export function createServiceTaxonomyRouter() {
+  const router = express.Router();
+
+  // Публично: сайт классифицирует услуги на клиенте. no-cache — браузер сверяет ETag,
+  // чтобы правки сотрудников были видны сразу
+  router.get("/", (req, res) => {
+    res.set("Cache-Control", "no-cache");
+    res.json(store.read());
+  });
+
+  router.param("kind", (req, res, next, kind) => {
+    if (!KINDS[kind]) return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Не найдено" });
+    next();
+  });
+  router.param("id", (req, res, next, id) => {
+    if (!ID_RE.test(id)) return invalid(res, "Некорректный id");
+    next();
+  });
+
+  // Запись заменяется целиком; изменения подписываются сотрудником
+  router.put("/:kind/:id", requireStaff, asyncHandler(async (req, res) => {
+    const entry = normalizeEntry(req.body || {});
+    if (typeof entry === "string") return invalid(res, entry);
+
+    const { kind, id } = req.params;
+    const saved = await store.update((data) => {
+      const now = new Date().toISOString();
+      data[kind][id] = { ...entry, updatedAt: now, updatedBy: req.staff?.name || "" };
+      data.updatedAt = now;
+      return data[kind][id];
+    });
+    console.log(`[taxonomy] ✅ ${KINDS[kind]} ${id} сопоставлена (${req.staff?.name || "API"})`);
+    res.json(saved);
+  }));
+
+  router.delete("/:kind/:id", requireStaff, asyncHandler(async (req, res) => {
+    const { kind, id } = req.params;
+    const removed = await store.update((data) => {
+      if (!data[kind][id]) return false;
+      delete data[kind][id];
+      data.updatedAt = new Date().toISOString();
+      return true;
+    });
+    if (!removed) return res.status(404).json({ error: true, errorCode: "NOT_FOUND", message: "Сопоставление не найдено" });
+    res.json({ success: true });
+  }));
+
+  return router;
+}
@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import fetch from "node-fetch";
+import { config } from "./config.js";
+import { maskPhone, normalizePhone } from "./phone.js";
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Провайдер SMS — объект { name, send(phone, text) }, где phone уже в формате +7XXXXXXXXXX.
+// Фабрики получают config.sms; провайдер выбирается SMS_PROVIDER. Свой провайдер
+// (другой шлюз, тестовая заглушка) подключается через registerSmsProvider до первой отправки.
+const providerFactories = {
+  // Разработка: текст сообщения в логе сервера
+  console: () => ({
+    name: "console",
+    async send(phone, text) {
+      console.log(`[sms] → ${phone}: ${text}`);
+    },
+  }),
+
+  // Разработка и стенды: сообщения дописываются в файл, по строке JSON на сообщение
+  file: (smsConfig) => ({
+    name: "file",
+    async send(phone, text) {
+      await fs.promises.mkdir(path.dirname(smsConfig.file), { recursive: true });
+      const line = JSON.stringify({ at: new Date().toISOString(), phone, text });
+      await fs.promises.appendFile(smsConfig.file, `${line}\n`, "utf8");
+    },
+  }),
+
+  // SMS.ru: https://sms.ru/api/send
+  smsru: (smsConfig) => ({
+    name: "smsru",
+    async send(phone, text) {
+      const to = phone.replace(/\D/g, "");
+      const params = new URLSearchParams({ api_id: smsConfig.smsru.apiId, to, msg: text, json: "1" });
+      if (smsConfig.smsru.sender) params.set("from", smsConfig.smsru.sender);
+
+      const response = await fetch(`https://sms.ru/sms/send?${params}`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      const result = await response.json().catch(() => null);
+      const message = result?.sms?.[to];
+      if (!response.ok || result?.status !== "OK" || message?.status !== "OK") {
+        throw new Error(`SMS.ru: ${message?.status_text || result?.status_text || `HTTP ${response.status}`}`);
+      }
+    },
+  }),
+};
+
+let provider = null;
+
+export function registerSmsProvider(name, factory) {
+  providerFactories[name] = factory;
+  if (provider?.name === name) provider = null;
+}
+
+function getProvider() {
+  if (!provider) {
+    const factory = providerFactories[config.sms.provider];
+    if (!factory) throw new Error(`Неизвестный SMS-провайдер: ${config.sms.provider}`);
+    provider = factory(config.sms);
+  }
+  return provider;
+}
+
+export async function sendSms(phone, text) {
+  const to = normalizePhone(phone);
+  if (!to) throw new Error("Некорректный номер телефона");
+  const current = getProvider();
+  await current.send(to, text);
+  console.log(`[sms] ✅ Отправлено через ${current.name} → ${maskPhone(to)}`);
+}
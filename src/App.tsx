@@ -13,24 +13,35 @@ import DoctorDetailsPage from "./components/DoctorDetailsPage";
 import ReviewsPage from "./components/ReviewsPage";
 import PromotionsPage from "./components/PromotionsPage";
 import ContactsPage from "./components/ContactsPage";
+import BranchPage from "./components/BranchPage";
 import FAQPage from "./components/FAQPage";
 import AboutClinicPage from "./components/AboutClinicPage";
 import DocumentsPage from "./components/DocumentsPage";
 // Временно скрыто - компоненты сертификатов и записи на прием
 // import GiftCertificatesPage from "./components/GiftCertificatesPage";
+import CertificateBalancePage from "./components/CertificateBalancePage";
 import PriceListPage from "./components/PriceListPage";
 import GiftCertificatesPage from "./components/GiftCertificatesPage";
 import PaymentSuccessPage from "./components/PaymentSuccessPage";
 import PaymentCancelPage from "./components/PaymentCancelPage";
 import ServicePage from "./components/ServicePage";
 import StaffDashboard from "./components/StaffDashboard";
+import LoginPage from "./components/LoginPage";
+import RegisterPage from "./components/RegisterPage";
+import VerifyEmailPage from "./components/VerifyEmailPage";
+import ResetPasswordPage from "./components/ResetPasswordPage";
+import ResetPasswordConfirmPage from "./components/ResetPasswordConfirmPage";
+import RequireAuth from "./components/RequireAuth";
+import PatientCabinetPage from "./components/PatientCabinetPage";
+import LabResultsPage from "./components/LabResultsPage";
+import SearchPage from "./components/SearchPage";
 import archimedService from "./services/archimed";
 import ScrollToTop from "./components/ScrollToTop";
+import RouteMeta from "./components/RouteMeta";
 import CookieNotification from "./components/CookieNotification";
 import CookiePolicyPage from "./components/CookiePolicyPage";
 import FloatingBooking from "./components/FloatingBooking";
-// Временно скрыто - личный кабинет и платежи
-// import PatientCabinetPage from "./components/PatientCabinetPage";
+// Временно скрыто - платежи
 // import PaymentSuccessPage from "./components/PaymentSuccessPage";
 // import PaymentCancelPage from "./components/PaymentCancelPage";
 // import PaymentTestPage from "./components/PaymentTestPage";
@@ -70,6 +81,7 @@ function App() {
     <Router>
       <div className="min-h-screen flex flex-col">
         <ScrollToTop />
+        <RouteMeta />
         <Header />
         <main className="flex-grow">
           <Routes>
@@ -80,6 +92,7 @@ function App() {
             <Route path="/reviews" element={<ReviewsPage />} />
             <Route path="/stock" element={<PromotionsPage />} />
             <Route path="/contacts" element={<ContactsPage />} />
+            <Route path="/branches/:id" element={<BranchPage />} />
             <Route path="/questions" element={<FAQPage />} />
             <Route path="/documents" element={<DocumentsPage />} />
             <Route path="/certificates" element={<GiftCertificatesPage />} />
@@ -91,16 +104,44 @@ function App() {
               path="/certificates/cancel"
               element={<PaymentCancelPage />}
             />
+            <Route
+              path="/certificates/balance"
+              element={<CertificateBalancePage />}
+            />
             {/* Временно скрыто - маршруты сертификатов и записи на прием
             
             
             */}
             <Route path="/prices" element={<PriceListPage />} />
             <Route path="/services/:slug" element={<ServicePage />} />
-            <Route path="/staff" element={<StaffDashboard />} />
+            <Route path="/login" element={<LoginPage />} />
+            <Route path="/register" element={<RegisterPage />} />
+            <Route path="/verify-email" element={<VerifyEmailPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
+            <Route
+              path="/reset-password/confirm"
+              element={<ResetPasswordConfirmPage />}
+            />
+            <Route
+              path="/staff"
+              element={
+                <RequireAuth requiredRole="staff">
+                  <StaffDashboard />
+                </RequireAuth>
+              }
+            />
+            <Route
+              path="/personal-cabinet"
+              element={
+                <RequireAuth>
+                  <PatientCabinetPage />
+                </RequireAuth>
+              }
+            />
+            <Route path="/lab-results" element={<LabResultsPage />} />
+            <Route path="/search" element={<SearchPage />} />
             <Route path="/cookie-policy" element={<CookiePolicyPage />} />
-            {/* Временно скрыто - личный кабинет и платежи
-            <Route path="/personal-cabinet" element={<PatientCabinetPage />} />
+            {/* Временно скрыто - платежи
             <Route path="/payment-test" element={<PaymentTestPage />} />
             <Route
               path="/payment-test/success"
@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import authService from "../services/auth";
+import type { User } from "../types/cms";
+
+// Меню аккаунта в шапке (десктоп): ссылка на вход или имя пользователя с выпадающим меню
+export default function AccountMenu({ user }: { user: User | null }) {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("click", handleClickOutside);
+    return () => document.removeEventListener("click", handleClickOutside);
+  }, [isOpen]);
+
+  if (!user) {
+    return (
+      <Link to="/login" className="text-dark hover:text-primary transition-colors">
+        Войти
+      </Link>
+    );
+  }
+
+  const handleLogout = async () => {
+    setIsOpen(false);
+    await authService.logout();
+    navigate("/");
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      await authService.resendVerificationEmail();
+      setVerificationSent(true);
+    } catch (error) {
+      console.warn("Resend verification failed:", error);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center text-dark hover:text-primary transition-colors"
+      >
+        <span className="max-w-[10rem] truncate">{user.firstname || user.name || user.email || user.phone}</span>
+        <svg className="w-4 h-4 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg border border-gray-100 py-2 z-50">
+          <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-100 truncate">{user.email || user.phone}</div>
+          {user.email && user.email_verified === false && (
+            <button
+              type="button"
+              role="menuitem"
+              onClick={handleResendVerification}
+              disabled={verificationSent}
+              className="block w-full text-left px-4 py-2 text-sm text-primary hover:bg-gray-50 disabled:text-gray-500"
+            >
+              {verificationSent ? "Письмо отправлено" : "Подтвердить email"}
+            </button>
+          )}
+          <Link
+            to="/personal-cabinet"
+            role="menuitem"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2 text-sm text-dark hover:bg-gray-50"
+          >
+            Личный кабинет
+          </Link>
+          {user.role === "staff" && (
+            <Link
+              to="/staff"
+              role="menuitem"
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-2 text-sm text-dark hover:bg-gray-50"
+            >
+              Панель сотрудника
+            </Link>
+          )}
+          <button
+            type="button"
+            role="menuitem"
+            onClick={handleLogout}
+            className="block w-full text-left px-4 py-2 text-sm text-dark hover:bg-gray-50"
+          >
+            Выйти
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,20 @@
 import type React from 'react';
-import { useState } from 'react';
-import type { ApiService, ArchimedDoctor, AppointmentData } from '../types/cms';
-import archimedService from '../services/archimed';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ApiService, ArchimedDoctor, AppointmentData, ScheduleDay, ScheduleSlot } from '../types/cms';
+import { useBranchPrices, useSelectedBranch } from '../hooks/useBranches';
+import { useClinicDetails } from '../hooks/useSiteContent';
+import archimedService, { SlotConflictError } from '../services/archimed';
+import { clinicNow, hoursOn, isOpenOn } from '../services/clinicSchedule';
+import { scheduleForBranch } from '../services/siteContent';
+import SlotPicker, { formatDayLabel } from './SlotPicker';
 
 interface AppointmentModalProps {
   isOpen: boolean;
   onClose: () => void;
   service?: ApiService;
   doctor?: ArchimedDoctor;
+  // Филиал записи; по умолчанию — выбранный посетителем
+  branchId?: number;
   onSuccess?: () => void;
 }
 
@@ -16,6 +23,7 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
   onClose,
   service,
   doctor,
+  branchId,
   onSuccess
 }) => {
   const [formData, setFormData] = useState({
@@ -29,6 +37,85 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Online booking: doctor schedule and the chosen slot
+  const [doctorOptions, setDoctorOptions] = useState<ArchimedDoctor[]>([]);
+  const [selectedDoctorId, setSelectedDoctorId] = useState<number | null>(null);
+  const [scheduleDays, setScheduleDays] = useState<ScheduleDay[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [slotsError, setSlotsError] = useState<string | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<ScheduleSlot | null>(null);
+
+  const activeDoctor = doctor ?? doctorOptions.find((d) => d.id === selectedDoctorId);
+  const clinic = useClinicDetails();
+  const { branchId: selectedBranchId, branches } = useSelectedBranch();
+  const bookingBranchId = activeDoctor?.branch_id || branchId || selectedBranchId;
+  const bookingBranch = branches.find((b) => b.id === bookingBranchId);
+  const branchSchedule = scheduleForBranch(clinic, bookingBranchId);
+  const applyPrices = useBranchPrices(bookingBranchId);
+  const servicePrice = service ? applyPrices([service])[0] : undefined;
+  // Без выбранного врача предлагаем только врачей филиала
+  const filterBranch = doctor ? null : branchId || selectedBranchId;
+
+  // Для выбранной услуги предлагаем ее исполнителей, если связи врач — услуга заведены
+  useEffect(() => {
+    if (!isOpen || doctor) return;
+    const load = async () => {
+      const performers = service ? await archimedService.getServiceDoctors(service.id) : [];
+      return performers.length > 0 ? performers : archimedService.getDoctors();
+    };
+    load()
+      .then((list) => setDoctorOptions(filterBranch ? list.filter((d) => d.branch_id === filterBranch) : list))
+      .catch(() => setDoctorOptions([]));
+  }, [isOpen, doctor, service, filterBranch]);
+
+  const loadSlots = useCallback(async () => {
+    if (!activeDoctor) {
+      setScheduleDays([]);
+      return;
+    }
+    setIsLoadingSlots(true);
+    setSlotsError(null);
+    try {
+      const days = await archimedService.getDoctorSlots({
+        doctorId: activeDoctor.id,
+        branchId: activeDoctor.branch_id || undefined,
+        duration: service?.duration || undefined,
+      });
+      setScheduleDays(days);
+    } catch (error) {
+      console.error('Error loading doctor schedule:', error);
+      setScheduleDays([]);
+      setSlotsError('Не удалось загрузить расписание врача. Оставьте заявку, и администратор подберет время.');
+    } finally {
+      setIsLoadingSlots(false);
+    }
+  }, [activeDoctor, service?.duration]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedSlot(null);
+    loadSlots();
+  }, [isOpen, loadSlots]);
+
+  // Дни, когда филиал закрыт (праздники), не предлагаем, даже если в расписании врача есть слоты
+  const bookableDays = useMemo(
+    () => scheduleDays.filter((day) => isOpenOn(branchSchedule, day.date)),
+    [scheduleDays, branchSchedule]
+  );
+
+  useEffect(() => {
+    setSelectedDate((prev) => (prev && bookableDays.some((d) => d.date === prev) ? prev : bookableDays[0]?.date ?? null));
+  }, [bookableDays]);
+
+  const hasSchedule = !!activeDoctor && !slotsError && bookableDays.length > 0;
+
+  // Без расписания врача дата — пожелание пациента: ограничиваем ее часами работы клиники
+  const today = clinicNow().date;
+  const preferredDayHours = formData.preferredDate ? hoursOn(branchSchedule, formData.preferredDate) : null;
+  const isPreferredDateClosed = !!formData.preferredDate && !preferredDayHours;
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value, type, checked } = e.target as HTMLInputElement;
@@ -42,12 +129,26 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
     e.preventDefault();
 
     if (!formData.agreeToSiteConsent) {
+      setErrorMessage('Пожалуйста, примите обязательные согласия');
+      setSubmitStatus('error');
+      return;
+    }
+
+    if (hasSchedule && !selectedSlot) {
+      setErrorMessage('Выберите дату и время приема');
+      setSubmitStatus('error');
+      return;
+    }
+
+    if (!hasSchedule && isPreferredDateClosed) {
+      setErrorMessage('В выбранный день клиника не работает. Выберите другую дату');
       setSubmitStatus('error');
       return;
     }
 
     setIsSubmitting(true);
     setSubmitStatus('idle');
+    setErrorMessage(null);
 
     try {
       const appointmentData: AppointmentData = {
@@ -58,7 +159,10 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
         preferredTime: formData.preferredTime || undefined,
         comments: formData.comments || undefined,
         serviceId: service?.id,
-        doctorId: doctor?.id
+        doctorId: activeDoctor?.id,
+        branchId: selectedSlot?.branch_id || bookingBranchId || undefined,
+        slotStart: hasSchedule ? selectedSlot?.start : undefined,
+        duration: hasSchedule ? selectedSlot?.duration : undefined
       };
 
       await archimedService.createAppointment(appointmentData);
@@ -77,9 +181,17 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
           agreeToSiteConsent: false,
         });
         setSubmitStatus('idle');
+        setSelectedSlot(null);
       }, 2000);
     } catch (error) {
       console.error('Error submitting appointment:', error);
+      if (error instanceof SlotConflictError) {
+        setErrorMessage(error.message);
+        setSelectedSlot(null);
+        loadSlots();
+      } else {
+        setErrorMessage('Не удалось отправить заявку. Попробуйте еще раз или позвоните нам.');
+      }
       setSubmitStatus('error');
     } finally {
       setIsSubmitting(false);
@@ -108,12 +220,22 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
             <div className="mb-6 p-4 bg-gray-50 rounded-lg">
               <h3 className="font-semibold text-gray-900 mb-2">Услуга</h3>
               <p className="text-gray-700">{service.name}</p>
-              <p className="text-primary font-semibold mt-1">
-                {(service.cito_cost > 0 ? service.cito_cost : service.base_cost).toLocaleString('ru-RU')} ₽
-              </p>
+              {servicePrice ? (
+                <p className="text-primary font-semibold mt-1">
+                  {(servicePrice.cito_cost > 0 ? servicePrice.cito_cost : servicePrice.base_cost).toLocaleString('ru-RU')} ₽
+                </p>
+              ) : (
+                <p className="text-gray-500 text-sm mt-1">В этом филиале услуга не оказывается</p>
+              )}
             </div>
           )}
 
+          {bookingBranch && branches.length > 1 && (
+            <p className="mb-6 text-sm text-gray-600">
+              Филиал: <span className="font-medium text-gray-900">{bookingBranch.name}</span>, {bookingBranch.address}
+            </p>
+          )}
+
           {doctor && (
             <div className="mb-6 p-4 bg-gray-50 rounded-lg">
               <h3 className="font-semibold text-gray-900 mb-2">Врач</h3>
@@ -131,8 +253,19 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                 </svg>
               </div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">Заявка отправлена!</h3>
-              <p className="text-gray-600">Наш администратор свяжется с вами в ближайшее время</p>
+              {selectedSlot ? (
+                <>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">Вы записаны!</h3>
+                  <p className="text-gray-600">
+                    {formatDayLabel(selectedSlot.date).day}, {selectedSlot.time}. Ждем вас в клинике
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">Заявка отправлена!</h3>
+                  <p className="text-gray-600">Наш администратор свяжется с вами в ближайшее время</p>
+                </>
+              )}
             </div>
           ) : (
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -183,36 +316,90 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
                 />
               </div>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              {!doctor && (
                 <div>
-                  <label htmlFor="preferredDate" className="block text-sm font-medium text-gray-700 mb-1">
-                    Предпочтительная дата
+                  <label htmlFor="doctorId" className="block text-sm font-medium text-gray-700 mb-1">
+                    Врач
                   </label>
-                  <input
-                    type="date"
-                    id="preferredDate"
-                    name="preferredDate"
-                    value={formData.preferredDate}
-                    onChange={handleInputChange}
-                    min={new Date().toISOString().split('T')[0]}
-                    className="w-full px-3 py-2 h-11 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent appearance-none"
-                  />
+                  <select
+                    id="doctorId"
+                    value={selectedDoctorId ?? ''}
+                    onChange={(e) => setSelectedDoctorId(e.target.value ? Number(e.target.value) : null)}
+                    className="w-full px-3 py-2 h-11 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                  >
+                    <option value="">Не выбран — администратор подберет врача</option>
+                    {doctorOptions.map((d) => (
+                      <option key={d.id} value={d.id}>
+                        {d.name} {d.name1} {d.name2} — {d.type}
+                      </option>
+                    ))}
+                  </select>
                 </div>
+              )}
 
+              {activeDoctor && !slotsError ? (
                 <div>
-                  <label htmlFor="preferredTime" className="block text-sm font-medium text-gray-700 mb-1">
-                    Предпочтительное время
-                  </label>
-                  <input
-                    type="time"
-                    id="preferredTime"
-                    name="preferredTime"
-                    value={formData.preferredTime}
-                    onChange={handleInputChange}
-                    className="w-full px-3 py-2 h-11 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent appearance-none"
-                  />
+                  <span className="block text-sm font-medium text-gray-700 mb-2">Дата и время приема *</span>
+                  {isLoadingSlots ? (
+                    <p className="text-sm text-gray-500">Загружаем расписание...</p>
+                  ) : bookableDays.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      Свободного времени на ближайшие две недели нет. Оставьте комментарий — администратор предложит другие варианты.
+                    </p>
+                  ) : (
+                    <SlotPicker
+                      days={bookableDays}
+                      selectedDate={selectedDate}
+                      onSelectDate={(date) => {
+                        setSelectedDate(date);
+                        setSelectedSlot(null);
+                      }}
+                      selectedSlot={selectedSlot}
+                      onSelectSlot={setSelectedSlot}
+                    />
+                  )}
                 </div>
-              </div>
+              ) : (
+                <>
+                  {slotsError && <p className="text-sm text-gray-500">{slotsError}</p>}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                  <div>
+                    <label htmlFor="preferredDate" className="block text-sm font-medium text-gray-700 mb-1">
+                      Предпочтительная дата
+                    </label>
+                    <input
+                      type="date"
+                      id="preferredDate"
+                      name="preferredDate"
+                      value={formData.preferredDate}
+                      onChange={handleInputChange}
+                      min={today}
+                      className="w-full px-3 py-2 h-11 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent appearance-none"
+                    />
+                    {isPreferredDateClosed && (
+                      <p className="mt-1 text-xs text-red-600">В этот день клиника не работает</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label htmlFor="preferredTime" className="block text-sm font-medium text-gray-700 mb-1">
+                      Предпочтительное время
+                    </label>
+                    <input
+                      type="time"
+                      id="preferredTime"
+                      name="preferredTime"
+                      value={formData.preferredTime}
+                      onChange={handleInputChange}
+                      min={preferredDayHours?.open}
+                      max={preferredDayHours?.close}
+                      className="w-full px-3 py-2 h-11 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent appearance-none"
+                    />
+                  </div>
+                </div>
+
+                </>
+              )}
 
               <div>
                 <label htmlFor="comments" className="block text-sm font-medium text-gray-700 mb-1">
@@ -257,10 +444,10 @@ const AppointmentModal: React.FC<AppointmentModalProps> = ({
                 </label>
               </div>
 
-              {submitStatus === 'error' && (
+              {submitStatus === 'error' && errorMessage && (
                 <div className="p-3 bg-red-50 border border-red-200 rounded-md">
                   <p className="text-red-600 text-sm font-medium">
-                    Пожалуйста, примите обязательные согласия
+                    {errorMessage}
                   </p>
                 </div>
               )}
@@ -0,0 +1,46 @@
+import type React from "react";
+
+interface AuthCardProps {
+  title: string;
+  subtitle?: string;
+  children: React.ReactNode;
+}
+
+// Общая рамка страниц входа, регистрации и восстановления пароля
+export default function AuthCard({ title, subtitle, children }: AuthCardProps) {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 md:py-12">
+      <div className="container mx-auto px-4">
+        <div className="max-w-md mx-auto">
+          <div className="text-center mb-6">
+            <h1 className="text-2xl sm:text-3xl font-bold text-dark">{title}</h1>
+            {subtitle && <p className="text-gray-600 mt-2">{subtitle}</p>}
+          </div>
+          <div className="bg-white rounded-lg shadow-lg p-6 md:p-8">{children}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const authInputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent";
+
+export const authButtonClass =
+  "w-full bg-primary hover:bg-primaryDark text-white py-3 px-6 rounded-md font-medium transition-colors disabled:opacity-50";
+
+export function AuthError({ message }: { message: string }) {
+  return (
+    <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+      <p className="text-red-600 text-sm font-medium">{message}</p>
+    </div>
+  );
+}
+
+export function AuthNotice({ message }: { message: string }) {
+  return (
+    <div className="p-3 bg-green-50 border border-green-200 rounded-md">
+      <p className="text-green-700 text-sm">{message}</p>
+    </div>
+  );
+}
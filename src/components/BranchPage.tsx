@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useBranches, useSelectedBranch } from "../hooks/useBranches";
+import { useOpenStatus } from "../hooks/useSiteContent";
+import archimedService, { isPublicDoctor } from "../services/archimed";
+import { upcomingExceptions } from "../services/clinicSchedule";
+import type { ArchimedDoctor } from "../types/cms";
+import AppointmentModal from "./AppointmentModal";
+
+// Страница филиала: адрес, часы работы, врачи и запись в этот филиал
+export default function BranchPage() {
+  const { id } = useParams<{ id: string }>();
+  const branchId = Number(id);
+  const branches = useBranches();
+  const { branchId: selectedBranchId, selectBranch } = useSelectedBranch();
+  const branch = branches.find((b) => b.id === branchId);
+  const openStatus = useOpenStatus(branchId);
+  const [doctors, setDoctors] = useState<ArchimedDoctor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAppointmentOpen, setIsAppointmentOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    archimedService
+      .getDoctors()
+      .then((list) => {
+        if (!cancelled) setDoctors(list.filter((d) => isPublicDoctor(d) && d.branch_id === branchId));
+      })
+      .catch(() => setDoctors([]))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [branchId]);
+
+  if (!branch) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          {branches.length === 0 ? (
+            <p className="text-gray-600">Загрузка информации о филиале...</p>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold mb-4 text-gray-900">Филиал не найден</h1>
+              <Link
+                to="/contacts"
+                className="px-6 py-2 bg-primary text-white rounded hover:bg-primaryDark transition-colors"
+              >
+                Контакты клиники
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const exceptions = upcomingExceptions(branch.schedule);
+
+  return (
+    <div className="min-h-screen bg-lightTeal py-12">
+      <div className="container mx-auto px-4">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div className="text-center">
+            <h1 className="text-3xl md:text-4xl font-bold mb-2">{branch.name}</h1>
+            <p className={`text-sm font-medium ${openStatus.isOpen ? "text-green-700" : "text-gray-500"}`}>
+              {openStatus.label}
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div>
+                <h2 className="font-medium text-gray-700 mb-1">Адрес</h2>
+                <a
+                  href={branch.mapUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  {branch.address}
+                </a>
+              </div>
+              {branch.phone && (
+                <div>
+                  <h2 className="font-medium text-gray-700 mb-1">Телефон</h2>
+                  <a href={branch.phone.href} className="text-gray-600 hover:text-primary">
+                    {branch.phone.value}
+                  </a>
+                </div>
+              )}
+            </div>
+            <div>
+              <h2 className="font-medium text-gray-700 mb-1">Режим работы</h2>
+              {branch.hoursSummary.map((line) => (
+                <p key={line} className="text-gray-600">{line}</p>
+              ))}
+              {exceptions.map((day) => (
+                <p key={day.date} className="text-sm text-gray-500">
+                  {day.label}: {day.hours ? `${day.hours.open} - ${day.hours.close}` : "выходной"}
+                  {day.note && ` (${day.note})`}
+                </p>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <button
+              type="button"
+              onClick={() => setIsAppointmentOpen(true)}
+              className="px-6 py-2 bg-primary text-white rounded hover:bg-primaryDark transition-colors"
+            >
+              Записаться в этот филиал
+            </button>
+            {selectedBranchId !== branch.id && (
+              <button
+                type="button"
+                onClick={() => selectBranch(branch.id)}
+                className="px-6 py-2 border border-primary text-primary rounded hover:bg-primary hover:text-white transition-colors"
+              >
+                Выбрать филиал для цен и записи
+              </button>
+            )}
+            <Link
+              to="/prices"
+              onClick={() => selectBranch(branch.id)}
+              className="px-6 py-2 text-center text-primary hover:underline"
+            >
+              Цены в филиале
+            </Link>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-2xl font-semibold mb-4 text-gray-900">Врачи филиала</h2>
+            {isLoading ? (
+              <p className="text-gray-500">Загрузка...</p>
+            ) : doctors.length === 0 ? (
+              <p className="text-gray-500">Список врачей уточняйте в регистратуре</p>
+            ) : (
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {doctors.map((doctor) => (
+                  <li key={doctor.id}>
+                    <Link to={`/doctors/${doctor.id}`} className="block p-3 rounded border border-gray-200 hover:shadow-sm">
+                      <span className="block font-medium text-dark">
+                        {doctor.name} {doctor.name1} {doctor.name2}
+                      </span>
+                      <span className="block text-sm text-gray-500">{doctor.type}</span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <AppointmentModal
+        isOpen={isAppointmentOpen}
+        onClose={() => setIsAppointmentOpen(false)}
+        branchId={branch.id}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useSelectedBranch } from '../hooks/useBranches';
+
+interface BranchSelectProps {
+  className?: string;
+  id?: string;
+}
+
+// Выбор филиала: сохраняется между страницами, влияет на цены, врачей и запись.
+// С одним филиалом выбирать нечего — ничего не показываем
+export default function BranchSelect({ className = '', id }: BranchSelectProps) {
+  const { branchId, branches, selectBranch } = useSelectedBranch();
+  if (branches.length < 2) return null;
+
+  return (
+    <select
+      id={id}
+      value={branchId ?? ''}
+      onChange={(e) => selectBranch(e.target.value ? Number(e.target.value) : null)}
+      className={className}
+      aria-label="Филиал"
+    >
+      <option value="">Все филиалы</option>
+      {branches.map((branch) => (
+        <option key={branch.id} value={branch.id}>
+          {branch.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,137 @@
+import type React from "react";
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import certificateService, {
+  type CertificateBalance,
+  type CertificateStatus,
+} from "../services/certificates";
+
+const STATUS_LABELS: Record<CertificateStatus, { label: string; className: string }> = {
+  pending: { label: "Ожидает оплаты", className: "bg-yellow-100 text-yellow-800" },
+  active: { label: "Действует", className: "bg-green-100 text-green-800" },
+  redeemed: { label: "Полностью использован", className: "bg-gray-100 text-gray-700" },
+  expired: { label: "Срок действия истек", className: "bg-gray-100 text-gray-700" },
+  cancelled: { label: "Аннулирован", className: "bg-red-100 text-red-700" },
+};
+
+export default function CertificateBalancePage() {
+  const [searchParams] = useSearchParams();
+  const [code, setCode] = useState(searchParams.get("code") || "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [certificate, setCertificate] = useState<CertificateBalance | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setError("Введите код сертификата");
+      return;
+    }
+
+    setIsLoading(true);
+    setError("");
+    setCertificate(null);
+
+    try {
+      const result = await certificateService.getCertificateBalance(code);
+      setCertificate(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось проверить сертификат");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const status = certificate ? STATUS_LABELS[certificate.status] : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 md:py-12">
+      <div className="container mx-auto px-4">
+        <div className="max-w-xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-2xl sm:text-3xl font-bold text-dark mb-3">
+              Проверка баланса сертификата
+            </h1>
+            <p className="text-gray-600">
+              Введите код с подарочного сертификата, например ALD-7K3M-Q9TX-4F
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-6 md:p-8 space-y-4">
+            <div>
+              <label htmlFor="certificateCode" className="block text-sm font-medium text-gray-700 mb-1">
+                Код сертификата
+              </label>
+              <input
+                id="certificateCode"
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                autoComplete="off"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono tracking-wider focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder="ALD-XXXX-XXXX-XX"
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-600 text-sm font-medium">{error}</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-primary hover:bg-primaryDark text-white px-6 py-3 rounded-md font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? "Проверяем..." : "Проверить"}
+            </button>
+          </form>
+
+          {certificate && status && (
+            <div className="bg-white rounded-lg shadow-lg p-6 md:p-8 mt-6">
+              <div className="flex items-center justify-between mb-4">
+                <span className="font-mono text-lg text-dark">{certificate.code}</span>
+                <span className={`px-3 py-1 text-xs font-medium rounded-full ${status.className}`}>
+                  {status.label}
+                </span>
+              </div>
+              <dl className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Остаток</dt>
+                  <dd className="text-2xl font-bold text-primary">
+                    {certificateService.formatAmount(certificate.balance)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Номинал</dt>
+                  <dd className="text-lg font-semibold text-dark">
+                    {certificateService.formatAmount(certificate.amount)}
+                  </dd>
+                </div>
+                {certificate.expiresAt && (
+                  <div className="col-span-2">
+                    <dt className="text-gray-500">Действует до</dt>
+                    <dd className="text-dark">
+                      {new Date(certificate.expiresAt).toLocaleDateString("ru-RU", {
+                        day: "numeric",
+                        month: "long",
+                        year: "numeric",
+                      })}
+                    </dd>
+                  </div>
+                )}
+              </dl>
+            </div>
+          )}
+
+          <p className="text-center text-sm text-gray-600 mt-6">
+            <Link to="/certificates" className="text-primary hover:underline">
+              Оформить новый сертификат
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
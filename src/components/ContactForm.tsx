@@ -1,19 +1,29 @@
 import type React from 'react';
 import { useState } from 'react';
+import leadService, { LeadValidationError } from '../services/leads';
+import type { LeadField, LeadFieldErrors } from '../services/leads';
+
+const EMPTY_FORM = {
+  name: '',
+  phone: '',
+  email: '',
+  message: '',
+  agreeToTerms: false,
+  agreeToSiteConsent: false,
+};
+
+const inputClass = (hasError: boolean) =>
+  `w-full px-3 sm:px-4 py-1.5 sm:py-2 border rounded focus:outline-none text-sm sm:text-base ${
+    hasError ? 'border-red-400 focus:border-red-500' : 'border-gray-300 focus:border-primary'
+  }`;
 
 export default function ContactForm() {
-  const [formData, setFormData] = useState({
-    name: '',
-    phone: '',
-    email: '',
-    message: '',
-    agreeToTerms: false,
-    agreeToSiteConsent: false,
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<LeadFieldErrors>({});
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
@@ -26,47 +36,67 @@ export default function ContactForm() {
     if (validationError) {
       setValidationError(null);
     }
+    if (fieldErrors[name as LeadField]) {
+      setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-
-    // Проверка обязательного согласия (один чекбокс)
+  // Быстрая проверка до отправки; окончательную делает сервер
+  const validate = (): LeadFieldErrors => {
+    const errors: LeadFieldErrors = {};
+    const phoneDigits = formData.phone.replace(/\D/g, '');
+    if (phoneDigits.length < 10 || phoneDigits.length > 12) {
+      errors.phone = 'Введите корректный номер телефона';
+    }
     if (!formData.agreeToTerms) {
-      setValidationError('Пожалуйста, примите обязательные согласия');
-      return;
+      errors.agreeToTerms = 'Необходимо принять политику конфиденциальности';
     }
+    if (!formData.agreeToSiteConsent) {
+      errors.agreeToSiteConsent = 'Необходимо согласие на обработку персональных данных';
+    }
+    return errors;
+  };
 
-    // Базовая валидация телефона: минимум 10 цифр
-    const phoneDigits = formData.phone.replace(/\D/g, '');
-    if (phoneDigits.length < 10 || phoneDigits.length > 12) {
-      setValidationError('Введите корректный номер телефона');
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors = validate();
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      setValidationError('Проверьте правильность заполнения формы');
       return;
     }
 
     setValidationError(null);
+    setFieldErrors({});
     setIsSubmitting(true);
 
-    // Simulate form submission
-    setTimeout(() => {
-      setIsSubmitting(false);
+    try {
+      await leadService.submitLead({ ...formData, page: window.location.pathname });
       setIsSubmitted(true);
-      setFormData({
-        name: '',
-        phone: '',
-        email: '',
-        message: '',
-        agreeToTerms: false,
-        agreeToSiteConsent: false,
-      });
+      setFormData(EMPTY_FORM);
 
       // Reset form after 3 seconds
       setTimeout(() => {
         setIsSubmitted(false);
       }, 3000);
-    }, 1000);
+    } catch (error) {
+      if (error instanceof LeadValidationError) {
+        setFieldErrors(error.fields);
+        setValidationError(error.message);
+      } else {
+        setValidationError('Не удалось отправить сообщение. Попробуйте позже или позвоните нам.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
+  const renderFieldError = (field: LeadField) =>
+    fieldErrors[field] ? (
+      <p className="mt-1 text-xs sm:text-sm text-red-600">{fieldErrors[field]}</p>
+    ) : null;
+
   return (
     <section 
       className="py-6 sm:py-10 md:py-16 relative"
@@ -107,9 +137,11 @@ export default function ContactForm() {
                   name="name"
                   value={formData.name}
                   onChange={handleChange}
-                  className="w-full px-3 sm:px-4 py-1.5 sm:py-2 border border-gray-300 rounded focus:outline-none focus:border-primary text-sm sm:text-base"
+                  className={inputClass(Boolean(fieldErrors.name))}
+                  aria-invalid={Boolean(fieldErrors.name)}
                   required
                 />
+                {renderFieldError('name')}
               </div>
               <div>
                 <label htmlFor="phone" className="block text-gray-700 mb-1 sm:mb-2 text-xs sm:text-base">Номер телефона</label>
@@ -119,9 +151,11 @@ export default function ContactForm() {
                   name="phone"
                   value={formData.phone}
                   onChange={handleChange}
-                  className="w-full px-3 sm:px-4 py-1.5 sm:py-2 border border-gray-300 rounded focus:outline-none focus:border-primary text-sm sm:text-base"
+                  className={inputClass(Boolean(fieldErrors.phone))}
+                  aria-invalid={Boolean(fieldErrors.phone)}
                   required
                 />
+                {renderFieldError('phone')}
               </div>
             </div>
 
@@ -133,9 +167,11 @@ export default function ContactForm() {
                 name="email"
                 value={formData.email}
                 onChange={handleChange}
-                className="w-full px-3 sm:px-4 py-1.5 sm:py-2 border border-gray-300 rounded focus:outline-none focus:border-primary text-sm sm:text-base"
+                className={inputClass(Boolean(fieldErrors.email))}
+                aria-invalid={Boolean(fieldErrors.email)}
                 required
               />
+              {renderFieldError('email')}
             </div>
 
             <div className="col-span-2 mb-4 sm:mb-6">
@@ -148,51 +184,75 @@ export default function ContactForm() {
                 rows={4}
                 value={formData.message}
                 onChange={handleChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary text-sm sm:text-base"
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-1 text-sm sm:text-base ${
+                  fieldErrors.message
+                    ? 'border-red-400 focus:ring-red-500 focus:border-red-500'
+                    : 'border-gray-300 focus:ring-primary focus:border-primary'
+                }`}
+                aria-invalid={Boolean(fieldErrors.message)}
                 placeholder="Введите ваше сообщение"
                 required
               ></textarea>
+              {renderFieldError('message')}
             </div>
 
-            <div className="mb-4 sm:mb-6">
-              <label className={`flex items-start space-x-2 sm:space-x-3 ${!formData.agreeToTerms && validationError ? 'text-red-600' : ''}`}>
+            <div className="mb-3 sm:mb-4">
+              <label className={`flex items-start space-x-2 sm:space-x-3 ${fieldErrors.agreeToTerms ? 'text-red-600' : ''}`}>
                 <input
                   type="checkbox"
                   name="agreeToTerms"
                   checked={formData.agreeToTerms}
                   onChange={handleChange}
                   className={`mt-1 h-4 w-4 text-primary focus:ring-primary rounded ${
-                    !formData.agreeToTerms && validationError 
+                    fieldErrors.agreeToTerms
                       ? 'border-red-300 focus:ring-red-500' 
                       : 'border-gray-300'
                   }`}
                   required
                 />
                 <span className="text-[11px] sm:text-sm text-gray-700 leading-relaxed">
-                Я согласен с условиями обработки персональных данных на сайте согласно{' '}
+                  Я ознакомлен(а) с{' '}
                   <a
-                    href="/documents/согласие_на_персданные_на_сайт.docx"
+                    href="/documents/utverzhdeno.pdf"
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-primary hover:underline"
                   >
-                    согласию
+                    политикой конфиденциальности
                   </a>
-                  {' '}и{' '}
+                </span>
+              </label>
+              {renderFieldError('agreeToTerms')}
+            </div>
+
+            <div className="mb-4 sm:mb-6">
+              <label className={`flex items-start space-x-2 sm:space-x-3 ${fieldErrors.agreeToSiteConsent ? 'text-red-600' : ''}`}>
+                <input
+                  type="checkbox"
+                  name="agreeToSiteConsent"
+                  checked={formData.agreeToSiteConsent}
+                  onChange={handleChange}
+                  className={`mt-1 h-4 w-4 text-primary focus:ring-primary rounded ${
+                    fieldErrors.agreeToSiteConsent
+                      ? 'border-red-300 focus:ring-red-500'
+                      : 'border-gray-300'
+                  }`}
+                  required
+                />
+                <span className="text-[11px] sm:text-sm text-gray-700 leading-relaxed">
+                  Я даю{' '}
                   <a
-                    href="/documents/utverzhdeno.pdf"
+                    href="/documents/согласие_на_персданные_на_сайт.docx"
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-primary hover:underline"
                   >
-                    политикой конфиденциальности
+                    согласие
                   </a>
+                  {' '}на обработку персональных данных, указанных в форме
                 </span>
               </label>
-            </div>
-
-            <div className="mb-4 sm:mb-6">
-            
+              {renderFieldError('agreeToSiteConsent')}
             </div>
 
             <div className="text-center">
@@ -1,8 +1,19 @@
-import React from "react";
+import { Link } from "react-router-dom";
+import { useBranches } from "../hooks/useBranches";
+import { usePageMeta } from "../hooks/usePageMeta";
+import { useClinicDetails, useOpenStatus } from "../hooks/useSiteContent";
+import { upcomingExceptions } from "../services/clinicSchedule";
+import { clinicData, staticPageMeta } from "../services/seo";
 // Временно скрыто - форма обратной связи
 // import ContactForm from './ContactForm';
 
 export default function ContactsPage() {
+  const clinic = useClinicDetails();
+  const openStatus = useOpenStatus();
+  const exceptions = upcomingExceptions(clinic.schedule);
+  const branches = useBranches();
+  usePageMeta({ ...staticPageMeta("/contacts"), structuredData: clinicData(clinic, branches) });
+
   return (
     <div className="min-h-screen bg-lightTeal py-12">
       <div className="container mx-auto px-4">
@@ -19,7 +30,7 @@ export default function ContactsPage() {
                   <h3 className="font-medium text-gray-700 mb-2">Адрес</h3>
                   <p className="text-gray-600 leading-relaxed flex items-center gap-2">
                     <a
-                      href="https://yandex.ru/maps/?text=667000%2C%20Республика%20Тыва%2C%20город%20Кызыл%2C%20Ленина%2C%2060"
+                      href={clinic.mapUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-flex items-center text-primary hover:underline"
@@ -28,26 +39,45 @@ export default function ContactsPage() {
                       <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 mr-1">
                         <path d="M12 2C8.134 2 5 5.134 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.866-3.134-7-7-7zm0 9.5A2.5 2.5 0 1 1 12 6a2.5 2.5 0 0 1 0 5.5z" />
                       </svg>
-                      667000, Республика Тыва, город Кызыл, Ленина, 60
+                      {clinic.address}
                     </a>
                   </p>
                 </div>
                 <div>
                   <h3 className="font-medium text-gray-700 mb-2">Телефон</h3>
                   <div className="text-gray-600 leading-relaxed space-y-1">
-                    <p>+7 (923) 317-60-60</p>
-                    <p>+7 (923) 381-60-60</p>
-      
+                    {clinic.phones.map((phone) => (
+                      <p key={phone.href}>
+                        <a href={phone.href} className="hover:text-primary">
+                          {phone.value}
+                        </a>
+                      </p>
+                    ))}
                   </div>
                 </div>
                 <div>
                   <h3 className="font-medium text-gray-700 mb-2">Email</h3>
-                  <p className="text-gray-600 leading-relaxed">clinicaldan@mail.ru</p>
+                  <p className="text-gray-600 leading-relaxed">{clinic.email}</p>
                 </div>
                 <div>
                   <h3 className="font-medium text-gray-700 mb-2">Режим работы</h3>
-                  <p className="text-gray-600 leading-relaxed">Пн-Пт: 08:00 - 22:00</p>
-                  <p className="text-gray-600 leading-relaxed">Сб-Вс: 09:00 - 18:00</p>
+                  {clinic.hoursSummary.map((line) => (
+                    <p key={line} className="text-gray-600 leading-relaxed">{line}</p>
+                  ))}
+                  <p className={`mt-2 text-sm font-medium ${openStatus.isOpen ? "text-green-700" : "text-gray-500"}`}>
+                    {openStatus.label}
+                  </p>
+                  {exceptions.length > 0 && (
+                    <div className="mt-3">
+                      <h4 className="text-sm font-medium text-gray-700 mb-1">Праздничные дни</h4>
+                      {exceptions.map((day) => (
+                        <p key={day.date} className="text-sm text-gray-600">
+                          {day.label}: {day.hours ? `${day.hours.open} - ${day.hours.close}` : "выходной"}
+                          {day.note && ` (${day.note})`}
+                        </p>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -66,6 +96,25 @@ export default function ContactsPage() {
             </div>
           </div>
 
+          {branches.length > 1 && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-12">
+              <h2 className="text-2xl font-semibold mb-6 text-gray-900">Филиалы</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {branches.map((branch) => (
+                  <div key={branch.id} className="border border-gray-200 rounded-lg p-4">
+                    <Link to={`/branches/${branch.id}`} className="text-lg font-medium text-primary hover:underline">
+                      {branch.name}
+                    </Link>
+                    <p className="text-gray-600 mt-1">{branch.address}</p>
+                    {branch.hoursSummary.map((line) => (
+                      <p key={line} className="text-sm text-gray-500">{line}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Временно скрыто - форма обратной связи
           <ContactForm />
           */}
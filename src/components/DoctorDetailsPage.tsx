@@ -1,8 +1,11 @@
 import type React from "react";
 import { useEffect, useState } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
+import { useBranchPrices, useBranches } from "../hooks/useBranches";
+import { usePageMeta } from "../hooks/usePageMeta";
 import archimedService from "../services/archimed";
-import type { ArchimedDoctor } from "../types/cms";
+import { doctorMeta } from "../services/seo";
+import type { ApiService, ArchimedDoctor } from "../types/cms";
 import AppointmentModal from "./AppointmentModal";
 
 const DoctorDetailsPage: React.FC = () => {
@@ -11,6 +14,8 @@ const DoctorDetailsPage: React.FC = () => {
   const [doctor, setDoctor] = useState<ArchimedDoctor | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Услуги врача по связям, которые ведут сотрудники; null — связи не заведены
+  const [services, setServices] = useState<ApiService[] | null>(null);
   const [appointmentModal, setAppointmentModal] = useState<{
     isOpen: boolean;
     doctor?: ArchimedDoctor;
@@ -56,6 +61,34 @@ const DoctorDetailsPage: React.FC = () => {
     loadDoctor();
   }, [id]);
 
+  useEffect(() => {
+    setServices(null);
+    if (!id) return;
+    let cancelled = false;
+    archimedService
+      .getDoctorServices(Number.parseInt(id))
+      .then((list) => {
+        if (!cancelled) setServices(list);
+      })
+      .catch((e) => console.error("Error loading doctor services:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // Цены — филиала, где принимает врач
+  const applyPrices = useBranchPrices(doctor?.branch_id || null);
+  const doctorServices = services && applyPrices(services);
+
+  // Адрес для разметки — филиала, где принимает врач
+  const branches = useBranches();
+  const branchAddress = branches.find((b) => b.id === doctor?.branch_id)?.address;
+  usePageMeta(doctor ? doctorMeta(doctor, branchAddress || doctor.address) : null);
+
+  const getServicePrice = (service: ApiService): number => {
+    return service.cito_cost > 0 ? service.cito_cost : service.base_cost;
+  };
+
   const handleAppointmentClick = () => {
     if (doctor) {
       setAppointmentModal({
@@ -290,7 +323,13 @@ const DoctorDetailsPage: React.FC = () => {
                       <h3 className="text-lg font-semibold text-gray-900 mb-2">
                         Отделение
                       </h3>
-                      <p className="text-gray-700">{doctor.branch}</p>
+                      {doctor.branch_id ? (
+                        <Link to={`/branches/${doctor.branch_id}`} className="text-primary hover:underline">
+                          {doctor.branch}
+                        </Link>
+                      ) : (
+                        <p className="text-gray-700">{doctor.branch}</p>
+                      )}
                     </div>
                   )}
 
@@ -332,6 +371,41 @@ const DoctorDetailsPage: React.FC = () => {
         </div>
       </section>
 
+      {/* Услуги врача */}
+      {doctorServices && doctorServices.length > 0 && (
+        <section className="py-12 bg-white border-t">
+          <div className="container mx-auto px-4">
+            <div className="max-w-4xl mx-auto">
+              <h2 className="text-2xl font-bold text-gray-900 mb-8">
+                Услуги и цены
+              </h2>
+              <ul className="divide-y divide-gray-200">
+                {doctorServices.map((service) => (
+                  <li
+                    key={service.id}
+                    className="py-3 flex items-start justify-between gap-4"
+                  >
+                    <div>
+                      <p className="text-gray-900">{service.name}</p>
+                      {service.altname && service.altname !== service.name && (
+                        <p className="text-gray-500 text-sm italic">
+                          {service.altname}
+                        </p>
+                      )}
+                    </div>
+                    <span className="text-primary font-bold whitespace-nowrap">
+                      {getServicePrice(service) > 0
+                        ? `${getServicePrice(service).toLocaleString("ru-RU")} ₽`
+                        : "Цена уточняется"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </section>
+      )}
+
       {/* Все специализации врача */}
       {doctor.types && doctor.types.length > 1 && (
         <section className="py-12 bg-gray-50">
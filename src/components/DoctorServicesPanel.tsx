@@ -0,0 +1,159 @@
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import type { ApiService, ArchimedDoctor, DoctorServiceLinks } from '../types/cms';
+import archimedService from '../services/archimed';
+import staffService from '../services/staff';
+import { createQueryMatcher } from '../services/textMatch';
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm';
+
+const doctorName = (doctor: ArchimedDoctor) => `${doctor.name} ${doctor.name1} ${doctor.name2}`;
+
+interface DoctorServicesPanelProps {
+  doctors: ArchimedDoctor[];
+  services: ApiService[];
+  onError: (error: unknown) => void;
+}
+
+// Вкладка панели сотрудника: какие услуги выполняет врач (страницы врачей, направлений, запись)
+const DoctorServicesPanel: React.FC<DoctorServicesPanelProps> = ({ doctors, services, onError }) => {
+  const [links, setLinks] = useState<DoctorServiceLinks>({ doctors: {}, updatedAt: null });
+  const [doctorId, setDoctorId] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [query, setQuery] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    archimedService.getDoctorServiceLinks().then(setLinks);
+  }, []);
+
+  const link = doctorId ? links.doctors[doctorId] : undefined;
+
+  useEffect(() => {
+    setSelected(new Set(link?.serviceIds || []));
+  }, [link]);
+
+  const matcher = useMemo(() => createQueryMatcher(query), [query]);
+  // Сохраненные услуги врача — сверху, остальные — по поиску
+  const visibleServices = useMemo(() => {
+    const saved = new Set(link?.serviceIds || []);
+    return services
+      .filter((s) => saved.has(s.id) || selected.has(s.id) || matcher.matches(s.name, s.altname, s.group_name, s.code))
+      .sort((a, b) => Number(saved.has(b.id)) - Number(saved.has(a.id)));
+  }, [services, link, selected, matcher]);
+
+  const toggle = (id: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const update = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      await action();
+      archimedService.invalidateDoctorServiceLinks();
+    } catch (err) {
+      onError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    update(async () => {
+      const saved = await staffService.saveDoctorServices(Number(doctorId), [...selected]);
+      setLinks((prev) => ({ ...prev, doctors: { ...prev.doctors, [doctorId]: saved } }));
+    });
+
+  const handleRemove = () =>
+    update(async () => {
+      await staffService.removeDoctorServices(Number(doctorId));
+      setLinks((prev) => {
+        const { [doctorId]: _removed, ...rest } = prev.doctors;
+        return { ...prev, doctors: rest };
+      });
+    });
+
+  const linkedCount = doctors.filter((d) => links.doctors[String(d.id)]).length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+      <div className="px-6 py-4 bg-primary text-white">
+        <h2 className="text-xl font-semibold">Услуги врачей</h2>
+        <p className="text-sm opacity-90">
+          Связи заведены для {linkedCount} из {doctors.length} врачей. Без связей врачи подбираются по специальности.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex flex-col md:flex-row gap-4">
+          <select value={doctorId} onChange={(e) => setDoctorId(e.target.value)} className={`${inputClass} md:w-1/2`}>
+            <option value="">Выберите врача</option>
+            {doctors.map((doctor) => (
+              <option key={doctor.id} value={doctor.id}>
+                {doctorName(doctor)} — {doctor.type}
+                {links.doctors[String(doctor.id)] ? ` (${links.doctors[String(doctor.id)].serviceIds.length})` : ''}
+              </option>
+            ))}
+          </select>
+          {doctorId && (
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Поиск услуги"
+              className={`${inputClass} flex-1`}
+            />
+          )}
+        </div>
+
+        {doctorId && (
+          <>
+            <p className="text-sm text-gray-600">
+              Отмечено услуг: {selected.size}
+              {link && ` · изменено ${new Date(link.updatedAt).toLocaleString('ru-RU')}${link.updatedBy ? `, ${link.updatedBy}` : ''}`}
+            </p>
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+              {visibleServices.map((service) => (
+                <li key={service.id}>
+                  <label className="flex items-center gap-3 px-4 py-2 text-sm hover:bg-gray-50">
+                    <input type="checkbox" checked={selected.has(service.id)} onChange={() => toggle(service.id)} />
+                    <span className="flex-1 text-gray-800">{service.name}</span>
+                    <span className="text-gray-500">{service.group_name}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => void handleSave()}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm bg-primary text-white rounded hover:bg-primaryDark transition-colors disabled:opacity-50"
+              >
+                Сохранить
+              </button>
+              {link && (
+                <button
+                  type="button"
+                  onClick={() => void handleRemove()}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-sm text-red-600 hover:underline disabled:opacity-50"
+                >
+                  Сбросить связи
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DoctorServicesPanel;
@@ -1,20 +1,21 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Link } from "react-router-dom";
 import type {
   ArchimedDoctor,
-  ArchimedBranch,
   ArchimedCategory,
-  ApiService,
 } from "../types/cms";
-import archimedService from "../services/archimed";
+import { useSelectedBranch } from "../hooks/useBranches";
+import archimedService, { isPublicDoctor } from "../services/archimed";
+import { createQueryMatcher } from "../services/textMatch";
 import ErrorComponent from "./ErrorComponent";
 import AppointmentModal from "./AppointmentModal";
 
 export default function DoctorsPage() {
   const [doctors, setDoctors] = useState<ArchimedDoctor[]>([]);
-  const [branches, setBranches] = useState<ArchimedBranch[]>([]);
   const [categories, setCategories] = useState<ArchimedCategory[]>([]);
-  const [selectedBranch, setSelectedBranch] = useState<string>("all");
+  // Филиал общий с шапкой сайта, прайс-листом и записью
+  const { branchId, branches, selectBranch } = useSelectedBranch();
+  const selectedBranch = branchId ? String(branchId) : "all";
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [searchTerm, setSearchTerm] = useState("");
   const [isLoading, setIsLoading] = useState(true);
@@ -40,56 +41,29 @@ export default function DoctorsPage() {
 
         console.log("Начинаем загрузку данных...");
 
-        const [doctorsData, branchesData, categoriesData, servicesData] =
+        const [doctorsData, categoriesData, doctorsWithServices] =
           await Promise.all([
             archimedService.getDoctors(),
-            archimedService.getBranches(),
             archimedService
               .getCategories()
               .catch(() => [] as unknown as ArchimedCategory[]),
             archimedService
-              .getServices()
-              .catch(() => [] as unknown as ApiService[]),
+              .getDoctorsWithServices()
+              .catch(() => []),
           ]);
 
         console.log("Loaded doctors:", doctorsData);
-        console.log("Loaded branches:", branchesData);
         console.log("Loaded categories:", categoriesData);
         console.log("Doctors count:", doctorsData?.length || 0);
 
         setDoctors(doctorsData || []);
-        setBranches(branchesData || []);
         setCategories(categoriesData || []);
-        // Build simple specialty-based mapping of services to doctors
-        try {
-          const norm = (s: string) =>
-            (s || "").toLowerCase().replace(/ё/g, "е");
-          const toks = (s: string) => norm(s).split(/\s+/).filter(Boolean);
-          const svcTokensList = (servicesData as ApiService[]).map((s) => ({
-            s,
-            set: new Set<string>([...toks(s.group_name), ...toks(s.name)]),
-          }));
-          const counts: Record<number, number> = {};
-          (doctorsData || []).forEach((d: ArchimedDoctor) => {
-            const docTokens = new Set<string>([
-              ...toks(d.type),
-              ...(d.types || []).flatMap((t) => toks(t.name)),
-            ]);
-            let count = 0;
-            for (const { set } of svcTokensList) {
-              let matched = false;
-              for (const t of docTokens) {
-                if (set.has(t)) {
-                  matched = true;
-                  break;
-                }
-              }
-              if (matched) count++;
-            }
-            if (count > 0) counts[d.id] = count;
-          });
-          setDoctorServicesCount(counts);
-        } catch {}
+        // Число услуг — по связям врач — услуга, которые ведут сотрудники
+        const counts: Record<number, number> = {};
+        for (const d of doctorsWithServices) {
+          if (d.services?.length) counts[d.id] = d.services.length;
+        }
+        setDoctorServicesCount(counts);
       } catch (err) {
         console.error("Ошибка загрузки данных:", err);
         setError("Не удалось загрузить данные о врачах. Попробуйте позже.");
@@ -101,31 +75,12 @@ export default function DoctorsPage() {
     loadData();
   }, []);
 
-  const normalize = (value: string | number | null | undefined) =>
-    value?.toString() || "";
-  const normalizeRu = (s: string) =>
-    s
-      .toLowerCase()
-      .replace(/ё/g, "е")
-      .replace(/[^a-zа-я0-9]+/g, " ") // убрать лишние символы
-      .trim();
-  const searchWords = normalizeRu(normalize(searchTerm))
-    .split(/\s+/)
-    .filter(Boolean);
+  const matcher = useMemo(() => createQueryMatcher(searchTerm), [searchTerm]);
 
   const safeDoctors: ArchimedDoctor[] = Array.isArray(doctors) ? doctors : [];
   const filteredDoctors: ArchimedDoctor[] = safeDoctors.filter(
     (doctor: ArchimedDoctor) => {
-      // Hide massage therapists
-      const isMassage =
-        /массажист/i.test(doctor?.type || "") ||
-        (doctor?.types || []).some((t) => /массажист/i.test(t.name || ""));
-      if (isMassage) return false;
-
-      // Hide admin/test entries (e.g., Администратор ArchiMed+, Арбаев)
-      const nameBlob =
-        `${doctor?.name || ""} ${doctor?.name1 || ""} ${doctor?.name2 || ""} ${doctor?.info || ""}`.toLowerCase();
-      if (/(администратор|archimed|арбаев)/i.test(nameBlob)) return false;
+      if (!isPublicDoctor(doctor)) return false;
       const matchesBranch =
         selectedBranch === "all" ||
         String(doctor?.branch_id) === selectedBranch;
@@ -133,21 +88,15 @@ export default function DoctorsPage() {
         selectedCategory === "all" ||
         String(doctor?.category_id) === selectedCategory;
 
-      const haystack = [
+      const matchesSearch = matcher.matches(
         doctor?.name,
         doctor?.name1,
         doctor?.name2,
         doctor?.type,
         doctor?.branch,
         doctor?.category,
-        ...(doctor?.types || []).map((t) => t.name),
-      ]
-        .map((v) => normalizeRu(normalize(v)))
-        .join(" ");
-
-      const matchesSearch =
-        searchWords.length === 0 ||
-        searchWords.every((w) => haystack.includes(w));
+        ...(doctor?.types || []).map((t) => t.name)
+      );
 
       return matchesBranch && matchesCategory && matchesSearch;
     }
@@ -331,7 +280,7 @@ export default function DoctorsPage() {
               <select
                 id="branch"
                 value={selectedBranch}
-                onChange={(e) => setSelectedBranch(e.target.value)}
+                onChange={(e) => selectBranch(e.target.value === "all" ? null : Number(e.target.value))}
                 className="w-full px-3 sm:px-4 py-2 border border-gray-300 rounded focus:outline-none focus:border-primary text-sm sm:text-base"
               >
                 <option value="all">Все отделения</option>
@@ -460,7 +409,7 @@ export default function DoctorsPage() {
                       {getDoctorFullName(doctor)}
                     </h3>
                     <p className="text-primary font-medium mb-2 text-xs sm:text-sm">
-                      Направление: {normalize(doctor.type)}
+                      Направление: {doctor.type || ""}
                     </p>
 
                     <div className="space-y-1.5 sm:space-y-2 text-xs sm:text-sm text-gray-600 mb-3 flex-grow">
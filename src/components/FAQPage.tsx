@@ -1,106 +1,26 @@
-import React, { useState } from 'react';
-
-interface FAQItem {
-  id: number;
-  question: string;
-  answer: string;
-  category: string;
-}
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useFAQ } from '../hooks/useSiteContent';
+import { createQueryMatcher } from '../services/textMatch';
 
 export default function FAQPage() {
+  const [searchParams] = useSearchParams();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const faqItems = useFAQ();
 
-  const categories = [
-    'all',
-    'Общие вопросы',
-    'Запись на прием',
-    'Услуги и цены',
-    'Страхование',
-    'Подготовка к приему',
-    'После приема'
-  ];
-
-  const faqItems: FAQItem[] = [
-    {
-      id: 1,
-      category: 'Общие вопросы',
-      question: 'Каковы часы работы клиники?',
-      answer: 'Наша клиника работает с понедельника по пятницу с 08:00 до 22:00, в субботу с 9:00 до 18:00. Воскресенье - выходной день.'
-    },
-    {
-      id: 2,
-      category: 'Общие вопросы',
-      question: 'Где находится клиника?',
-      answer: 'Клиника расположена по адресу: г. Кызыл, ул. Ленина д.60. '
-    },
-    {
-      id: 3,
-      category: 'Запись на прием',
-      question: 'Как записаться на прием?',
-      answer: 'Вы можете записаться на прием несколькими способами:\n1. Позвонить по телефону +7 (923) 317-60-60\n2. Через форму записи на нашем сайте\n3. Лично в регистратуре клиники'
-    },
-    {
-      id: 4,
-      category: 'Запись на прием',
-      question: 'Можно ли записаться на прием онлайн?',
-      answer: 'Да, на нашем сайте доступна онлайн-запись. Вы можете выбрать удобное время и специалиста, заполнить необходимые данные и получить подтверждение записи.'
-    },
-    {
-      id: 5,
-      category: 'Услуги и цены',
-      question: 'Какие виды медицинской помощи оказываются в клинике?',
-      answer: 'Мы предоставляем широкий спектр медицинских услуг:\n- Терапия\n- Кардиология\n- Неврология\n- Офтальмология\n- Стоматология\n- Дерматология\n- Гинекология\n- Урология\n- Эндокринология\n- Педиатрия'
-    },
-    {
-      id: 6,
-      category: 'Услуги и цены',
-      question: 'Как узнать стоимость услуг?',
-      answer: 'Актуальные цены на все услуги доступны на нашем сайте в разделе "Услуги и цены". Также вы можете уточнить стоимость конкретной услуги по телефону.'
-    },
-    {
-      id: 7,
-      category: 'Страхование',
-      question: 'Работаете ли вы с медицинскими страховыми компаниями?',
-      answer: 'Да, мы сотрудничаем с большинством ведущих страховых компаний. При посещении клиники необходимо иметь при себе полис ДМС и паспорт.'
-    },
-    {
-      id: 8,
-      category: 'Страхование',
-      question: 'Какие документы нужны для получения медицинской помощи по страховке?',
-      answer: 'Для получения медицинской помощи по страховке необходимо предоставить:\n1. Паспорт\n2. Полис ДМС\n3. Направление от страховой компании (если требуется)'
-    },
-    {
-      id: 9,
-      category: 'Подготовка к приему',
-      question: 'Нужно ли готовиться к приему у врача?',
-      answer: 'Да, для некоторых видов обследований требуется специальная подготовка. Например:\n- Анализ крови - натощак\n- УЗИ брюшной полости - натощак\n- Колоноскопия - специальная диета\nПодробные инструкции вы получите при записи на прием.'
-    },
-    {
-      id: 10,
-      category: 'Подготовка к приему',
-      question: 'Что взять с собой на прием?',
-      answer: 'Рекомендуем взять с собой:\n1. Паспорт\n2. Медицинский полис (если есть)\n3. Результаты предыдущих обследований\n4. Список принимаемых лекарств\n5. Медицинскую карту (если есть)'
-    },
-    {
-      id: 11,
-      category: 'После приема',
-      question: 'Как получить результаты анализов?',
-      answer: 'Результаты анализов можно получить:\n1. Лично в клинике\n2. По электронной почте\n3. В личном кабинете на нашем сайте\nСроки готовности анализов зависят от их вида и обычно составляют от 1 до 7 дней.'
-    },
-    {
-      id: 12,
-      category: 'После приема',
-      question: 'Что делать, если после приема остались вопросы?',
-      answer: 'Если у вас остались вопросы после приема, вы можете:\n1. Позвонить в клинику и задать вопрос администратору\n2. Написать врачу через личный кабинет\n3. Записаться на повторную консультацию'
-    }
-  ];
+  // Поиск по сайту открывает страницу с ?q=
+  const queryParam = searchParams.get('q');
+  useEffect(() => {
+    if (queryParam !== null) setSearchQuery(queryParam);
+  }, [queryParam]);
 
+  const matcher = useMemo(() => createQueryMatcher(searchQuery), [searchQuery]);
+  // Категории — в порядке первого появления в списке вопросов
+  const categories = useMemo(() => ['all', ...new Set(faqItems.map((item) => item.category))], [faqItems]);
   const filteredFAQ = faqItems.filter(item => {
     const matchesCategory = selectedCategory === 'all' || item.category === selectedCategory;
-    const matchesSearch = item.question.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         item.answer.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesCategory && matchesSearch;
+    return matchesCategory && matcher.matches(item.question, item.answer);
   });
 
   return (
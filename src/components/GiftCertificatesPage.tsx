@@ -1,5 +1,6 @@
 import type React from "react";
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import certificateService, { type CreateCertificateRequest, type Customer } from "../services/certificates";
 
 interface CertificateForm {
@@ -237,6 +238,12 @@ export default function GiftCertificatesPage() {
             Не знаете какой подарок преподнести? Подарочный сертификат на услуги
             клиники - идеальный выбор для любого торжества!
           </p>
+          <p className="mt-3 text-sm text-gray-600">
+            Уже есть сертификат?{" "}
+            <Link to="/certificates/balance" className="text-primary hover:underline">
+              Проверить баланс
+            </Link>
+          </p>
 
           {/* Индикатор среды */}
           {/* {!isProduction && (
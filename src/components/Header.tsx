@@ -1,21 +1,31 @@
 import { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
+import { useSelectedBranch } from "../hooks/useBranches";
+import { useClinicDetails, useOpenStatus } from "../hooks/useSiteContent";
+import authService from "../services/auth";
+import type { User } from "../types/cms";
+import AccountMenu from "./AccountMenu";
+import BranchSelect from "./BranchSelect";
+import SiteSearch from "./SiteSearch";
 
 export default function Header() {
+  const navigate = useNavigate();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [user, setUser] = useState<any>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [user, setUser] = useState<User | null>(() => authService.getCurrentUser());
+  const clinic = useClinicDetails();
+  const { branch } = useSelectedBranch();
+  const openStatus = useOpenStatus(branch?.id);
+  const primaryPhone = branch?.phone || clinic.phones[0];
 
-  // Check if user is logged in
-  useEffect(() => {
-    const userData = localStorage.getItem('user_data');
-    if (userData) {
-      try {
-        setUser(JSON.parse(userData));
-      } catch (error) {
-        console.error('Error parsing user data:', error);
-      }
-    }
-  }, []);
+  // Следим за входом/выходом (в том числе в других вкладках)
+  useEffect(() => authService.subscribe(setUser), []);
+
+  const handleLogout = async () => {
+    setIsMenuOpen(false);
+    await authService.logout();
+    navigate("/");
+  };
 
   // Close mobile menu when window is resized to desktop size
   useEffect(() => {
@@ -64,6 +74,24 @@ export default function Header() {
     <header className="bg-white shadow-md sticky top-0 z-40">
       <div className="container mx-auto px-4">
         {/* Top bar */}
+        <div className="flex items-center justify-end gap-4 pt-2 text-xs sm:text-sm text-gray-600">
+          <BranchSelect className="max-w-[10rem] sm:max-w-none bg-transparent border border-gray-200 rounded px-1 py-0.5 text-xs sm:text-sm focus:outline-none focus:ring-1 focus:ring-primary" />
+          <Link
+            to={branch ? `/branches/${branch.id}` : "/contacts"}
+            className="flex items-center gap-2 hover:text-primary transition-colors"
+          >
+            <span
+              className={`inline-block w-2 h-2 rounded-full ${openStatus.isOpen ? "bg-green-500" : "bg-gray-400"}`}
+              aria-hidden="true"
+            />
+            {openStatus.label}
+          </Link>
+          {primaryPhone && (
+            <a href={primaryPhone.href} className="hidden sm:inline font-medium text-dark hover:text-primary transition-colors">
+              {primaryPhone.value}
+            </a>
+          )}
+        </div>
 
         {/* Main header */}
         <div className="py-1 md:py-0 flex items-center justify-between">
@@ -151,7 +179,7 @@ export default function Header() {
                   Документы
                 </Link>
               </li>
-              {user && user.role === 'staff' && (
+              {user?.role === 'staff' && (
                 <li>
                   <Link
                     to="/staff"
@@ -169,6 +197,22 @@ export default function Header() {
                   Контакты
                 </Link>
               </li>
+              <li>
+                <button
+                  type="button"
+                  onClick={() => setIsSearchOpen((prev) => !prev)}
+                  className="text-dark hover:text-primary transition-colors"
+                  aria-label="Поиск по сайту"
+                  aria-expanded={isSearchOpen}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11A6 6 0 115 11a6 6 0 0112 0z" />
+                  </svg>
+                </button>
+              </li>
+              <li>
+                <AccountMenu user={user} />
+              </li>
             </ul>
           </nav>
 
@@ -205,6 +249,13 @@ export default function Header() {
             </svg>
           </button>
         </div>
+
+        {/* Desktop search panel */}
+        {isSearchOpen && (
+          <div className="hidden md:block pb-3 max-w-2xl ml-auto">
+            <SiteSearch autoFocus onNavigate={() => setIsSearchOpen(false)} />
+          </div>
+        )}
       </div>
 
       {/* Mobile navigation overlay */}
@@ -254,6 +305,9 @@ export default function Header() {
         </div>
 
         <nav className="p-4">
+          <div className="mb-4">
+            <SiteSearch onNavigate={() => setIsMenuOpen(false)} />
+          </div>
           <ul className="space-y-4">
             <li>
               <Link
@@ -336,7 +390,7 @@ export default function Header() {
                 Документы
               </Link>
             </li>
-            {user && user.role === 'staff' && (
+            {user?.role === 'staff' && (
               <li>
                 <Link
                   to="/staff"
@@ -356,6 +410,35 @@ export default function Header() {
                 Контакты
               </Link>
             </li>
+            <li className="pt-4 border-t border-gray-100">
+              {user ? (
+                <>
+                  <p className="text-sm text-gray-500 truncate mb-2">{user.email || user.phone}</p>
+                  <Link
+                    to="/personal-cabinet"
+                    className="block py-2 text-dark hover:text-primary transition-colors"
+                    onClick={() => setIsMenuOpen(false)}
+                  >
+                    Личный кабинет
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={handleLogout}
+                    className="block py-2 text-dark hover:text-primary transition-colors"
+                  >
+                    Выйти
+                  </button>
+                </>
+              ) : (
+                <Link
+                  to="/login"
+                  className="block py-2 text-dark hover:text-primary transition-colors"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  Войти
+                </Link>
+              )}
+            </li>
           </ul>
 
           {/* Временно скрыто - скрипт записи на прием
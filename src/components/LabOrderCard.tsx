@@ -0,0 +1,95 @@
+import type { LabOrder, LabResultItem } from "../services/labResults";
+
+const FLAG_STYLES = {
+  low: "text-blue-700 font-semibold",
+  high: "text-primary font-semibold",
+};
+
+const FLAG_LABELS = {
+  low: "↓ ниже нормы",
+  high: "↑ выше нормы",
+};
+
+function referenceRange(item: LabResultItem): string {
+  if (item.referenceText) return item.referenceText;
+  if (item.referenceMin !== null && item.referenceMax !== null) return `${item.referenceMin} – ${item.referenceMax}`;
+  if (item.referenceMin !== null) return `> ${item.referenceMin}`;
+  if (item.referenceMax !== null) return `< ${item.referenceMax}`;
+  return "—";
+}
+
+const formatDate = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleDateString("ru-RU", { day: "numeric", month: "long", year: "numeric" }) : "—";
+
+interface LabOrderCardProps {
+  order: LabOrder;
+  onOpenDocument: (documentId: string) => void;
+}
+
+// Заказ с результатами: показатели с выделением выхода за референсный интервал и PDF-бланки
+export default function LabOrderCard({ order, onOpenDocument }: LabOrderCardProps) {
+  const outOfRange = order.items.filter((item) => item.flag).length;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+        <div>
+          <p className="font-semibold text-dark">Заказ № {order.orderNumber}</p>
+          <p className="text-sm text-gray-500">
+            Взятие материала: {formatDate(order.takenAt)} · готово {formatDate(order.completedAt)}
+          </p>
+        </div>
+        {outOfRange > 0 && (
+          <span className="text-xs px-2 py-1 rounded-full bg-red-50 text-primary">Вне нормы: {outOfRange}</span>
+        )}
+      </div>
+
+      {order.items.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Показатель</th>
+                <th className="py-2 pr-4 font-medium">Результат</th>
+                <th className="py-2 font-medium">Референсные значения</th>
+              </tr>
+            </thead>
+            <tbody>
+              {order.items.map((item) => (
+                <tr key={item.name} className={`border-b border-gray-100 ${item.flag ? "bg-red-50/40" : ""}`}>
+                  <td className="py-2 pr-4">{item.name}</td>
+                  <td className={`py-2 pr-4 whitespace-nowrap ${item.flag ? FLAG_STYLES[item.flag] : ""}`}>
+                    {item.value} {item.unit}
+                    {item.flag && <span className="block text-xs font-normal">{FLAG_LABELS[item.flag]}</span>}
+                  </td>
+                  <td className="py-2 text-gray-600 whitespace-nowrap">
+                    {referenceRange(item)} {item.referenceText ? "" : item.unit}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {order.documents.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {order.documents.map((document) => (
+            <button
+              key={document.id}
+              type="button"
+              onClick={() => onOpenDocument(document.id)}
+              className="px-3 py-2 rounded-md border border-primary text-primary text-sm hover:bg-primary hover:text-white transition-colors"
+            >
+              PDF: {document.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-3">
+        Результаты не являются диагнозом. Для их интерпретации обратитесь к лечащему врачу.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import type React from "react";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import labResultsService, { LabCodeError, type LabAccessRequest, type SharedLabOrder } from "../services/labResults";
+import AuthCard, { AuthError, authButtonClass, authInputClass } from "./AuthCard";
+import LabOrderCard from "./LabOrderCard";
+
+type Step = "request" | "code" | "results";
+
+// Результаты анализов без аккаунта: номер заказа и дата рождения, затем код из SMS.
+// Токен доступа одноразовый и только на этот заказ, в адресную строку он не попадает;
+// бланки можно скачать в течение 15 минут.
+export default function LabResultsPage() {
+  const [step, setStep] = useState<Step>("request");
+  const [orderNumber, setOrderNumber] = useState("");
+  const [birthDate, setBirthDate] = useState("");
+  const [code, setCode] = useState("");
+  const [accessRequest, setAccessRequest] = useState<LabAccessRequest | null>(null);
+  const [order, setOrder] = useState<SharedLabOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleRequest = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setIsLoading(true);
+    setError("");
+    try {
+      setAccessRequest(await labResultsService.requestAccess(orderNumber, birthDate));
+      setCode("");
+      setStep("code");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось отправить код");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accessRequest) return;
+    setIsLoading(true);
+    setError("");
+    try {
+      const access = await labResultsService.verifyAccess(accessRequest.requestId, code);
+      setOrder(await labResultsService.getSharedOrder(access.token));
+      setStep("results");
+    } catch (err) {
+      if (err instanceof LabCodeError && err.attemptsLeft === 0) {
+        setStep("request");
+        setError("Слишком много неверных попыток. Запросите новый код.");
+      } else if (err instanceof LabCodeError) {
+        setError(`${err.message}. Осталось попыток: ${err.attemptsLeft}`);
+      } else {
+        setError(err instanceof Error ? err.message : "Не удалось проверить код");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (step === "results" && order) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8 md:py-12">
+        <div className="container mx-auto px-4 max-w-4xl">
+          <h1 className="text-2xl sm:text-3xl font-bold text-dark mb-1">Результаты анализов</h1>
+          <p className="text-gray-600 mb-6">{order.patientName}</p>
+          <div className="bg-white rounded-lg shadow p-4 md:p-6">
+            <LabOrderCard
+              order={order}
+              onOpenDocument={(documentId) =>
+                window.open(labResultsService.getSharedDocumentUrl(order.documentsToken, documentId), "_blank", "noopener")
+              }
+            />
+          </div>
+          <p className="text-sm text-gray-500 mt-4">
+            Ссылка одноразовая: после закрытия страницы понадобится новый код, бланки можно скачать в течение 15
+            минут. Чтобы результаты всегда были под рукой,{" "}
+            <Link to="/register" className="text-primary hover:text-primaryDark underline">
+              зарегистрируйтесь
+            </Link>{" "}
+            — они появятся в личном кабинете.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === "code" && accessRequest) {
+    return (
+      <AuthCard title="Код из SMS" subtitle={`Мы отправили код на номер ${accessRequest.phone}`}>
+        <form onSubmit={handleVerify} className="space-y-4">
+          <div>
+            <label htmlFor="labCode" className="block text-sm font-medium text-gray-700 mb-1">
+              Код
+            </label>
+            <input
+              id="labCode"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              className={`${authInputClass} tracking-widest text-center text-lg`}
+            />
+          </div>
+          {error && <AuthError message={error} />}
+          <button type="submit" disabled={isLoading || code.length < 6} className={authButtonClass}>
+            {isLoading ? "Проверяем..." : "Показать результаты"}
+          </button>
+          <button
+            type="button"
+            onClick={() => handleRequest()}
+            disabled={isLoading}
+            className="w-full text-sm text-primary hover:text-primaryDark"
+          >
+            Отправить код еще раз
+          </button>
+        </form>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard
+      title="Результаты анализов"
+      subtitle="Укажите номер заказа из квитанции и дату рождения — мы пришлем код на телефон из заказа"
+    >
+      <form onSubmit={handleRequest} className="space-y-4">
+        <div>
+          <label htmlFor="labOrderNumber" className="block text-sm font-medium text-gray-700 mb-1">
+            Номер заказа
+          </label>
+          <input
+            id="labOrderNumber"
+            value={orderNumber}
+            onChange={(e) => setOrderNumber(e.target.value)}
+            required
+            className={authInputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="labBirthDate" className="block text-sm font-medium text-gray-700 mb-1">
+            Дата рождения
+          </label>
+          <input
+            id="labBirthDate"
+            type="date"
+            value={birthDate}
+            onChange={(e) => setBirthDate(e.target.value)}
+            required
+            className={authInputClass}
+          />
+        </div>
+        {error && <AuthError message={error} />}
+        <button type="submit" disabled={isLoading} className={authButtonClass}>
+          {isLoading ? "Отправляем код..." : "Получить код"}
+        </button>
+        <p className="text-sm text-gray-600 text-center">
+          Есть аккаунт?{" "}
+          <Link to="/personal-cabinet" className="text-primary hover:text-primaryDark">
+            Результаты в личном кабинете
+          </Link>
+        </p>
+      </form>
+    </AuthCard>
+  );
+}
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
+import { useBranchPrices } from '../hooks/useBranches';
 import archimedService from '../services/archimed';
 import type { ApiService } from '../types/cms';
-import { SERVICE_CATEGORIES, groupServicesByCategory } from '../services/serviceCategories';
+import serviceTaxonomyService from '../services/serviceTaxonomy';
 import AppointmentModal from './AppointmentModal';
 
 const LaboratoryDiagnosticsPage: React.FC = () => {
@@ -22,7 +23,8 @@ const LaboratoryDiagnosticsPage: React.FC = () => {
       try {
         setIsLoading(true);
         setError(null);
-        const servicesData = await archimedService.getServices();
+        // Таксономия нужна до фильтрации: без нее услуги классифицируются по ключевым словам
+        const [servicesData] = await Promise.all([archimedService.getServices(), serviceTaxonomyService.load()]);
         setServices(servicesData);
       } catch (err) {
         console.error('Ошибка загрузки услуг:', err);
@@ -35,19 +37,11 @@ const LaboratoryDiagnosticsPage: React.FC = () => {
     loadServices();
   }, []);
 
-  // Фильтруем только лабораторные услуги
+  // Фильтруем только лабораторные услуги, с ценами выбранного филиала
+  const applyPrices = useBranchPrices();
   const laboratoryServices = useMemo(() => {
-    const labCategory = SERVICE_CATEGORIES.find(c => c.id === 'laboratory');
-    if (!labCategory) return [];
-    
-    return services.filter(service => 
-      labCategory.keywords.some(keyword => 
-        service.name.toLowerCase().includes(keyword) ||
-        service.group_name?.toLowerCase().includes(keyword) ||
-        service.altname?.toLowerCase().includes(keyword)
-      )
-    );
-  }, [services]);
+    return applyPrices(services).filter(service => serviceTaxonomyService.classify(service).category?.id === 'laboratory');
+  }, [services, applyPrices]);
 
   // Группируем лабораторные услуги по подкатегориям
   const groupedServices = useMemo(() => {
@@ -326,6 +320,27 @@ const LaboratoryDiagnosticsPage: React.FC = () => {
         </div>
       </section>
 
+      {/* Результаты анализов онлайн */}
+      <section className="py-8 sm:py-10 md:py-12">
+        <div className="container mx-auto px-3 sm:px-4">
+          <div className="max-w-3xl mx-auto bg-white border border-gray-200 rounded-lg p-6 sm:p-8 flex flex-col sm:flex-row sm:items-center gap-4 sm:gap-8">
+            <div className="flex-1">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">Результаты анализов онлайн</h2>
+              <p className="text-sm sm:text-base text-gray-600">
+                Готовые результаты с PDF-бланком доступны в личном кабинете. Без аккаунта — по номеру заказа,
+                дате рождения и коду из SMS.
+              </p>
+            </div>
+            <Link
+              to="/lab-results"
+              className="px-6 py-3 bg-primary text-white font-semibold rounded-lg hover:bg-primaryDark transition-colors text-center"
+            >
+              Получить результаты
+            </Link>
+          </div>
+        </div>
+      </section>
+
       {/* Кнопка записи */}
       <section className="py-8 sm:py-10 md:py-12 bg-primary">
         <div className="container mx-auto px-3 sm:px-4 text-center">
@@ -0,0 +1,227 @@
+import type React from "react";
+import { useState } from "react";
+import { type Location, Link, useLocation, useNavigate } from "react-router-dom";
+import authService from "../services/auth";
+import type { PhoneCodeRequest, User } from "../types/cms";
+import AuthCard, { AuthError, authButtonClass, authInputClass } from "./AuthCard";
+
+type Mode = "email" | "phone";
+
+const modeButtonClass = (active: boolean) =>
+  `flex-1 py-2 text-sm font-medium rounded-md transition-colors ${
+    active ? "bg-white text-dark shadow" : "text-gray-600 hover:text-dark"
+  }`;
+
+export default function LoginPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [mode, setMode] = useState<Mode>("email");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [codeRequest, setCodeRequest] = useState<PhoneCodeRequest | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  // Страница, с которой RequireAuth отправил на вход
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  const finishLogin = (user: User) => {
+    const fallback = user.role === "staff" ? "/staff" : "/";
+    navigate(from ? `${from.pathname}${from.search}` : fallback, { replace: true });
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const { user } = await authService.login({ email: email.trim(), password });
+      finishLogin(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось войти");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Вход по телефону: сначала код в SMS, затем проверка кода
+  const handleRequestCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      setCodeRequest(await authService.requestPhoneCode(phone.trim()));
+      setCode("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось отправить код");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePhoneLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const { user } = await authService.loginWithPhone(phone.trim(), code);
+      finishLogin(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось войти");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const modeSwitch = (
+    <div className="flex gap-1 p-1 mb-6 bg-gray-100 rounded-lg">
+      <button type="button" onClick={() => switchMode("email")} className={modeButtonClass(mode === "email")}>
+        По email
+      </button>
+      <button type="button" onClick={() => switchMode("phone")} className={modeButtonClass(mode === "phone")}>
+        По телефону
+      </button>
+    </div>
+  );
+
+  if (mode === "phone") {
+    return (
+      <AuthCard title="Вход">
+        {modeSwitch}
+        {codeRequest ? (
+          <form onSubmit={handlePhoneLogin} className="space-y-4">
+            <p className="text-sm text-gray-600">Мы отправили код на номер {codeRequest.phone}</p>
+            <div>
+              <label htmlFor="loginCode" className="block text-sm font-medium text-gray-700 mb-1">
+                Код из SMS
+              </label>
+              <input
+                id="loginCode"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                className={`${authInputClass} tracking-widest text-center text-lg`}
+              />
+            </div>
+
+            {error && <AuthError message={error} />}
+
+            <button type="submit" disabled={isLoading || code.length < 6} className={authButtonClass}>
+              {isLoading ? "Вход..." : "Войти"}
+            </button>
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => setCodeRequest(null)}
+                className="text-gray-600 hover:text-dark"
+              >
+                Изменить номер
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRequestCode()}
+                disabled={isLoading}
+                className="text-primary hover:underline"
+              >
+                Отправить код еще раз
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleRequestCode} className="space-y-4">
+            <div>
+              <label htmlFor="loginPhone" className="block text-sm font-medium text-gray-700 mb-1">
+                Телефон
+              </label>
+              <input
+                id="loginPhone"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                autoComplete="tel"
+                placeholder="+7 (___) ___-__-__"
+                required
+                className={authInputClass}
+              />
+            </div>
+
+            {error && <AuthError message={error} />}
+
+            <button type="submit" disabled={isLoading} className={authButtonClass}>
+              {isLoading ? "Отправляем код..." : "Получить код"}
+            </button>
+            <p className="text-center text-xs text-gray-500">
+              Если вы входите впервые, мы создадим аккаунт на этот номер.
+            </p>
+          </form>
+        )}
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Вход">
+      {modeSwitch}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="loginEmail" className="block text-sm font-medium text-gray-700 mb-1">
+            Email
+          </label>
+          <input
+            id="loginEmail"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+            className={authInputClass}
+          />
+        </div>
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label htmlFor="loginPassword" className="block text-sm font-medium text-gray-700">
+              Пароль
+            </label>
+            <Link to="/reset-password" className="text-sm text-primary hover:underline">
+              Забыли пароль?
+            </Link>
+          </div>
+          <input
+            id="loginPassword"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            className={authInputClass}
+          />
+        </div>
+
+        {error && <AuthError message={error} />}
+
+        <button type="submit" disabled={isLoading} className={authButtonClass}>
+          {isLoading ? "Вход..." : "Войти"}
+        </button>
+
+        <p className="text-center text-sm text-gray-600">
+          Нет аккаунта?{" "}
+          <Link to="/register" state={location.state} className="text-primary hover:underline">
+            Зарегистрироваться
+          </Link>
+        </p>
+      </form>
+    </AuthCard>
+  );
+}
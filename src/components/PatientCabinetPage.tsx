@@ -1,31 +1,648 @@
-import React, { useEffect } from 'react';
+import type React from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import archimedService, { SlotConflictError } from "../services/archimed";
+import authService from "../services/auth";
+import certificateService, { type CertificateStatus, type OwnedCertificate } from "../services/certificates";
+import labResultsService, { type LabOrder } from "../services/labResults";
+import type {
+  ApiService,
+  AppointmentStatus,
+  ArchimedAppointment,
+  ArchimedDoctor,
+  ScheduleDay,
+  ScheduleSlot,
+  User,
+} from "../types/cms";
+import { AuthError, AuthNotice, authInputClass } from "./AuthCard";
+import LabOrderCard from "./LabOrderCard";
+import SlotPicker from "./SlotPicker";
+
+type Tab = "appointments" | "labResults" | "certificates" | "profile";
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: "appointments", label: "Мои записи" },
+  { id: "labResults", label: "Анализы" },
+  { id: "certificates", label: "Сертификаты" },
+  { id: "profile", label: "Профиль" },
+];
+
+const CERTIFICATE_STATUS_LABELS: Record<CertificateStatus, string> = {
+  pending: "Ожидает оплаты",
+  active: "Активен",
+  redeemed: "Использован",
+  expired: "Истек",
+  cancelled: "Аннулирован",
+};
+
+const buttonClass =
+  "px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Записи и анализы находятся по телефону из профиля, подтвержденному кодом из SMS
+const hasVerifiedPhone = (user: User) => Boolean(user.phone && user.phone_verified);
+
+function PhoneRequired({ user, subject, onEditProfile }: { user: User; subject: string; onEditProfile: () => void }) {
+  return (
+    <div className="text-center py-8">
+      <p className="text-gray-600 mb-4">
+        {subject} находятся по номеру телефона.{" "}
+        {user.phone ? "Подтвердите его кодом из SMS в профиле." : "Укажите его в профиле."}
+      </p>
+      <button type="button" onClick={onEditProfile} className={`${buttonClass} bg-primary text-white`}>
+        {user.phone ? "Подтвердить телефон" : "Указать телефон"}
+      </button>
+    </div>
+  );
+}
+
+const isCancelled = (statuses: AppointmentStatus[], statusId: number) =>
+  /отмен/i.test(statuses.find((s) => s.id === statusId)?.name || "");
+
+// Время приема: слот талона или желаемые дата/время из заявки
+function appointmentTime(appointment: ArchimedAppointment): Date | null {
+  if (appointment.start) return new Date(appointment.start);
+  if (!appointment.preferred_date) return null;
+  return new Date(`${appointment.preferred_date}T${appointment.preferred_time || "23:59"}`);
+}
+
+function formatAppointmentTime(appointment: ArchimedAppointment): string {
+  const time = appointmentTime(appointment);
+  if (!time) return "Дата уточняется";
+  const date = time.toLocaleDateString("ru-RU", { day: "numeric", month: "long", year: "numeric" });
+  const hasTime = appointment.start || appointment.preferred_time;
+  return hasTime ? `${date}, ${time.toLocaleTimeString("ru-RU", { hour: "2-digit", minute: "2-digit" })}` : date;
+}
+
+const formatDate = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleDateString("ru-RU", { day: "numeric", month: "long", year: "numeric" }) : "—";
+
+interface RescheduleProps {
+  appointment: ArchimedAppointment;
+  onDone: (updated: ArchimedAppointment) => void;
+  onCancel: () => void;
+}
+
+// Перенос записи: свободные слоты того же врача
+function RescheduleAppointment({ appointment, onDone, onCancel }: RescheduleProps) {
+  const [days, setDays] = useState<ScheduleDay[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<ScheduleSlot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadSlots = useCallback(async () => {
+    if (!appointment.doctor_id) return;
+    setIsLoading(true);
+    try {
+      const schedule = await archimedService.getDoctorSlots({
+        doctorId: appointment.doctor_id,
+        branchId: appointment.branch_id,
+      });
+      setDays(schedule);
+      setSelectedDate((prev) => (prev && schedule.some((d) => d.date === prev) ? prev : schedule[0]?.date ?? null));
+    } catch (loadError) {
+      console.error("Error loading doctor schedule:", loadError);
+      setError("Не удалось загрузить расписание врача. Позвоните нам, и мы перенесем запись.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [appointment.doctor_id, appointment.branch_id]);
 
-export default function PatientCabinetPage() {
   useEffect(() => {
-    // Редирект на внешний сервис личного кабинета
-    window.location.href = 'http://user.clinicaldan.ru/login';
-  }, []);
+    loadSlots();
+  }, [loadSlots]);
+
+  const handleSave = async () => {
+    if (!selectedSlot || !appointment.doctor_id) return;
+    setIsSaving(true);
+    setError("");
+    try {
+      const updated = await archimedService.updateAppointment(appointment.id, {
+        doctorId: appointment.doctor_id,
+        branchId: selectedSlot.branch_id,
+        slotStart: selectedSlot.start,
+        duration: selectedSlot.duration,
+      });
+      onDone(updated);
+    } catch (saveError) {
+      if (saveError instanceof SlotConflictError) {
+        setError(saveError.message);
+        setSelectedSlot(null);
+        loadSlots();
+      } else {
+        console.error("Error rescheduling appointment:", saveError);
+        setError("Не удалось перенести запись. Попробуйте еще раз или позвоните нам.");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!appointment.doctor_id) {
+    return <p className="text-sm text-gray-600">Эту запись можно перенести только по телефону.</p>;
+  }
 
   return (
-    <div className="min-h-screen bg-gray-50 py-12">
-      <div className="container mx-auto px-4">
-        <div className="max-w-2xl mx-auto bg-white rounded-lg shadow-lg p-8 text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <h2 className="text-2xl font-bold text-dark mb-4">Переход в личный кабинет</h2>
-          <p className="text-gray-600 mb-6">
-            Вы будете перенаправлены на страницу входа в личный кабинет пациента.
+    <div className="mt-4 border-t border-gray-100 pt-4 space-y-3">
+      <p className="text-sm font-medium text-gray-700">Выберите новое время</p>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Загружаем расписание...</p>
+      ) : days.length === 0 && !error ? (
+        <p className="text-sm text-gray-500">Свободного времени на ближайшие две недели нет.</p>
+      ) : (
+        <SlotPicker
+          days={days}
+          selectedDate={selectedDate}
+          onSelectDate={(date) => {
+            setSelectedDate(date);
+            setSelectedSlot(null);
+          }}
+          selectedSlot={selectedSlot}
+          onSelectSlot={setSelectedSlot}
+        />
+      )}
+      {error && <AuthError message={error} />}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!selectedSlot || isSaving}
+          className={`${buttonClass} bg-primary hover:bg-primaryDark text-white`}
+        >
+          {isSaving ? "Переносим..." : "Перенести"}
+        </button>
+        <button type="button" onClick={onCancel} className={`${buttonClass} border border-gray-300 text-gray-700`}>
+          Отмена
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function AppointmentsSection({ user, onEditProfile }: { user: User; onEditProfile: () => void }) {
+  const [appointments, setAppointments] = useState<ArchimedAppointment[]>([]);
+  const [statuses, setStatuses] = useState<AppointmentStatus[]>([]);
+  const [doctors, setDoctors] = useState<ArchimedDoctor[]>([]);
+  const [services, setServices] = useState<ApiService[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [reschedulingId, setReschedulingId] = useState<number | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const phoneReady = hasVerifiedPhone(user);
+
+  useEffect(() => {
+    if (!phoneReady) {
+      setIsLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([
+      archimedService.getAppointments({ patientPhone: user.phone }),
+      archimedService.getAppointmentStatuses(),
+      archimedService.getDoctors().catch(() => []),
+      archimedService.getServices().catch(() => []),
+    ])
+      .then(([appointmentsResponse, statusList, doctorList, serviceList]) => {
+        if (cancelled) return;
+        setAppointments(appointmentsResponse.data);
+        setStatuses(statusList);
+        setDoctors(doctorList);
+        setServices(serviceList);
+      })
+      .catch((loadError) => {
+        console.error("Error loading appointments:", loadError);
+        if (!cancelled) setError("Не удалось загрузить записи. Попробуйте обновить страницу.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user.phone, phoneReady]);
+
+  const { upcoming, past } = useMemo(() => {
+    const now = Date.now();
+    const sorted = [...appointments].sort(
+      (a, b) => (appointmentTime(a)?.getTime() ?? 0) - (appointmentTime(b)?.getTime() ?? 0)
+    );
+    return {
+      upcoming: sorted.filter(
+        (a) => !isCancelled(statuses, a.status_id) && (appointmentTime(a)?.getTime() ?? now) >= now
+      ),
+      past: sorted
+        .filter((a) => isCancelled(statuses, a.status_id) || (appointmentTime(a)?.getTime() ?? now) < now)
+        .reverse(),
+    };
+  }, [appointments, statuses]);
+
+  const replaceAppointment = (updated: ArchimedAppointment) => {
+    setAppointments((prev) => prev.map((a) => (a.id === updated.id ? { ...a, ...updated } : a)));
+  };
+
+  const handleCancel = async (appointment: ArchimedAppointment) => {
+    if (!window.confirm(`Отменить запись на ${formatAppointmentTime(appointment)}?`)) return;
+    setBusyId(appointment.id);
+    setError("");
+    try {
+      replaceAppointment(await archimedService.cancelAppointment(appointment.id));
+    } catch (cancelError) {
+      console.error("Error cancelling appointment:", cancelError);
+      setError("Не удалось отменить запись. Позвоните нам, и мы поможем.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const doctorName = (id?: number) => {
+    const doctor = doctors.find((d) => d.id === id);
+    return doctor ? [doctor.name, doctor.name1, doctor.name2].filter(Boolean).join(" ") : null;
+  };
+  const serviceName = (id?: number) => services.find((s) => s.id === id)?.name || null;
+  const statusName = (id: number) => statuses.find((s) => s.id === id)?.name || "";
+
+  if (!phoneReady) return <PhoneRequired user={user} subject="Записи на прием" onEditProfile={onEditProfile} />;
+
+  if (isLoading) return <p className="text-gray-500 py-8 text-center">Загружаем записи...</p>;
+
+  const renderAppointment = (appointment: ArchimedAppointment, editable: boolean) => (
+    <li key={appointment.id} className="border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold text-dark">{formatAppointmentTime(appointment)}</p>
+          {doctorName(appointment.doctor_id) && (
+            <p className="text-sm text-gray-700">{doctorName(appointment.doctor_id)}</p>
+          )}
+          {serviceName(appointment.service_id) && (
+            <p className="text-sm text-gray-500">{serviceName(appointment.service_id)}</p>
+          )}
+        </div>
+        {statusName(appointment.status_id) && (
+          <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+            {statusName(appointment.status_id)}
+          </span>
+        )}
+      </div>
+      {editable && reschedulingId !== appointment.id && (
+        <div className="flex gap-2 mt-3">
+          <button
+            type="button"
+            onClick={() => setReschedulingId(appointment.id)}
+            disabled={busyId === appointment.id}
+            className={`${buttonClass} border border-primary text-primary hover:bg-primary hover:text-white`}
+          >
+            Перенести
+          </button>
+          <button
+            type="button"
+            onClick={() => handleCancel(appointment)}
+            disabled={busyId === appointment.id}
+            className={`${buttonClass} border border-gray-300 text-gray-700 hover:border-red-500 hover:text-red-600`}
+          >
+            {busyId === appointment.id ? "Отменяем..." : "Отменить"}
+          </button>
+        </div>
+      )}
+      {reschedulingId === appointment.id && (
+        <RescheduleAppointment
+          appointment={appointment}
+          onDone={(updated) => {
+            replaceAppointment(updated);
+            setReschedulingId(null);
+          }}
+          onCancel={() => setReschedulingId(null)}
+        />
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-8">
+      {error && <AuthError message={error} />}
+      <section>
+        <h2 className="text-lg font-semibold text-dark mb-3">Предстоящие</h2>
+        {upcoming.length === 0 ? (
+          <p className="text-gray-500">
+            Предстоящих записей нет.{" "}
+            <Link to="/doctors" className="text-primary hover:text-primaryDark underline">
+              Записаться к врачу
+            </Link>
           </p>
-          <p className="text-sm text-gray-500">
-            Если переход не произошел автоматически, 
-            <a 
-              href="http://user.clinicaldan.ru/login" 
-              className="text-primary hover:text-primaryDark underline ml-1"
+        ) : (
+          <ul className="space-y-3">{upcoming.map((a) => renderAppointment(a, true))}</ul>
+        )}
+      </section>
+      {past.length > 0 && (
+        <section>
+          <h2 className="text-lg font-semibold text-dark mb-3">Прошедшие и отмененные</h2>
+          <ul className="space-y-3">{past.map((a) => renderAppointment(a, false))}</ul>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function LabResultsSection({ user, onEditProfile }: { user: User; onEditProfile: () => void }) {
+  const [orders, setOrders] = useState<LabOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const phoneReady = hasVerifiedPhone(user);
+
+  useEffect(() => {
+    if (!phoneReady) {
+      setIsLoading(false);
+      return;
+    }
+    labResultsService
+      .getMyResults()
+      .then(setOrders)
+      .catch((loadError: Error) => setError(loadError.message || "Не удалось загрузить результаты"))
+      .finally(() => setIsLoading(false));
+  }, [phoneReady]);
+
+  const openDocument = async (orderNumber: string, documentId: string) => {
+    try {
+      const blob = await labResultsService.downloadMyDocument(orderNumber, documentId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank", "noopener");
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (downloadError) {
+      console.error("Error downloading lab document:", downloadError);
+      setError("Не удалось открыть бланк результатов");
+    }
+  };
+
+  if (!phoneReady) return <PhoneRequired user={user} subject="Результаты анализов" onEditProfile={onEditProfile} />;
+
+  if (isLoading) return <p className="text-gray-500 py-8 text-center">Загружаем результаты...</p>;
+
+  return (
+    <div className="space-y-4">
+      {error && <AuthError message={error} />}
+      {orders.length === 0 && !error && <p className="text-gray-500">Готовых результатов пока нет.</p>}
+      {orders.map((order) => (
+        <LabOrderCard
+          key={order.orderNumber}
+          order={order}
+          onOpenDocument={(documentId) => openDocument(order.orderNumber, documentId)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function CertificatesSection() {
+  const [certificates, setCertificates] = useState<OwnedCertificate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    certificateService
+      .getMyCertificates()
+      .then(setCertificates)
+      .catch((loadError: Error) => setError(loadError.message || "Не удалось загрузить сертификаты"))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  if (isLoading) return <p className="text-gray-500 py-8 text-center">Загружаем сертификаты...</p>;
+  if (error) return <AuthError message={error} />;
+  if (certificates.length === 0) {
+    return (
+      <p className="text-gray-500">
+        Сертификатов пока нет.{" "}
+        <Link to="/certificates" className="text-primary hover:text-primaryDark underline">
+          Купить подарочный сертификат
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {certificates.map((certificate) => (
+        <li key={certificate.code} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <p className="font-mono font-semibold text-dark">{certificate.code}</p>
+              <p className="text-sm text-gray-500">
+                {certificate.relation === "purchased"
+                  ? `Куплен ${formatDate(certificate.issuedAt)}${certificate.recipientName ? ` · для ${certificate.recipientName}` : ""}`
+                  : `Подарен вам ${formatDate(certificate.issuedAt)}`}
+              </p>
+            </div>
+            <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+              {CERTIFICATE_STATUS_LABELS[certificate.status]}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 mt-3 text-sm">
+            <span>
+              Остаток: <strong>{certificateService.formatAmount(certificate.balance)}</strong> из{" "}
+              {certificateService.formatAmount(certificate.amount)}
+            </span>
+            <span className="text-gray-500">Действует до {formatDate(certificate.expiresAt)}</span>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Подтверждение телефона из профиля кодом из SMS
+function PhoneConfirmation() {
+  const [sentTo, setSentTo] = useState("");
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const requestCode = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const request = await authService.requestPhoneConfirmation();
+      setSentTo(request.phone);
+      setCode("");
+    } catch (requestError) {
+      setError((requestError as Error).message || "Не удалось отправить код");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const confirm = async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      await authService.confirmPhone(code);
+    } catch (confirmError) {
+      setError((confirmError as Error).message || "Не удалось подтвердить телефон");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-gray-200 p-3 space-y-3">
+      <p className="text-sm text-gray-700">
+        {sentTo ? `Мы отправили код на номер ${sentTo}` : "Телефон не подтвержден. Мы пришлем на него код в SMS."}
+      </p>
+      {sentTo && (
+        <input
+          aria-label="Код из SMS"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          className={`${authInputClass} tracking-widest text-center`}
+        />
+      )}
+      {error && <AuthError message={error} />}
+      <div className="flex flex-wrap gap-2">
+        {sentTo && (
+          <button
+            type="button"
+            onClick={confirm}
+            disabled={isLoading || code.length < 6}
+            className={`${buttonClass} bg-primary hover:bg-primaryDark text-white`}
+          >
+            Подтвердить
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={requestCode}
+          disabled={isLoading}
+          className={`${buttonClass} border border-gray-200 text-gray-700`}
+        >
+          {sentTo ? "Отправить код еще раз" : "Получить код"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type ProfileForm = Pick<Required<User>, "lastname" | "firstname" | "middlename" | "phone">;
+
+function ProfileSection({ user }: { user: User }) {
+  const [form, setForm] = useState<ProfileForm>({
+    lastname: user.lastname || "",
+    firstname: user.firstname || "",
+    middlename: user.middlename || "",
+    phone: user.phone || "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm((prev) => ({ ...prev, [e.target.name]: e.target.value }));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.firstname.trim()) return setError("Укажите имя");
+    const phoneDigits = form.phone.replace(/\D/g, "");
+    if (form.phone.trim() && (phoneDigits.length < 10 || phoneDigits.length > 12)) {
+      return setError("Введите корректный номер телефона");
+    }
+
+    setIsSaving(true);
+    setError("");
+    try {
+      await authService.updateProfile(form);
+      setSaved(true);
+    } catch (saveError) {
+      setError((saveError as Error).message || "Не удалось сохранить профиль");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fields: { name: keyof ProfileForm; label: string; type?: string }[] = [
+    { name: "lastname", label: "Фамилия" },
+    { name: "firstname", label: "Имя" },
+    { name: "middlename", label: "Отчество" },
+    { name: "phone", label: "Телефон", type: "tel" },
+  ];
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">Email</span>
+        <p className="text-dark">
+          {user.email || <span className="text-gray-500">не указан</span>}
+          {user.email && user.email_verified === false && (
+            <span className="ml-2 text-xs text-primary">не подтвержден</span>
+          )}
+        </p>
+      </div>
+      {fields.map((field) => (
+        <div key={field.name}>
+          <label htmlFor={`profile-${field.name}`} className="block text-sm font-medium text-gray-700 mb-1">
+            {field.label}
+          </label>
+          <input
+            id={`profile-${field.name}`}
+            name={field.name}
+            type={field.type || "text"}
+            value={form[field.name]}
+            onChange={handleChange}
+            className={authInputClass}
+          />
+        </div>
+      ))}
+      {user.phone && !user.phone_verified && <PhoneConfirmation />}
+      <p className="text-xs text-gray-500">По номеру телефона мы находим ваши записи на прием и результаты анализов.</p>
+      {error && <AuthError message={error} />}
+      {saved && <AuthNotice message="Профиль сохранен" />}
+      <button type="submit" disabled={isSaving} className={`${buttonClass} bg-primary hover:bg-primaryDark text-white`}>
+        {isSaving ? "Сохраняем..." : "Сохранить"}
+      </button>
+    </form>
+  );
+}
+
+// Личный кабинет пациента (маршрут закрыт RequireAuth)
+export default function PatientCabinetPage() {
+  const [user, setUser] = useState<User | null>(() => authService.getCurrentUser());
+  const [tab, setTab] = useState<Tab>("appointments");
+
+  useEffect(() => authService.subscribe(setUser), []);
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 md:py-12">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <h1 className="text-2xl sm:text-3xl font-bold text-dark mb-1">Личный кабинет</h1>
+        <p className="text-gray-600 mb-6">{user.name}</p>
+
+        <div className="flex gap-2 mb-6 overflow-x-auto">
+          {TABS.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => setTab(item.id)}
+              className={`${buttonClass} flex-shrink-0 ${
+                tab === item.id ? "bg-primary text-white" : "bg-white text-gray-700 border border-gray-200"
+              }`}
             >
-              нажмите здесь
-            </a>
-          </p>
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 md:p-6">
+          {tab === "appointments" && <AppointmentsSection user={user} onEditProfile={() => setTab("profile")} />}
+          {tab === "labResults" && <LabResultsSection user={user} onEditProfile={() => setTab("profile")} />}
+          {tab === "certificates" && <CertificatesSection />}
+          {tab === "profile" && <ProfileSection user={user} />}
         </div>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
-import certificateService from "../services/certificates";
+import certificateService, { type CertificateBalance } from "../services/certificates";
 
 interface PaymentSuccessPageProps {
   type?: "certificate" | "appointment";
@@ -17,6 +17,7 @@ export default function PaymentSuccessPage({
     paid: boolean;
     amount?: number;
     orderId?: string;
+    certificate?: CertificateBalance | null;
   } | null>(null);
   const [error, setError] = useState<string>("");
 
@@ -49,7 +50,8 @@ export default function PaymentSuccessPage({
           status,
           paid: isPaid,
           amount: response.amount,
-          orderId: response.orderNumber
+          orderId: response.orderNumber,
+          certificate: response.certificate
         });
       } catch (error) {
         console.error("Ошибка при проверке статуса платежа:", error);
@@ -206,6 +208,29 @@ export default function PaymentSuccessPage({
               ? "Электронный сертификат отправлен на указанный email адрес. Получатель сможет воспользоваться сертификатом в течение 3 месяцев."
               : "Ваша запись на прием подтверждена. Мы отправили подтверждение на ваш email."}
           </p>
+          {paymentStatus.certificate && (
+            <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <p className="text-sm text-gray-500 mb-1">Код сертификата</p>
+              <p className="font-mono text-xl font-semibold text-dark tracking-wider">
+                {paymentStatus.certificate.code}
+              </p>
+              {paymentStatus.certificate.expiresAt && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Действует до{" "}
+                  {new Date(paymentStatus.certificate.expiresAt).toLocaleDateString("ru-RU")}
+                </p>
+              )}
+              {orderId && (
+                <a
+                  href={certificateService.getCertificatePdfUrl(orderId)}
+                  download
+                  className="inline-flex items-center mt-4 px-5 py-2 border border-primary text-primary rounded-md font-medium hover:bg-primary hover:text-white transition-colors"
+                >
+                  Скачать сертификат (PDF)
+                </a>
+              )}
+            </div>
+          )}
           {paymentStatus?.orderId && (
             <p className="text-sm text-gray-500 mb-6">
               Номер заказа: {paymentStatus.orderId}
@@ -1,10 +1,18 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import type { ApiService, ServiceGroup, ArchimedDoctor } from '../types/cms';
+import { useBranchPrices, useSelectedBranch } from '../hooks/useBranches';
+import { usePageMeta } from '../hooks/usePageMeta';
 import archimedService from '../services/archimed';
+import { proceduresData, staticPageMeta } from '../services/seo';
+import serviceTaxonomyService from '../services/serviceTaxonomy';
+import { createQueryMatcher } from '../services/textMatch';
 import ErrorComponent from './ErrorComponent';
 import AppointmentModal from './AppointmentModal';
+import BranchSelect from './BranchSelect';
 
 export default function PriceListPage() {
+  const [searchParams] = useSearchParams();
   const [serviceGroups, setServiceGroups] = useState<ServiceGroup[]>([]);
   const [selectedGroup, setSelectedGroup] = useState<string>('all');
   const [selectedType, setSelectedType] = useState<'all' | 'lab' | 'other'>('all');
@@ -25,6 +33,14 @@ export default function PriceListPage() {
   const [isMobile, setIsMobile] = useState(false);
   const [expandedGroups, setExpandedGroups] = useState<{ [groupId: number]: boolean }>({});
   const [expandedService, setExpandedService] = useState<{ [serviceId: number]: boolean }>({});
+  const { branch, branches } = useSelectedBranch();
+  const applyPrices = useBranchPrices();
+
+  // Поиск по сайту открывает прайс-лист с ?q=
+  const queryParam = searchParams.get('q');
+  useEffect(() => {
+    if (queryParam !== null) setSearchTerm(queryParam);
+  }, [queryParam]);
 
   useEffect(() => {
     const loadServices = async () => {
@@ -32,7 +48,8 @@ export default function PriceListPage() {
         setIsLoading(true);
         setError(null);
         
-        const services = await archimedService.getServices();
+        // Таксономия загружается вместе с услугами: от нее зависят вкладки и порядок в гинекологии
+        const [services] = await Promise.all([archimedService.getServices(), serviceTaxonomyService.load()]);
         
         // Группируем услуги по group_name
         const groupedServices = services.reduce((groups: ServiceGroup[], service: ApiService) => {
@@ -86,25 +103,42 @@ export default function PriceListPage() {
     loadServices();
   }, []);
 
+  // Цены выбранного филиала; услуги, которых в филиале нет, скрываются
+  const pricedGroups = useMemo(
+    () =>
+      serviceGroups
+        .map((group) => ({ ...group, services: applyPrices(group.services) }))
+        .filter((group) => group.services.length > 0),
+    [serviceGroups, applyPrices]
+  );
+  const pricedPopularServices = useMemo(() => applyPrices(popularServices), [popularServices, applyPrices]);
+
+  // Разметка цен для поисковиков: сначала популярные услуги, затем остальные по группам
+  const structuredPrices = useMemo(
+    () => proceduresData([...pricedPopularServices, ...pricedGroups.flatMap((group) => group.services)]),
+    [pricedPopularServices, pricedGroups]
+  );
+  usePageMeta({ ...staticPageMeta('/prices'), structuredData: structuredPrices });
+
   const safeLower = (v?: string) => (v || '').toLowerCase();
-  const search = safeLower(searchTerm.trim());
+  const matcher = useMemo(() => createQueryMatcher(searchTerm), [searchTerm]);
+  const matchesSearch = (s: ApiService) => matcher.matches(s.name, s.altname, s.info, s.code);
 
-  // Helpers for derived categorization
-  const isAnalysis = (s: ApiService) => {
-    const text = safeLower([s.name, s.altname, s.info, s.group_name].join(' '));
-    const keywords = ['анализ', 'лаборатор', 'пцр', 'мазок', 'морфолог', 'биохим', 'кров', 'моч', 'антител', 'igg', 'igm', 'hbs', 'hbv', 'hcv', 'urea', 'glucose', 'кал', 'гистолог'];
-    return keywords.some(k => text.includes(k));
-  };
+  // Категории берутся из таксономии услуг (serviceTaxonomy.ts), как на страницах направлений
+  const isAnalysis = (s: ApiService) => serviceTaxonomyService.classify(s).category?.id === 'laboratory';
 
   const isGynecologyGroup = (g: ServiceGroup) => safeLower(g.name).includes('гинеколог');
 
+  const GYN_SUBCATEGORY_BY_CATEGORY: Record<string, 'consult' | 'analysis' | 'ultrasound' | 'laser'> = {
+    consultations: 'consult',
+    laboratory: 'analysis',
+    ultrasound: 'ultrasound',
+    surgery: 'laser',
+  };
+
   const getGynSubcategory = (s: ApiService): 'consult' | 'analysis' | 'ultrasound' | 'laser' | 'other' => {
-    const t = safeLower([s.name, s.altname, s.info].join(' '));
-    if (t.includes('консульт')) return 'consult';
-    if (t.includes('узи')) return 'ultrasound';
-    if (t.includes('лазер')) return 'laser';
-    if (isAnalysis(s)) return 'analysis';
-    return 'other';
+    const categoryId = serviceTaxonomyService.classify(s).category?.id;
+    return (categoryId && GYN_SUBCATEGORY_BY_CATEGORY[categoryId]) || 'other';
   };
 
   const gynWeight = (s: ApiService) => {
@@ -125,26 +159,19 @@ export default function PriceListPage() {
 
   if (selectedType === 'lab') {
     // Collect all analysis services into a single virtual group
-    const allServices = serviceGroups.flatMap(g => g.services);
+    const allServices = pricedGroups.flatMap(g => g.services);
     const services = allServices.filter(s => {
-      const passesSearch = search === '' || safeLower([s.name, s.altname, s.info, s.code].join(' ')).includes(search);
-      return isAnalysis(s) && passesSearch;
+      return isAnalysis(s) && matchesSearch(s);
     });
     filteredGroups = services.length ? [{ id: -1, name: 'Лабораторная диагностика', services }] : [];
   } else {
-    filteredGroups = serviceGroups
+    filteredGroups = pricedGroups
       .map(group => {
         const filteredServices = group.services.filter(service => {
           const matchesType = selectedType === 'all' ? true : !isAnalysis(service);
           if (!matchesType) return false;
           if (selectedGroup !== 'all' && group.id.toString() !== selectedGroup) return false;
-          if (search === '') return true;
-          return (
-            safeLower(service.name).includes(search) ||
-            safeLower(service.altname).includes(search) ||
-            safeLower(service.info).includes(search) ||
-            safeLower(service.code).includes(search)
-          );
+          return matchesSearch(service);
         });
         // Special ordering inside gynecology
         const outputServices = isGynecologyGroup(group)
@@ -304,17 +331,20 @@ export default function PriceListPage() {
             Актуальные цены на все услуги клиники Алдан. Выберите интересующее вас направление 
             или воспользуйтесь поиском для быстрого нахождения нужной услуги.
           </p>
+          {branch && branches.length > 1 && (
+            <p className="mt-2 text-sm text-gray-600">Цены филиала «{branch.name}», {branch.address}</p>
+          )}
         </div>
 
         {/* Popular Services Section */}
-        {popularServices.length > 0 && (
+        {pricedPopularServices.length > 0 && (
           <div className="mb-8 md:mb-12">
             <div className="text-center mb-6 md:mb-8">
               <h2 className="text-2xl md:text-3xl font-bold text-dark mb-3 md:mb-4">Популярные услуги</h2>
               <p className="text-sm sm:text-base text-gray-600">Самые востребованные услуги по доступным ценам</p>
             </div>
             <div className={isMobile ? "grid grid-cols-1 gap-2" : "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"}>
-              {popularServices.map((service) => (
+              {pricedPopularServices.map((service) => (
                 isMobile ? (
                   <div key={service.id} className="border border-gray-200 rounded-lg p-2 hover:shadow-sm bg-white">
                     <div className="flex items-center gap-2">
@@ -411,13 +441,22 @@ export default function PriceListPage() {
                 className="w-full px-3 md:px-4 py-2 border border-gray-300 rounded focus:outline-none focus:border-primary text-sm md:text-base"
               >
                 <option value="all">Все категории</option>
-                {serviceGroups.map(group => (
+                {pricedGroups.map(group => (
                   <option key={group.id} value={group.id.toString()}>
                     {group.name}
                   </option>
                 ))}
               </select>
             </div>
+            {branches.length > 1 && (
+              <div>
+                <label htmlFor="price-branch" className="block text-gray-700 mb-1 md:mb-2 font-medium text-sm md:text-base">Филиал</label>
+                <BranchSelect
+                  id="price-branch"
+                  className="w-full px-3 md:px-4 py-2 border border-gray-300 rounded focus:outline-none focus:border-primary text-sm md:text-base"
+                />
+              </div>
+            )}
             {/* Type Filter */}
             <div>
               <label className="block text-gray-700 mb-1 md:mb-2 font-medium text-sm md:text-base">Тип</label>
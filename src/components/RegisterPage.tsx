@@ -0,0 +1,196 @@
+import type React from "react";
+import { useState } from "react";
+import { type Location, Link, useLocation, useNavigate } from "react-router-dom";
+import authService, { MIN_PASSWORD_LENGTH } from "../services/auth";
+import AuthCard, { AuthError, AuthNotice, authButtonClass, authInputClass } from "./AuthCard";
+
+interface RegisterForm {
+  lastname: string;
+  firstname: string;
+  middlename: string;
+  email: string;
+  phone: string;
+  password: string;
+  passwordConfirm: string;
+  agreeToSiteConsent: boolean;
+}
+
+type FieldErrors = Partial<Record<keyof RegisterForm, string>>;
+
+const EMPTY_FORM: RegisterForm = {
+  lastname: "",
+  firstname: "",
+  middlename: "",
+  email: "",
+  phone: "",
+  password: "",
+  passwordConfirm: "",
+  agreeToSiteConsent: false,
+};
+
+const validateEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+function validate(form: RegisterForm): FieldErrors {
+  const errors: FieldErrors = {};
+  if (!form.lastname.trim()) errors.lastname = "Укажите фамилию";
+  if (!form.firstname.trim()) errors.firstname = "Укажите имя";
+  if (!validateEmail(form.email.trim())) errors.email = "Email имеет неверный формат";
+  const phoneDigits = form.phone.replace(/\D/g, "");
+  if (form.phone.trim() && (phoneDigits.length < 10 || phoneDigits.length > 12)) {
+    errors.phone = "Введите корректный номер телефона";
+  }
+  if (form.password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = `Пароль должен быть не короче ${MIN_PASSWORD_LENGTH} символов`;
+  }
+  if (form.password !== form.passwordConfirm) errors.passwordConfirm = "Пароли не совпадают";
+  if (!form.agreeToSiteConsent) errors.agreeToSiteConsent = "Необходимо согласие на обработку персональных данных";
+  return errors;
+}
+
+export default function RegisterPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [form, setForm] = useState<RegisterForm>(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [registeredEmail, setRegisteredEmail] = useState<string | null>(null);
+
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setForm((prev) => ({ ...prev, [name]: type === "checkbox" ? checked : value }));
+    if (fieldErrors[name as keyof RegisterForm]) {
+      setFieldErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validate(form);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsLoading(true);
+    setError("");
+
+    const lastname = form.lastname.trim();
+    const firstname = form.firstname.trim();
+    const middlename = form.middlename.trim();
+
+    try {
+      await authService.register({
+        email: form.email.trim(),
+        password: form.password,
+        name: [lastname, firstname, middlename].filter(Boolean).join(" "),
+        phone: form.phone.trim() || undefined,
+        role: "patient",
+        lastname,
+        firstname,
+        middlename: middlename || undefined,
+      });
+      setRegisteredEmail(form.email.trim());
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось зарегистрироваться");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (registeredEmail) {
+    return (
+      <AuthCard title="Регистрация завершена">
+        <div className="space-y-4">
+          <AuthNotice
+            message={`Мы отправили письмо на ${registeredEmail}. Перейдите по ссылке из письма, чтобы подтвердить email.`}
+          />
+          <button
+            type="button"
+            onClick={() => navigate(from ? `${from.pathname}${from.search}` : "/", { replace: true })}
+            className={authButtonClass}
+          >
+            Продолжить
+          </button>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  const renderInput = (
+    name: keyof Omit<RegisterForm, "agreeToSiteConsent">,
+    label: string,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <div>
+      <label htmlFor={`register-${name}`} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        id={`register-${name}`}
+        name={name}
+        value={form[name]}
+        onChange={handleChange}
+        aria-invalid={Boolean(fieldErrors[name])}
+        className={`${authInputClass} ${fieldErrors[name] ? "border-red-400" : ""}`}
+        {...props}
+      />
+      {fieldErrors[name] && <p className="mt-1 text-sm text-red-600">{fieldErrors[name]}</p>}
+    </div>
+  );
+
+  return (
+    <AuthCard title="Регистрация" subtitle="Личный кабинет пациента: записи на прием, сертификаты и результаты">
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+        {renderInput("lastname", "Фамилия *", { autoComplete: "family-name" })}
+        {renderInput("firstname", "Имя *", { autoComplete: "given-name" })}
+        {renderInput("middlename", "Отчество", { autoComplete: "additional-name" })}
+        {renderInput("email", "Email *", { type: "email", autoComplete: "email" })}
+        {renderInput("phone", "Телефон", { type: "tel", autoComplete: "tel", placeholder: "+7 (___) ___-__-__" })}
+        {renderInput("password", "Пароль *", { type: "password", autoComplete: "new-password" })}
+        {renderInput("passwordConfirm", "Повторите пароль *", { type: "password", autoComplete: "new-password" })}
+
+        <div>
+          <label className="flex items-start space-x-2">
+            <input
+              type="checkbox"
+              name="agreeToSiteConsent"
+              checked={form.agreeToSiteConsent}
+              onChange={handleChange}
+              className="mt-1 h-4 w-4 text-primary focus:ring-primary rounded border-gray-300"
+            />
+            <span className="text-sm text-gray-700">
+              Я даю{" "}
+              <a
+                href="/documents/согласие_на_персданные_на_сайт.docx"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+              >
+                согласие
+              </a>{" "}
+              на обработку персональных данных
+            </span>
+          </label>
+          {fieldErrors.agreeToSiteConsent && (
+            <p className="mt-1 text-sm text-red-600">{fieldErrors.agreeToSiteConsent}</p>
+          )}
+        </div>
+
+        {error && <AuthError message={error} />}
+
+        <button type="submit" disabled={isLoading} className={authButtonClass}>
+          {isLoading ? "Регистрация..." : "Зарегистрироваться"}
+        </button>
+
+        <p className="text-center text-sm text-gray-600">
+          Уже есть аккаунт?{" "}
+          <Link to="/login" state={location.state} className="text-primary hover:underline">
+            Войти
+          </Link>
+        </p>
+      </form>
+    </AuthCard>
+  );
+}
@@ -0,0 +1,72 @@
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import authService from "../services/auth";
+import type { User } from "../types/cms";
+
+interface RequireAuthProps {
+  // Роль, которой разрешен доступ; без нее достаточно войти
+  requiredRole?: User["role"];
+  children: React.ReactNode;
+}
+
+type SessionState = "checking" | "authenticated" | "anonymous";
+
+// Охрана маршрута: без входа — на /login (с возвратом обратно), чужая роль — отказ.
+// Истекший access-токен обновляется через refresh-токен перед показом страницы.
+export default function RequireAuth({ requiredRole, children }: RequireAuthProps) {
+  const location = useLocation();
+  const { pathname } = location;
+  // Результат проверки относится к адресу, для которого она выполнялась
+  const [checked, setChecked] = useState<{ pathname: string; session: SessionState } | null>(null);
+
+  // Сессию перепроверяем при каждой навигации, а также при входе и выходе (в том числе в другой вкладке)
+  useEffect(() => {
+    let cancelled = false;
+    const check = () => {
+      authService.getValidToken().then((token) => {
+        if (cancelled) return;
+        setChecked({ pathname, session: token && authService.getUser() ? "authenticated" : "anonymous" });
+      });
+    };
+    check();
+    const unsubscribe = authService.subscribe(check);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [pathname]);
+
+  const session: SessionState = checked?.pathname === pathname ? checked.session : "checking";
+
+  if (session === "checking") {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto" />
+      </div>
+    );
+  }
+
+  if (session === "anonymous") {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (requiredRole && !authService.hasRole(requiredRole)) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="container mx-auto px-4 text-center">
+          <h1 className="text-2xl font-bold text-dark mb-4">Доступ запрещен</h1>
+          <p className="text-gray-600 mb-6">Этот раздел доступен только сотрудникам клиники.</p>
+          <Link
+            to="/"
+            className="px-6 py-2 bg-primary text-white rounded hover:bg-primaryDark transition-colors"
+          >
+            На главную
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,103 @@
+import type React from "react";
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import authService, { MIN_PASSWORD_LENGTH } from "../services/auth";
+import AuthCard, { AuthError, AuthNotice, authButtonClass, authInputClass } from "./AuthCard";
+
+// Ссылка из письма: /reset-password/confirm?token=...
+export default function ResetPasswordConfirmPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [password, setPassword] = useState("");
+  const [passwordConfirm, setPasswordConfirm] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Пароль должен быть не короче ${MIN_PASSWORD_LENGTH} символов`);
+      return;
+    }
+    if (password !== passwordConfirm) {
+      setError("Пароли не совпадают");
+      return;
+    }
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      await authService.confirmPasswordReset(token, password);
+      setIsDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось сменить пароль");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <AuthCard title="Новый пароль">
+        <div className="space-y-4 text-center">
+          <AuthError message="Ссылка для смены пароля неполная" />
+          <Link to="/reset-password" className="text-primary hover:underline">
+            Запросить новую ссылку
+          </Link>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Новый пароль">
+      {isDone ? (
+        <div className="space-y-4 text-center">
+          <AuthNotice message="Пароль изменен. Войдите с новым паролем." />
+          <Link to="/login" className="text-primary hover:underline">
+            Войти
+          </Link>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-1">
+              Новый пароль
+            </label>
+            <input
+              id="newPassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              required
+              className={authInputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="newPasswordConfirm" className="block text-sm font-medium text-gray-700 mb-1">
+              Повторите пароль
+            </label>
+            <input
+              id="newPasswordConfirm"
+              type="password"
+              value={passwordConfirm}
+              onChange={(e) => setPasswordConfirm(e.target.value)}
+              autoComplete="new-password"
+              required
+              className={authInputClass}
+            />
+          </div>
+
+          {error && <AuthError message={error} />}
+
+          <button type="submit" disabled={isLoading} className={authButtonClass}>
+            {isLoading ? "Сохранение..." : "Сменить пароль"}
+          </button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
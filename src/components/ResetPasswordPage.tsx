@@ -0,0 +1,70 @@
+import type React from "react";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import authService from "../services/auth";
+import AuthCard, { AuthError, AuthNotice, authButtonClass, authInputClass } from "./AuthCard";
+
+// Запрос письма со ссылкой для смены пароля
+export default function ResetPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      await authService.resetPassword(email.trim());
+      setIsSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось отправить письмо");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard title="Восстановление пароля" subtitle="Пришлем ссылку для смены пароля на ваш email">
+      {isSent ? (
+        <div className="space-y-4 text-center">
+          <AuthNotice message={`Если аккаунт с адресом ${email.trim()} существует, письмо уже в пути. Ссылка действует 1 час.`} />
+          <Link to="/login" className="text-primary hover:underline">
+            Вернуться ко входу
+          </Link>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="resetEmail" className="block text-sm font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <input
+              id="resetEmail"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+              className={authInputClass}
+            />
+          </div>
+
+          {error && <AuthError message={error} />}
+
+          <button type="submit" disabled={isLoading} className={authButtonClass}>
+            {isLoading ? "Отправка..." : "Отправить ссылку"}
+          </button>
+
+          <p className="text-center text-sm">
+            <Link to="/login" className="text-primary hover:underline">
+              Вспомнили пароль? Войти
+            </Link>
+          </p>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
@@ -0,0 +1,10 @@
+import { useLocation } from 'react-router-dom';
+import { usePageMeta } from '../hooks/usePageMeta';
+import { staticPageMeta } from '../services/seo';
+
+// Мета по адресу страницы; страницы врача, направления, цен и контактов дополняют ее своими данными
+export default function RouteMeta() {
+  const { pathname } = useLocation();
+  usePageMeta(staticPageMeta(pathname));
+  return null;
+}
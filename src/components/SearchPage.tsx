@@ -0,0 +1,104 @@
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import siteSearchService, {
+  type GroupedSearchResults,
+  SEARCH_RESULT_LABELS,
+  SEARCH_RESULT_TYPES,
+} from "../services/search";
+
+const RESULTS_PER_GROUP = 50;
+
+// Все результаты поиска по сайту: /search?q=
+export default function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") || "";
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<GroupedSearchResults | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setInput(query);
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    siteSearchService
+      .search(query, RESULTS_PER_GROUP)
+      .then((found) => {
+        if (!cancelled) setResults(found);
+      })
+      .catch((error) => console.error("Site search failed:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams(input.trim() ? { q: input.trim() } : {});
+  };
+
+  const groups = results ? SEARCH_RESULT_TYPES.filter((type) => results[type].length > 0) : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 md:py-12">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <h1 className="text-2xl sm:text-3xl font-bold text-dark mb-6">Поиск по сайту</h1>
+
+        <form onSubmit={handleSubmit} className="flex gap-2 mb-8">
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Врач, услуга или вопрос"
+            aria-label="Поиск по сайту"
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+          />
+          <button
+            type="submit"
+            className="px-5 py-2 bg-primary hover:bg-primaryDark text-white rounded-md font-medium transition-colors"
+          >
+            Найти
+          </button>
+        </form>
+
+        {isLoading && <p className="text-gray-500">Ищем...</p>}
+        {!isLoading && results && groups.length === 0 && (
+          <p className="text-gray-600">
+            По запросу «{query}» ничего не найдено. Попробуйте изменить запрос или посмотрите{" "}
+            <Link to="/prices" className="text-primary hover:underline">
+              прайс-лист
+            </Link>
+            .
+          </p>
+        )}
+
+        {!isLoading &&
+          results &&
+          groups.map((type) => (
+            <section key={type} className="mb-8">
+              <h2 className="text-lg font-semibold text-dark mb-3">
+                {SEARCH_RESULT_LABELS[type]} <span className="text-gray-400 font-normal">{results[type].length}</span>
+              </h2>
+              <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+                {results[type].map((result) => (
+                  <li key={result.id}>
+                    <Link to={result.url} className="block px-4 py-3 hover:bg-gray-50">
+                      <span className="block text-dark">{result.title}</span>
+                      {result.subtitle && <span className="block text-sm text-gray-500">{result.subtitle}</span>}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+      </div>
+    </div>
+  );
+}
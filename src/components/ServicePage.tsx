@@ -2,16 +2,13 @@
 import type React from "react";
 import { useEffect, useMemo, useState } from "react";
 import { useParams, Link } from "react-router-dom";
+import { useBranchPrices } from "../hooks/useBranches";
+import { usePageMeta } from "../hooks/usePageMeta";
 import archimedService from "../services/archimed";
-import type { ApiService, ArchimedDoctor } from "../types/cms";
+import type { ApiService, ArchimedDoctor, DoctorServiceLinks } from "../types/cms";
 import { getDirectionBySlug, keywordMatch } from "../services/directions";
-import {
-  SERVICE_CATEGORIES,
-  SERVICE_SUBCATEGORIES,
-  groupServicesByCategory,
-  getServiceCategory,
-  getServiceSubcategory,
-} from "../services/serviceCategories";
+import { directionMeta, proceduresData } from "../services/seo";
+import serviceTaxonomyService from "../services/serviceTaxonomy";
 import AppointmentModal from "./AppointmentModal";
 
 const ServicePage: React.FC = () => {
@@ -22,6 +19,10 @@ const ServicePage: React.FC = () => {
   const [doctors, setDoctors] = useState<ArchimedDoctor[]>([]);
   const [showAllServices, setShowAllServices] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
+  // Новый объект после загрузки таксономии — классификация услуг пересчитывается
+  const [taxonomy, setTaxonomy] = useState(() => serviceTaxonomyService.getData());
+  const [serviceLinks, setServiceLinks] = useState<DoctorServiceLinks | null>(null);
+  const applyPrices = useBranchPrices();
   const [appointmentModal, setAppointmentModal] = useState<{
     isOpen: boolean;
     service?: ApiService;
@@ -35,6 +36,19 @@ const ServicePage: React.FC = () => {
     [slug]
   );
 
+  useEffect(() => {
+    let cancelled = false;
+    serviceTaxonomyService.load().then((data) => {
+      if (!cancelled) setTaxonomy(data);
+    });
+    archimedService.getDoctorServiceLinks().then((links) => {
+      if (!cancelled) setServiceLinks(links);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   useEffect(() => {
     // Всегда поднимаем страницу вверх при смене направления
     window.scrollTo({ top: 0, left: 0, behavior: "auto" });
@@ -89,13 +103,10 @@ const ServicePage: React.FC = () => {
 
   const filteredServices = useMemo(() => {
     if (!direction) return [] as ApiService[];
-    return services.filter(
-      (s) =>
-        keywordMatch(s.group_name, direction.serviceKeywords) ||
-        keywordMatch(s.name, direction.serviceKeywords) ||
-        keywordMatch(s.altname, direction.serviceKeywords)
+    return applyPrices(services).filter((s) =>
+      serviceTaxonomyService.isInDirection(s, direction.slug, taxonomy)
     );
-  }, [services, direction]);
+  }, [services, direction, taxonomy, applyPrices]);
 
   // Шаблонные услуги для раздела Пластическая хирургия (если из API ничего не пришло)
   const plasticFallbackServices: ApiService[] = useMemo(
@@ -197,24 +208,17 @@ const ServicePage: React.FC = () => {
     return filteredServices;
   }, [direction, filteredServices, plasticFallbackServices]);
 
+  usePageMeta({ ...directionMeta(direction), structuredData: proceduresData(effectiveServices) });
+
   // Группируем услуги по категориям
   const groupedServices = useMemo(() => {
-    return groupServicesByCategory(effectiveServices, direction?.title);
-  }, [effectiveServices, direction]);
+    return serviceTaxonomyService.groupByCategory(effectiveServices, taxonomy);
+  }, [effectiveServices, taxonomy]);
 
   // Получаем доступные категории для текущего направления
   const availableCategories = useMemo(() => {
-    const categories = new Set<string>();
-    Object.keys(groupedServices).forEach((key) => {
-      const categoryId = key.split("-")[0];
-      const category = SERVICE_CATEGORIES.find((c) => c.id === categoryId);
-      if (category) {
-        categories.add(categoryId);
-      }
-    });
-    return Array.from(categories)
-      .map((id) => SERVICE_CATEGORIES.find((c) => c.id === id))
-      .filter(Boolean);
+    const categories = groupedServices.map((group) => group.category);
+    return categories.filter((category, index) => categories.indexOf(category) === index);
   }, [groupedServices]);
 
   // Получаем услуги для выбранной категории
@@ -223,18 +227,32 @@ const ServicePage: React.FC = () => {
       return effectiveServices;
     }
 
-    const categoryServices: ApiService[] = [];
-    Object.entries(groupedServices).forEach(([key, services]) => {
-      if (key.startsWith(selectedCategory)) {
-        categoryServices.push(...services);
-      }
-    });
-
-    return categoryServices;
+    return groupedServices
+      .filter((group) => group.category.id === selectedCategory)
+      .flatMap((group) => group.services);
   }, [selectedCategory, groupedServices, effectiveServices]);
 
+  // Исполнители услуг по связям врач — услуга
+  const doctorsByService = useMemo(() => {
+    const map = new Map<number, ArchimedDoctor[]>();
+    if (!serviceLinks) return map;
+    for (const d of doctors) {
+      for (const id of serviceLinks.doctors[String(d.id)]?.serviceIds || []) {
+        map.set(id, [...(map.get(id) || []), d]);
+      }
+    }
+    return map;
+  }, [doctors, serviceLinks]);
+
+  // Врачи направления — исполнители его услуг; пока связи для направления
+  // не заведены, подбираем по специальности
   const filteredDoctors = useMemo(() => {
     if (!direction) return [] as ArchimedDoctor[];
+    const performers = new Set<ArchimedDoctor>();
+    for (const service of effectiveServices) {
+      for (const d of doctorsByService.get(service.id) || []) performers.add(d);
+    }
+    if (performers.size > 0) return doctors.filter((d) => performers.has(d));
     return doctors.filter((d) => {
       const types = (d?.types || []).map((t) => t.name).join(" ");
       return (
@@ -242,7 +260,7 @@ const ServicePage: React.FC = () => {
         keywordMatch(types, direction.doctorKeywords)
       );
     });
-  }, [doctors, direction]);
+  }, [doctors, direction, effectiveServices, doctorsByService]);
 
   const getServicePrice = (service: ApiService): number => {
     return service.cito_cost > 0 ? service.cito_cost : service.base_cost;
@@ -308,16 +326,16 @@ const ServicePage: React.FC = () => {
                 </button>
                 {availableCategories.map((category) => (
                   <button
-                    key={category!.id}
-                    onClick={() => setSelectedCategory(category!.id)}
+                    key={category.id}
+                    onClick={() => setSelectedCategory(category.id)}
                     className={`px-4 py-2 rounded-full text-sm sm:text-base font-medium transition-colors flex items-center gap-2 ${
-                      selectedCategory === category!.id
+                      selectedCategory === category.id
                         ? "bg-primary text-white"
                         : "bg-gray-200 text-gray-700 hover:bg-gray-300"
                     }`}
                   >
-                    <span>{category!.icon}</span>
-                    {category!.name}
+                    <span>{category.icon}</span>
+                    {category.name}
                   </button>
                 ))}
               </div>
@@ -328,23 +346,14 @@ const ServicePage: React.FC = () => {
           {selectedCategory === "all" ? (
             // Показываем все услуги, сгруппированные по категориям
             <div className="space-y-8">
-              {Object.entries(groupedServices).map(([key, services]) => {
-                const categoryId = key.split("-")[0];
-                const subcategoryId = key.split("-")[1];
-                const category = SERVICE_CATEGORIES.find(
-                  (c) => c.id === categoryId
-                );
-                const subcategory = subcategoryId
-                  ? SERVICE_SUBCATEGORIES.find((s) => s.id === key)
-                  : null;
-
+              {groupedServices.map(({ key, category, subcategory, services }) => {
                 return (
                   <div key={key} className="bg-gray-50 rounded-lg p-4 sm:p-6">
                     <div className="flex items-center gap-3 mb-4">
-                      <span className="text-2xl">{category?.icon}</span>
+                      <span className="text-2xl">{category.icon}</span>
                       <div>
                         <h3 className="text-lg sm:text-xl font-semibold text-gray-900">
-                          {category?.name}
+                          {category.name}
                         </h3>
                         {subcategory && (
                           <p className="text-sm text-gray-600">
@@ -414,6 +423,22 @@ const ServicePage: React.FC = () => {
                       </p>
                     )}
                   </div>
+                  {doctorsByService.has(service.id) && (
+                    <p className="text-gray-600 text-xs sm:text-sm mb-2">
+                      Выполняют:{" "}
+                      {doctorsByService.get(service.id)?.map((doctor, index) => (
+                        <span key={doctor.id}>
+                          {index > 0 && ", "}
+                          <Link
+                            to={`/doctors/${doctor.id}`}
+                            className="text-primary hover:underline"
+                          >
+                            {getDoctorInitials(doctor)}
+                          </Link>
+                        </span>
+                      ))}
+                    </p>
+                  )}
                   <div className="flex justify-between items-center mt-auto pt-3 sm:pt-4">
                     <span className="text-primary font-bold text-base sm:text-lg">
                       {getServicePrice(service).toLocaleString("ru-RU")} ₽
@@ -0,0 +1,258 @@
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import type { ApiService } from '../types/cms';
+import { DIRECTIONS } from '../services/directions';
+import { SERVICE_CATEGORIES, SERVICE_SUBCATEGORIES } from '../services/serviceCategories';
+import serviceTaxonomyService from '../services/serviceTaxonomy';
+import type { ServiceClassification, TaxonomyEntry, TaxonomyKind } from '../services/serviceTaxonomy';
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm';
+
+const directionTitle = (slug: string) => DIRECTIONS.find((d) => d.slug === slug)?.title || slug;
+
+const describe = (classification: ServiceClassification) =>
+  [
+    classification.directions.map(directionTitle).join(', ') || 'без направления',
+    classification.category?.name || 'без категории',
+    classification.subcategory?.name,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+interface MappingEditorProps {
+  initial: ServiceClassification;
+  onSave: (entry: TaxonomyEntry) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Форма сопоставления: заполнена догадкой по ключевым словам, сотрудник подтверждает или правит
+const MappingEditor: React.FC<MappingEditorProps> = ({ initial, onSave, onCancel }) => {
+  const [directions, setDirections] = useState<string[]>(initial.directions);
+  const [category, setCategory] = useState(initial.category?.id || '');
+  const [subcategory, setSubcategory] = useState(initial.subcategory?.id || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const subcategories = SERVICE_SUBCATEGORIES.filter((sub) => sub.parentCategory === category);
+
+  const toggleDirection = (slug: string) => {
+    setDirections((prev) => (prev.includes(slug) ? prev.filter((d) => d !== slug) : [...prev, slug]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({
+        directions,
+        category: category || null,
+        subcategory: subcategories.some((sub) => sub.id === subcategory) ? subcategory : null,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-4 bg-gray-50 rounded space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {DIRECTIONS.map((direction) => (
+          <label key={direction.slug} className="flex items-center gap-1 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={directions.includes(direction.slug)}
+              onChange={() => toggleDirection(direction.slug)}
+            />
+            {direction.title}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+          <option value="">Без категории</option>
+          {SERVICE_CATEGORIES.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <select
+          value={subcategory}
+          onChange={(e) => setSubcategory(e.target.value)}
+          disabled={subcategories.length === 0}
+          className={inputClass}
+        >
+          <option value="">Без подкатегории</option>
+          {subcategories.map((sub) => (
+            <option key={sub.id} value={sub.id}>{sub.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 text-sm bg-primary text-white rounded hover:bg-primaryDark transition-colors disabled:opacity-50"
+        >
+          Сохранить
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-gray-700 hover:underline">
+          Отмена
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface ServiceTaxonomyPanelProps {
+  services: ApiService[];
+  onError: (error: unknown) => void;
+}
+
+// Вкладка панели сотрудника: услуги без явного сопоставления и их сопоставление
+const ServiceTaxonomyPanel: React.FC<ServiceTaxonomyPanelProps> = ({ services, onError }) => {
+  // Новый объект после загрузки и каждого сохранения — отчет пересчитывается
+  const [taxonomy, setTaxonomy] = useState(() => serviceTaxonomyService.getData());
+  const [editing, setEditing] = useState<string | null>(null);
+  const [expandedGroup, setExpandedGroup] = useState<number | null>(null);
+
+  useEffect(() => {
+    serviceTaxonomyService.load().then(setTaxonomy);
+  }, []);
+
+  const report = useMemo(() => serviceTaxonomyService.getReport(services, taxonomy), [services, taxonomy]);
+  const mappedGroups = useMemo(() => {
+    const names = new Map(services.map((s) => [String(s.group_id), s.group_name]));
+    return Object.entries(taxonomy.groups).map(([id, entry]) => ({ id: Number(id), name: names.get(id) || `Группа ${id}`, entry }));
+  }, [services, taxonomy]);
+
+  const save = async (kind: TaxonomyKind, id: number, entry: TaxonomyEntry) => {
+    try {
+      setTaxonomy(await serviceTaxonomyService.saveMapping(kind, id, entry));
+      setEditing(null);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const remove = async (kind: TaxonomyKind, id: number) => {
+    try {
+      setTaxonomy(await serviceTaxonomyService.removeMapping(kind, id));
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        <div className="px-6 py-4 bg-primary text-white">
+          <h2 className="text-xl font-semibold">
+            Без сопоставления ({report.total - report.mapped} из {report.total})
+          </h2>
+          <p className="text-sm opacity-90">
+            Эти услуги классифицируются по ключевым словам. Сопоставление группы действует на все ее услуги.
+          </p>
+        </div>
+
+        {report.unmapped.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">Все услуги сопоставлены</div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {report.unmapped.map((group) => {
+              const groupKey = `groups:${group.groupId}`;
+              return (
+                <div key={group.groupId} className="p-6">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                    <div>
+                      <h3 className="text-lg font-semibold text-dark">{group.groupName || `Группа ${group.groupId}`}</h3>
+                      <button
+                        type="button"
+                        onClick={() => setExpandedGroup(expandedGroup === group.groupId ? null : group.groupId)}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        Услуг: {group.services.length}
+                      </button>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setEditing(editing === groupKey ? null : groupKey)}
+                      className="px-4 py-2 text-sm border border-primary text-primary rounded hover:bg-primary hover:text-white transition-colors"
+                    >
+                      Сопоставить группу
+                    </button>
+                  </div>
+                  {editing === groupKey && (
+                    <MappingEditor
+                      initial={group.services[0].guess}
+                      onSave={(entry) => save('groups', group.groupId, entry)}
+                      onCancel={() => setEditing(null)}
+                    />
+                  )}
+
+                  {expandedGroup === group.groupId && (
+                    <ul className="mt-4 space-y-2">
+                      {group.services.map(({ service, guess }) => {
+                        const serviceKey = `services:${service.id}`;
+                        return (
+                          <li key={service.id} className="text-sm">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                              <span className="text-gray-800">{service.name}</span>
+                              <span className="text-gray-500">
+                                {describe(guess)}{' '}
+                                <button
+                                  type="button"
+                                  onClick={() => setEditing(editing === serviceKey ? null : serviceKey)}
+                                  className="ml-2 text-primary hover:underline"
+                                >
+                                  Сопоставить
+                                </button>
+                              </span>
+                            </div>
+                            {editing === serviceKey && (
+                              <MappingEditor
+                                initial={guess}
+                                onSave={(entry) => save('services', service.id, entry)}
+                                onCancel={() => setEditing(null)}
+                              />
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {mappedGroups.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+          <div className="px-6 py-4 bg-gray-100">
+            <h2 className="text-lg font-semibold text-dark">Сопоставленные группы ({mappedGroups.length})</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {mappedGroups.map(({ id, name, entry }) => (
+              <li key={id} className="px-6 py-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="text-gray-800">{name}</span>
+                <span className="text-gray-500">
+                  {(entry.directions || []).map(directionTitle).join(', ') || 'без направления'}
+                  {entry.updatedBy ? ` · ${entry.updatedBy}` : ''}
+                  <button
+                    type="button"
+                    onClick={() => void remove('groups', id)}
+                    className="ml-3 text-red-600 hover:underline"
+                  >
+                    Сбросить
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceTaxonomyPanel;
@@ -0,0 +1,148 @@
+import type React from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import siteSearchService, {
+  type GroupedSearchResults,
+  SEARCH_RESULT_LABELS,
+  SEARCH_RESULT_TYPES,
+} from "../services/search";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+interface SiteSearchProps {
+  autoFocus?: boolean;
+  // Вызывается после перехода к результату (закрыть меню/панель поиска)
+  onNavigate?: () => void;
+}
+
+// Поле поиска по сайту с выпадающими результатами по группам.
+// Enter без выбранного результата открывает /search со всеми результатами.
+export default function SiteSearch({ autoFocus, onNavigate }: SiteSearchProps) {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GroupedSearchResults | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // Панель поиска в шапке открывается по кнопке — сразу ставим курсор в поле
+  useEffect(() => {
+    if (autoFocus) inputRef.current?.focus();
+  }, [autoFocus]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      siteSearchService
+        .search(query)
+        .then((found) => {
+          if (cancelled) return;
+          setResults(found);
+          setActiveIndex(-1);
+        })
+        .catch((error) => console.error("Site search failed:", error));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  // Плоский список для навигации стрелками
+  const flatResults = useMemo(
+    () => (results ? SEARCH_RESULT_TYPES.flatMap((type) => results[type]) : []),
+    [results]
+  );
+
+  const finish = () => {
+    setIsOpen(false);
+    setQuery("");
+    onNavigate?.();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (flatResults.length === 0) return;
+      setIsOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((prev) => (prev + step + flatResults.length) % flatResults.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const active = flatResults[activeIndex];
+      if (active) navigate(active.url);
+      else if (query.trim()) navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+      else return;
+      finish();
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Поиск врачей, услуг и ответов"
+        aria-label="Поиск по сайту"
+        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+      />
+
+      {isOpen && results && (
+        <div className="absolute left-0 right-0 mt-1 bg-white rounded-md shadow-lg border border-gray-100 max-h-[70vh] overflow-y-auto z-50">
+          {flatResults.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">Ничего не найдено</p>
+          ) : (
+            SEARCH_RESULT_TYPES.filter((type) => results[type].length > 0).map((type) => (
+              <div key={type} className="py-1 border-b border-gray-100 last:border-b-0">
+                <p className="px-4 pt-2 pb-1 text-xs font-semibold uppercase text-gray-400">{SEARCH_RESULT_LABELS[type]}</p>
+                {results[type].map((result) => (
+                  <Link
+                    key={result.id}
+                    to={result.url}
+                    onClick={finish}
+                    className={`block px-4 py-2 hover:bg-gray-50 ${
+                      flatResults[activeIndex]?.id === result.id ? "bg-gray-50" : ""
+                    }`}
+                  >
+                    <span className="block text-sm text-dark">{result.title}</span>
+                    {result.subtitle && <span className="block text-xs text-gray-500 truncate">{result.subtitle}</span>}
+                  </Link>
+                ))}
+              </div>
+            ))
+          )}
+          <Link
+            to={`/search?q=${encodeURIComponent(query.trim())}`}
+            onClick={finish}
+            className="block px-4 py-2 text-sm text-primary hover:bg-gray-50"
+          >
+            Все результаты
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { ScheduleDay, ScheduleSlot } from '../types/cms';
+
+export const formatDayLabel = (dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const date = new Date(y, m - 1, d);
+  return {
+    weekday: date.toLocaleDateString('ru-RU', { weekday: 'short' }),
+    day: date.toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' }),
+  };
+};
+
+interface SlotPickerProps {
+  days: ScheduleDay[];
+  selectedDate: string | null;
+  onSelectDate: (date: string) => void;
+  selectedSlot: ScheduleSlot | null;
+  onSelectSlot: (slot: ScheduleSlot) => void;
+}
+
+// Выбор дня и свободного времени из расписания врача (запись на прием, перенос в личном кабинете)
+export default function SlotPicker({ days, selectedDate, onSelectDate, selectedSlot, onSelectSlot }: SlotPickerProps) {
+  const slotsForSelectedDate = days.find((d) => d.date === selectedDate)?.slots ?? [];
+
+  return (
+    <>
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {days.map((day) => {
+          const label = formatDayLabel(day.date);
+          const isActive = day.date === selectedDate;
+          return (
+            <button
+              key={day.date}
+              type="button"
+              onClick={() => onSelectDate(day.date)}
+              className={`flex-shrink-0 px-3 py-2 rounded-md border text-center transition-colors ${
+                isActive ? 'bg-primary text-white border-primary' : 'border-gray-300 text-gray-700 hover:border-primary'
+              }`}
+            >
+              <span className="block text-xs uppercase">{label.weekday}</span>
+              <span className="block text-sm font-medium">{label.day}</span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="grid grid-cols-4 gap-2 mt-2">
+        {slotsForSelectedDate.map((slot) => {
+          const isActive = selectedSlot?.start === slot.start;
+          return (
+            <button
+              key={slot.start}
+              type="button"
+              onClick={() => onSelectSlot(slot)}
+              className={`px-2 py-2 rounded-md border text-sm transition-colors ${
+                isActive ? 'bg-primary text-white border-primary' : 'border-gray-300 text-gray-700 hover:border-primary'
+              }`}
+            >
+              {slot.time}
+            </button>
+          );
+        })}
+      </div>
+    </>
+  );
+}
@@ -1,14 +1,210 @@
-import React, { useState, useEffect } from 'react';
-import type { ArchimedAppointment, ArchimedDoctor, ApiService } from '../types/cms';
-import archimedService from '../services/archimed';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ArchimedAppointment, ArchimedDoctor, ApiService, AppointmentStatus } from '../types/cms';
+import { useLocation, useNavigate } from 'react-router-dom';
+import archimedService, { ArchimedApiError } from '../services/archimed';
+import authService from '../services/auth';
+import { clinicNow } from '../services/clinicSchedule';
+import staffService, { StaffAuthError } from '../services/staff';
+import DoctorServicesPanel from './DoctorServicesPanel';
+import ServiceTaxonomyPanel from './ServiceTaxonomyPanel';
+import type { CallOutcome, InboxAnnotation, InboxItemType, Lead, LeadStatus } from '../services/staff';
+
+type Tab = 'appointments' | 'leads' | 'taxonomy' | 'doctorServices';
+
+interface Filters {
+  status: string;
+  doctorId: string;
+  serviceId: string;
+  dateFrom: string;
+  dateTo: string;
+  assignee: string; // '' — все, '__me' — мои, '__none' — не назначены
+}
+
+const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'Новая',
+  in_progress: 'В работе',
+  closed: 'Закрыта',
+  spam: 'Спам',
+};
+
+const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  called_back: 'Перезвонили',
+  no_answer: 'Не дозвонились',
+  booked: 'Записан',
+};
+
+const CALL_OUTCOME_STYLES: Record<CallOutcome, string> = {
+  called_back: 'bg-blue-600 text-white border-blue-600',
+  no_answer: 'bg-yellow-500 text-white border-yellow-500',
+  booked: 'bg-green-600 text-white border-green-600',
+};
+
+// Сегодня по времени клиники, а не по UTC
+const today = () => clinicNow().date;
+
+const EMPTY_FILTERS: Filters = {
+  status: '',
+  doctorId: '',
+  serviceId: '',
+  dateFrom: today(),
+  dateTo: '',
+  assignee: '',
+};
+
+const annotationKey = (type: InboxItemType, id: string | number) => `${type}:${id}`;
+
+// Дата записи: время талона, если он выдан на слот, иначе желаемая дата
+const appointmentDateKey = (appointment: ArchimedAppointment) =>
+  (appointment.start || appointment.preferred_date || '').slice(0, 10);
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-sm';
+
+interface InboxActionsProps {
+  type: InboxItemType;
+  id: string | number;
+  annotation?: InboxAnnotation;
+  registrars: string[];
+  onChange: (annotation: InboxAnnotation) => void;
+  onError: (error: unknown) => void;
+}
+
+// Ответственный, результат звонка и внутренние заметки — общие для записей и заявок
+const InboxActions: React.FC<InboxActionsProps> = ({ type, id, annotation, registrars, onChange, onError }) => {
+  const [noteText, setNoteText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (action: () => Promise<InboxAnnotation>) => {
+    try {
+      setIsSaving(true);
+      onChange(await action());
+    } catch (err) {
+      onError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOutcome = (outcome: CallOutcome) => {
+    const next = annotation?.callOutcome === outcome ? null : outcome;
+    void save(() => staffService.updateAnnotation(type, id, { callOutcome: next }));
+  };
+
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = noteText.trim();
+    if (!text) return;
+    void save(async () => {
+      const updated = await staffService.addNote(type, id, text);
+      setNoteText('');
+      return updated;
+    });
+  };
+
+  const assigneeOptions = Array.from(
+    new Set([...registrars, ...(annotation?.assignee ? [annotation.assignee] : [])])
+  );
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm text-gray-600" htmlFor={`assignee-${type}-${id}`}>
+          Ответственный:
+        </label>
+        <select
+          id={`assignee-${type}-${id}`}
+          value={annotation?.assignee || ''}
+          disabled={isSaving}
+          onChange={(e) => void save(() => staffService.updateAnnotation(type, id, { assignee: e.target.value || null }))}
+          className={inputClass}
+        >
+          <option value="">Не назначен</option>
+          {assigneeOptions.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+
+        <div className="flex flex-wrap gap-2 md:ml-4">
+          {(Object.keys(CALL_OUTCOME_LABELS) as CallOutcome[]).map((outcome) => (
+            <button
+              key={outcome}
+              type="button"
+              disabled={isSaving}
+              onClick={() => handleOutcome(outcome)}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                annotation?.callOutcome === outcome
+                  ? CALL_OUTCOME_STYLES[outcome]
+                  : 'bg-white text-gray-700 border-gray-300 hover:border-primary'
+              }`}
+            >
+              {CALL_OUTCOME_LABELS[outcome]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {annotation?.notes.length ? (
+        <ul className="space-y-2">
+          {annotation.notes.map((note) => (
+            <li key={note.id} className="text-sm bg-gray-50 rounded p-2">
+              <span className="text-gray-500">
+                {new Date(note.at).toLocaleString('ru-RU')}{note.author ? `, ${note.author}` : ''}:
+              </span>{' '}
+              <span className="text-gray-800 whitespace-pre-line">{note.text}</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <form onSubmit={handleAddNote} className="flex gap-2">
+        <input
+          type="text"
+          value={noteText}
+          onChange={(e) => setNoteText(e.target.value)}
+          placeholder="Внутренняя заметка"
+          maxLength={1000}
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !noteText.trim()}
+          className="px-4 py-2 text-sm bg-primary text-white rounded hover:bg-primaryDark transition-colors disabled:opacity-50"
+        >
+          Добавить
+        </button>
+      </form>
+    </div>
+  );
+};
 
 const StaffDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [tab, setTab] = useState<Tab>('appointments');
   const [appointments, setAppointments] = useState<ArchimedAppointment[]>([]);
+  const [statuses, setStatuses] = useState<AppointmentStatus[]>([]);
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [annotations, setAnnotations] = useState<Record<string, InboxAnnotation>>({});
+  const [registrars, setRegistrars] = useState<string[]>([]);
   const [doctors, setDoctors] = useState<ArchimedDoctor[]>([]);
   const [services, setServices] = useState<ApiService[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [isLoadingAppointments, setIsLoadingAppointments] = useState(true);
+  const [appointmentsError, setAppointmentsError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+
+  const handleError = useCallback((err: unknown) => {
+    // Сессия истекла и не обновилась — заново на вход, с возвратом в панель
+    if (err instanceof StaffAuthError) {
+      authService.removeToken();
+      navigate('/login', { replace: true, state: { from: location } });
+      return;
+    }
+    console.error('Ошибка панели сотрудника:', err);
+    setActionError('Не удалось сохранить изменения. Попробуйте еще раз.');
+  }, [navigate, location]);
 
   useEffect(() => {
     const loadData = async () => {
@@ -16,16 +212,27 @@ const StaffDashboard: React.FC = () => {
         setIsLoading(true);
         setError(null);
 
-        const [appointmentsData, doctorsData, servicesData] = await Promise.all([
-          archimedService.getAppointments({ page: 1, limit: 100 }),
-          archimedService.getDoctors(),
-          archimedService.getServices(),
-        ]);
+        const [statusesData, doctorsData, servicesData, leadsData, annotationsData, registrarsData] =
+          await Promise.all([
+            archimedService.getAppointmentStatuses(),
+            archimedService.getDoctors(),
+            archimedService.getServices(),
+            staffService.getLeads(),
+            staffService.getAnnotations(),
+            staffService.getRegistrars(),
+          ]);
 
-        setAppointments(appointmentsData.data);
+        setStatuses(statusesData);
         setDoctors(doctorsData);
         setServices(servicesData);
+        setLeads(leadsData);
+        setAnnotations(annotationsData);
+        setRegistrars(registrarsData);
       } catch (err) {
+        if (err instanceof StaffAuthError) {
+          handleError(err);
+          return;
+        }
         console.error('Ошибка загрузки данных:', err);
         setError('Не удалось загрузить данные. Попробуйте позже.');
       } finally {
@@ -34,7 +241,49 @@ const StaffDashboard: React.FC = () => {
     };
 
     loadData();
-  }, []);
+  }, [handleError]);
+
+  // Записи фильтруются на сервере и загружаются всеми страницами: на вкладке заявок
+  // статус в фильтре — статус заявки, поэтому для записей он не передается
+  const { dateFrom, dateTo } = filters;
+  const appointmentStatusId = tab === 'appointments' ? filters.status : '';
+  const appointmentDoctorId = tab === 'appointments' ? filters.doctorId : '';
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoadingAppointments(true);
+    setAppointmentsError(null);
+    archimedService
+      .getAllAppointments({
+        dateFrom: dateFrom || undefined,
+        dateTo: dateTo || undefined,
+        statusId: appointmentStatusId ? Number(appointmentStatusId) : undefined,
+        doctorId: appointmentDoctorId ? Number(appointmentDoctorId) : undefined,
+      })
+      .then((data) => {
+        if (!cancelled) setAppointments(data);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        if (err instanceof ArchimedApiError && (err.status === 401 || err.status === 403)) {
+          handleError(new StaffAuthError());
+          return;
+        }
+        console.error('Ошибка загрузки записей:', err);
+        setAppointments([]);
+        setAppointmentsError('Не удалось загрузить записи на прием. Попробуйте позже.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingAppointments(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dateFrom, dateTo, appointmentStatusId, appointmentDoctorId, handleError]);
+
+  const staffName = authService.getUser()?.name || '';
+  // Назначить можно на любого регистратора из настроек сервера или на себя
+  const assignees = Array.from(new Set([...registrars, ...(staffName ? [staffName] : [])]));
 
   const getDoctorName = (doctorId?: number) => {
     if (!doctorId) return 'Неизвестный врач';
@@ -62,12 +311,77 @@ const StaffDashboard: React.FC = () => {
     return timeString.substring(0, 5); // HH:MM format
   };
 
-  const filteredAppointments = appointments.filter(appointment => {
-    if (!selectedDate) return true;
-    if (!appointment.preferred_date) return false;
-    const appointmentDate = new Date(appointment.preferred_date).toISOString().split('T')[0];
-    return appointmentDate === selectedDate;
-  });
+  const updateFilter = (name: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const switchTab = (next: Tab) => {
+    setTab(next);
+    setFilters((prev) => ({ ...prev, status: '', doctorId: '', serviceId: '' }));
+  };
+
+  const matchesCommonFilters = useCallback(
+    (type: InboxItemType, id: string | number, dateKey: string) => {
+      if (filters.dateFrom && (!dateKey || dateKey < filters.dateFrom)) return false;
+      if (filters.dateTo && (!dateKey || dateKey > filters.dateTo)) return false;
+      const assignee = annotations[annotationKey(type, id)]?.assignee || null;
+      if (filters.assignee === '__me') return Boolean(staffName) && assignee === staffName;
+      if (filters.assignee === '__none') return !assignee;
+      if (filters.assignee) return assignee === filters.assignee;
+      return true;
+    },
+    [filters, annotations, staffName]
+  );
+
+  const filteredAppointments = useMemo(
+    () =>
+      appointments.filter((appointment) => {
+        if (filters.status && appointment.status_id !== Number(filters.status)) return false;
+        if (filters.doctorId && appointment.doctor_id !== Number(filters.doctorId)) return false;
+        if (filters.serviceId && appointment.service_id !== Number(filters.serviceId)) return false;
+        return matchesCommonFilters('appointment', appointment.id, appointmentDateKey(appointment));
+      }),
+    [appointments, filters, matchesCommonFilters]
+  );
+
+  const filteredLeads = useMemo(
+    () =>
+      leads.filter((lead) => {
+        if (filters.status && lead.status !== filters.status) return false;
+        return matchesCommonFilters('lead', lead.id, lead.createdAt.slice(0, 10));
+      }),
+    [leads, filters, matchesCommonFilters]
+  );
+
+  const handleAnnotationChange = (annotation: InboxAnnotation) => {
+    setActionError(null);
+    setAnnotations((prev) => ({ ...prev, [annotationKey(annotation.type, annotation.id)]: annotation }));
+  };
+
+  const handleAppointmentStatus = async (appointment: ArchimedAppointment, statusId: number) => {
+    try {
+      setActionError(null);
+      const updated = await archimedService.updateAppointment(appointment.id, { statusId });
+      setAppointments((prev) => prev.map((a) => (a.id === appointment.id ? { ...a, ...updated } : a)));
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleLeadStatus = async (lead: Lead, status: LeadStatus) => {
+    try {
+      setActionError(null);
+      const updated = await staffService.updateLeadStatus(lead.id, status);
+      setLeads((prev) => prev.map((l) => (l.id === lead.id ? updated : l)));
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleLogout = async () => {
+    await authService.logout();
+    navigate('/', { replace: true });
+  };
 
   if (isLoading) {
     return (
@@ -101,117 +415,324 @@ const StaffDashboard: React.FC = () => {
     );
   }
 
+  const visibleCount = tab === 'appointments' ? filteredAppointments.length : filteredLeads.length;
+  // Записи и заявки — общий список с фильтрами; остальные вкладки — справочники
+  const isInboxTab = tab === 'appointments' || tab === 'leads';
+  const newLeadsCount = leads.filter((lead) => lead.status === 'new').length;
+
   return (
     <div className="min-h-screen bg-gray-50 py-12">
       <div className="container mx-auto px-4">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-dark mb-4">Панель сотрудника</h1>
-          <p className="text-lg text-gray-600">Управление записями пациентов</p>
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-dark mb-4">Панель сотрудника</h1>
+            <p className="text-lg text-gray-600">Записи пациентов и заявки с сайта</p>
+          </div>
+          <div className="text-sm text-gray-600">
+            {staffName}{' '}
+            <button onClick={handleLogout} className="ml-2 text-primary hover:underline">
+              Выйти
+            </button>
+          </div>
         </div>
 
-        {/* Date Filter */}
-        <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
-          <div className="flex items-center space-x-4">
-            <label htmlFor="date-filter" className="text-sm font-medium text-gray-700">
-              Фильтр по дате:
-            </label>
-            <input
-              id="date-filter"
-              type="date"
-              value={selectedDate}
-              onChange={(e) => setSelectedDate(e.target.value)}
-              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-            />
-          </div>
+        {/* Tabs */}
+        <div className="flex space-x-2 mb-6">
+          <button
+            onClick={() => switchTab('appointments')}
+            className={`px-4 py-2 rounded-md font-medium transition-colors ${
+              tab === 'appointments' ? 'bg-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            Записи на прием
+          </button>
+          <button
+            onClick={() => switchTab('leads')}
+            className={`px-4 py-2 rounded-md font-medium transition-colors ${
+              tab === 'leads' ? 'bg-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            Заявки с сайта{newLeadsCount > 0 ? ` (${newLeadsCount} новых)` : ''}
+          </button>
+          <button
+            onClick={() => switchTab('taxonomy')}
+            className={`px-4 py-2 rounded-md font-medium transition-colors ${
+              tab === 'taxonomy' ? 'bg-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            Таксономия услуг
+          </button>
+          <button
+            onClick={() => switchTab('doctorServices')}
+            className={`px-4 py-2 rounded-md font-medium transition-colors ${
+              tab === 'doctorServices' ? 'bg-primary text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            Услуги врачей
+          </button>
         </div>
 
-        {/* Appointments List */}
-        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
-          <div className="px-6 py-4 bg-primary text-white">
-            <h2 className="text-xl font-semibold">
-              Записи на {formatDate(selectedDate)} ({filteredAppointments.length})
-            </h2>
+        {/* Filters */}
+        {isInboxTab && (
+          <div className="bg-white rounded-lg shadow-lg p-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              <div className="flex flex-col">
+                <label htmlFor="status-filter" className="text-sm font-medium text-gray-700 mb-1">Статус</label>
+                <select
+                  id="status-filter"
+                  value={filters.status}
+                  onChange={(e) => updateFilter('status', e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Все</option>
+                  {tab === 'appointments'
+                    ? statuses.map((status) => (
+                        <option key={status.id} value={status.id}>{status.name}</option>
+                      ))
+                    : (Object.keys(LEAD_STATUS_LABELS) as LeadStatus[]).map((status) => (
+                        <option key={status} value={status}>{LEAD_STATUS_LABELS[status]}</option>
+                      ))}
+                </select>
+              </div>
+
+              {tab === 'appointments' && (
+                <>
+                  <div className="flex flex-col">
+                    <label htmlFor="doctor-filter" className="text-sm font-medium text-gray-700 mb-1">Врач</label>
+                    <select
+                      id="doctor-filter"
+                      value={filters.doctorId}
+                      onChange={(e) => updateFilter('doctorId', e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">Все</option>
+                      {doctors.map((doctor) => (
+                        <option key={doctor.id} value={doctor.id}>{getDoctorName(doctor.id)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-col">
+                    <label htmlFor="service-filter" className="text-sm font-medium text-gray-700 mb-1">Услуга</label>
+                    <select
+                      id="service-filter"
+                      value={filters.serviceId}
+                      onChange={(e) => updateFilter('serviceId', e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">Все</option>
+                      {services.map((service) => (
+                        <option key={service.id} value={service.id}>{service.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              )}
+
+              <div className="flex flex-col">
+                <label htmlFor="date-from-filter" className="text-sm font-medium text-gray-700 mb-1">Дата с</label>
+                <input
+                  id="date-from-filter"
+                  type="date"
+                  value={filters.dateFrom}
+                  onChange={(e) => updateFilter('dateFrom', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="date-to-filter" className="text-sm font-medium text-gray-700 mb-1">по</label>
+                <input
+                  id="date-to-filter"
+                  type="date"
+                  value={filters.dateTo}
+                  onChange={(e) => updateFilter('dateTo', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label htmlFor="assignee-filter" className="text-sm font-medium text-gray-700 mb-1">Ответственный</label>
+                <select
+                  id="assignee-filter"
+                  value={filters.assignee}
+                  onChange={(e) => updateFilter('assignee', e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Все</option>
+                  <option value="__me">Мои</option>
+                  <option value="__none">Не назначены</option>
+                  {registrars.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <button
+              onClick={() => setFilters({ ...EMPTY_FILTERS, dateFrom: '' })}
+              className="mt-4 text-sm text-primary hover:underline"
+            >
+              Сбросить фильтры
+            </button>
           </div>
+        )}
+
+        {actionError && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">{actionError}</div>
+        )}
 
-          {filteredAppointments.length === 0 ? (
-            <div className="p-8 text-center text-gray-500">
-              <svg className="w-16 h-16 mx-auto mb-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>
-              <p className="text-lg">На выбранную дату записей нет</p>
+        {tab === 'taxonomy' ? (
+          <ServiceTaxonomyPanel services={services} onError={handleError} />
+        ) : tab === 'doctorServices' ? (
+          <DoctorServicesPanel doctors={doctors} services={services} onError={handleError} />
+        ) : (
+          /* Inbox List */
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+            <div className="px-6 py-4 bg-primary text-white">
+              <h2 className="text-xl font-semibold">
+                {tab === 'appointments' ? 'Записи' : 'Заявки'} ({visibleCount})
+              </h2>
             </div>
-          ) : (
-            <div className="divide-y divide-gray-200">
-              {filteredAppointments.map((appointment) => (
-                <div key={appointment.id} className="p-6 hover:bg-gray-50 transition-colors">
-                  <div className="flex flex-col md:flex-row md:items-center md:justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-4 mb-2">
-                        <h3 className="text-lg font-semibold text-dark">
-                          {appointment.patient_name}
-                        </h3>
-                        <span className="px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
-                          ID: {appointment.id}
-                        </span>
-                      </div>
-                      
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
-                        <div>
-                          <span className="font-medium">Врач:</span> {getDoctorName(appointment.doctor_id)}
-                        </div>
-                        <div>
-                          <span className="font-medium">Услуга:</span> {getServiceName(appointment.service_id)}
-                        </div>
-                        <div>
-                          <span className="font-medium">Дата:</span> {formatDate(appointment.preferred_date)}
-                        </div>
-                        <div>
-                          <span className="font-medium">Время:</span> {formatTime(appointment.preferred_time)}
-                        </div>
-                        <div>
-                          <span className="font-medium">Телефон:</span> {appointment.patient_phone}
+
+            {tab === 'appointments' && appointmentsError ? (
+              <div className="p-8 text-center text-red-600">{appointmentsError}</div>
+            ) : tab === 'appointments' && isLoadingAppointments ? (
+              <div className="p-8 text-center text-gray-500">Загрузка записей...</div>
+            ) : visibleCount === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                <svg className="w-16 h-16 mx-auto mb-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                <p className="text-lg">По выбранным фильтрам ничего нет</p>
+              </div>
+            ) : tab === 'appointments' ? (
+              <div className="divide-y divide-gray-200">
+                {filteredAppointments.map((appointment) => (
+                  <div key={appointment.id} className="p-6 hover:bg-gray-50 transition-colors">
+                    <div className="flex flex-col md:flex-row md:items-start md:justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-4 mb-2">
+                          <h3 className="text-lg font-semibold text-dark">
+                            {appointment.patient_name}
+                          </h3>
+                          <span className="px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
+                            ID: {appointment.id}
+                          </span>
                         </div>
-                        <div>
-                          <span className="font-medium">Email:</span> {appointment.patient_email}
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
+                          <div>
+                            <span className="font-medium">Врач:</span> {getDoctorName(appointment.doctor_id)}
+                          </div>
+                          <div>
+                            <span className="font-medium">Услуга:</span> {getServiceName(appointment.service_id)}
+                          </div>
+                          <div>
+                            <span className="font-medium">Дата:</span> {formatDate(appointmentDateKey(appointment))}
+                          </div>
+                          <div>
+                            <span className="font-medium">Время:</span> {formatTime(appointment.preferred_time)}
+                          </div>
+                          <div>
+                            <span className="font-medium">Телефон:</span>{' '}
+                            <a href={`tel:${appointment.patient_phone}`} className="text-primary hover:underline">
+                              {appointment.patient_phone}
+                            </a>
+                          </div>
+                          <div>
+                            <span className="font-medium">Email:</span> {appointment.patient_email}
+                          </div>
                         </div>
+
+                        {appointment.comments && (
+                          <div className="mt-3">
+                            <span className="font-medium text-gray-700">Комментарии:</span>
+                            <p className="text-gray-600 mt-1">{appointment.comments}</p>
+                          </div>
+                        )}
                       </div>
 
-                      {appointment.comments && (
-                        <div className="mt-3">
-                          <span className="font-medium text-gray-700">Комментарии:</span>
-                          <p className="text-gray-600 mt-1">{appointment.comments}</p>
-                        </div>
-                      )}
+                      <div className="mt-4 md:mt-0 md:ml-6">
+                        <label htmlFor={`status-${appointment.id}`} className="block text-sm text-gray-600 mb-1">
+                          Статус
+                        </label>
+                        <select
+                          id={`status-${appointment.id}`}
+                          value={appointment.status_id}
+                          onChange={(e) => void handleAppointmentStatus(appointment, Number(e.target.value))}
+                          className={inputClass}
+                        >
+                          {!statuses.some((s) => s.id === appointment.status_id) && (
+                            <option value={appointment.status_id}>Статус {appointment.status_id}</option>
+                          )}
+                          {statuses.map((status) => (
+                            <option key={status.id} value={status.id}>{status.name}</option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
 
-                    <div className="mt-4 md:mt-0 md:ml-6">
-                      <div className="flex space-x-2">
-                        <button
-                          onClick={() => {
-                            // Handle appointment update
-                            console.log('Update appointment:', appointment.id);
-                          }}
-                          className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
-                        >
-                          Изменить
-                        </button>
-                        <button
-                          onClick={() => {
-                            // Handle appointment cancellation
-                            console.log('Cancel appointment:', appointment.id);
-                          }}
-                          className="px-4 py-2 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                    <InboxActions
+                      type="appointment"
+                      id={appointment.id}
+                      annotation={annotations[annotationKey('appointment', appointment.id)]}
+                      registrars={assignees}
+                      onChange={handleAnnotationChange}
+                      onError={handleError}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {filteredLeads.map((lead) => (
+                  <div key={lead.id} className="p-6 hover:bg-gray-50 transition-colors">
+                    <div className="flex flex-col md:flex-row md:items-start md:justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-4 mb-2">
+                          <h3 className="text-lg font-semibold text-dark">{lead.name}</h3>
+                          <span className="text-xs text-gray-500">{new Date(lead.createdAt).toLocaleString('ru-RU')}</span>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
+                          <div>
+                            <span className="font-medium">Телефон:</span>{' '}
+                            <a href={`tel:${lead.phone}`} className="text-primary hover:underline">{lead.phone}</a>
+                          </div>
+                          <div>
+                            <span className="font-medium">Email:</span> {lead.email}
+                          </div>
+                        </div>
+                        <p className="text-gray-700 mt-3 whitespace-pre-line">{lead.message}</p>
+                      </div>
+
+                      <div className="mt-4 md:mt-0 md:ml-6">
+                        <label htmlFor={`lead-status-${lead.id}`} className="block text-sm text-gray-600 mb-1">
+                          Статус
+                        </label>
+                        <select
+                          id={`lead-status-${lead.id}`}
+                          value={lead.status}
+                          onChange={(e) => void handleLeadStatus(lead, e.target.value as LeadStatus)}
+                          className={inputClass}
                         >
-                          Отменить
-                        </button>
+                          {(Object.keys(LEAD_STATUS_LABELS) as LeadStatus[]).map((status) => (
+                            <option key={status} value={status}>{LEAD_STATUS_LABELS[status]}</option>
+                          ))}
+                        </select>
                       </div>
                     </div>
+
+                    <InboxActions
+                      type="lead"
+                      id={lead.id}
+                      annotation={annotations[annotationKey('lead', lead.id)]}
+                      registrars={assignees}
+                      onChange={handleAnnotationChange}
+                      onError={handleError}
+                    />
                   </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
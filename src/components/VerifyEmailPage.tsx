@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import authService from "../services/auth";
+import AuthCard, { AuthError, AuthNotice } from "./AuthCard";
+
+type VerifyState = "verifying" | "verified" | "failed";
+
+// Ссылка из письма: /verify-email?token=...
+export default function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [state, setState] = useState<VerifyState>(token ? "verifying" : "failed");
+  const [error, setError] = useState(token ? "" : "Ссылка подтверждения неполная");
+  // В StrictMode эффект вызывается дважды, а токен одноразовый
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    authService
+      .verifyEmail(token)
+      .then(() => setState("verified"))
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Не удалось подтвердить email");
+        setState("failed");
+      });
+  }, [token]);
+
+  return (
+    <AuthCard title="Подтверждение email">
+      {state === "verifying" && (
+        <div className="text-center py-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary mx-auto mb-4" />
+          <p className="text-gray-600">Проверяем ссылку...</p>
+        </div>
+      )}
+      {state === "verified" && (
+        <div className="space-y-4 text-center">
+          <AuthNotice message="Email подтвержден. Спасибо!" />
+          <Link to="/" className="text-primary hover:underline">
+            На главную
+          </Link>
+        </div>
+      )}
+      {state === "failed" && (
+        <div className="space-y-4 text-center">
+          <AuthError message={error} />
+          <p className="text-sm text-gray-600">
+            Ссылка могла устареть. Войдите в аккаунт и запросите новое письмо или{" "}
+            <Link to="/contacts" className="text-primary hover:underline">
+              свяжитесь с нами
+            </Link>
+            .
+          </p>
+        </div>
+      )}
+    </AuthCard>
+  );
+}
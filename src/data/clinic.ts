@@ -0,0 +1,29 @@
+// Сведения о клинике без Directus: адрес, телефоны, почта и часы работы.
+// Редактируются в Directus (clinic_info, contacts); здесь — запасной вариант.
+
+import type { ClinicInfo, Contact } from '../types/cms';
+
+export const CLINIC_INFO_FALLBACK: ClinicInfo = {
+    id: 'fallback',
+    name: 'Клиника Алдан',
+    description: '',
+    address: '667000, Республика Тыва, город Кызыл, ул. Ленина, д. 60, офис 1',
+    working_hours: {
+        monday: '08:00-22:00',
+        tuesday: '08:00-22:00',
+        wednesday: '08:00-22:00',
+        thursday: '08:00-22:00',
+        friday: '08:00-22:00',
+        saturday: '09:00-18:00',
+        sunday: '09:00-18:00',
+    },
+    logo: '',
+    about_text: '',
+    advantages: [],
+};
+
+export const CLINIC_CONTACTS_FALLBACK: Contact[] = [
+    { id: 'phone-1', type: 'phone', value: '+7 (923) 317-60-60', label: 'Регистратура', is_primary: true },
+    { id: 'phone-2', type: 'phone', value: '+7 (923) 381-60-60', label: 'Регистратура', is_primary: false },
+    { id: 'email-1', type: 'email', value: 'clinicaldan@mail.ru', label: 'Почта', is_primary: true },
+];
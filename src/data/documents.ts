@@ -0,0 +1,110 @@
+// Документы клиники без Directus — список, который раньше был зашит в DocumentsPage.
+// Актуальные документы загружаются в Directus (коллекция documents).
+
+export interface DocumentLink {
+    id: string;
+    title: string;
+    description: string;
+    url: string;
+    fileType: string;
+    fileSize: string;
+}
+
+export const DOCUMENTS_FALLBACK: DocumentLink[] = [
+    {
+        id: '1',
+        title: 'Лицензия на медицинскую деятельность',
+        description: 'Лицензия на осуществление медицинской деятельности',
+        url: 'https://clinicaldan.ru/upload/iblock/f4b/70jj4rxxrs5otk5k73lp87r10e7ea2j0.pdf',
+        fileType: 'PDF',
+        fileSize: '2.1 MB',
+    },
+    {
+        id: '2',
+        title: 'Свидетельство о государственной регистрации',
+        description: 'Свидетельство о государственной регистрации юридического лица',
+        url: 'https://clinicaldan.ru/upload/iblock/d01/d01f535a0a6bf5cc9394eb2bf0f38438.jpg',
+        fileType: 'PDF',
+        fileSize: '1.8 MB',
+    },
+    {
+        id: '3',
+        title: 'Порядок записи',
+        description: 'Порядок записи',
+        url: 'https://clinicaldan.ru/upload/iblock/62a/62ab4cdae4befe8c5596fda9b2d6198a.doc',
+        fileType: 'PDF',
+        fileSize: '0.9 MB',
+    },
+    {
+        id: '4',
+        title: 'Правила внутреннего распорядка',
+        description: 'Правила внутреннего трудового распорядка',
+        url: 'https://clinicaldan.ru/upload/iblock/0eb/0eb1b06986fb47255992bcc389ce6f73.docx',
+        fileType: 'PDF',
+        fileSize: '1.5 MB',
+    },
+    {
+        id: '5',
+        title: 'Договор оказания платных медицинских услуг',
+        description: 'Правила оказания платных медицинских услуг',
+        url: 'https://clinicaldan.ru/upload/iblock/b11/b117be5ed3e4155d214105ea7fa24a07.doc',
+        fileType: 'PDF',
+        fileSize: '1.5 MB',
+    },
+    {
+        id: '6',
+        title: 'ПРАВИЛА ВНУТРЕННЕГО РАСПОРЯДКА ДЛЯ ПАЦИЕНТОВ МЕДИЦИНСКОГО ЦЕНТРА ООО «АЛДАН»',
+        description: 'ПРАВИЛА ВНУТРЕННЕГО РАСПОРЯДКА ДЛЯ ПАЦИЕНТОВ МЕДИЦИНСКОГО ЦЕНТРА ООО «АЛДАН»',
+        url: '/documents/document1.docx',
+        fileType: 'PDF',
+        fileSize: '1.5 MB',
+    },
+    {
+        id: '7',
+        title: 'Порядок записи на первичный прием (консультацию, обследование)',
+        description: 'Порядок записи на первичный прием (консультацию, обследование)',
+        url: '/documents/document2.docx',
+        fileType: 'PDF',
+        fileSize: '1.5 MB',
+    },
+    {
+        id: '8',
+        title: 'Выписка из реестра',
+        description: 'Выписка из реестра',
+        url: '/documents/document3.pdf',
+        fileType: 'PDF',
+        fileSize: '1.5 MB',
+    },
+    {
+        id: '9',
+        title: 'Свидетельство о государственной регистрации юридического лица',
+        description: 'Свидетельство о государственной регистрации юридического лица',
+        url: '/documents/document4.jpg',
+        fileType: 'PDF',
+        fileSize: '1.5 MB',
+    },
+    {
+        id: '10',
+        title: 'Договор оказания платных медицинских услуг № ___',
+        description: 'Договор оказания платных медицинских услуг № ___',
+        url: '/documents/document5.doc',
+        fileType: 'PDF',
+        fileSize: '1.5 MB',
+    },
+    {
+        id: '11',
+        title: 'Политика конфиденциальности',
+        description: 'Политика конфиденциальности клиники',
+        url: '/documents/utverzhdeno.pdf',
+        fileType: 'PDF',
+        fileSize: '—',
+    },
+    {
+        id: '12',
+        title: 'Согласие на обработку персональных данных на сайте',
+        description: 'Согласие на обработку персональных данных, размещенных на сайте',
+        url: '/documents/согласие_на_персданные_на_сайт.docx',
+        fileType: 'DOCX',
+        fileSize: '—',
+    },
+];
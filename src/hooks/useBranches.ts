@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiService } from '../types/cms';
+import branchService, { applyBranchPrices, type Branch } from '../services/branches';
+
+export const useBranches = (): Branch[] => {
+    const [branches, setBranches] = useState<Branch[]>(() => branchService.peekBranches());
+
+    useEffect(() => {
+        let cancelled = false;
+        branchService.getBranches().then((loaded) => {
+            if (!cancelled) setBranches(loaded);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    return branches;
+};
+
+// Выбранный филиал общий для всех страниц и вкладок; null — все филиалы.
+// Сохраненный филиал, которого больше нет в списке, не учитывается
+export const useSelectedBranch = () => {
+    const branches = useBranches();
+    const [storedBranchId, setStoredBranchId] = useState<number | null>(() => branchService.getSelectedBranchId());
+
+    useEffect(() => branchService.subscribe(setStoredBranchId), []);
+
+    const selectBranch = useCallback((id: number | null) => branchService.selectBranch(id), []);
+    const branch = branches.find((b) => b.id === storedBranchId) || null;
+
+    return {
+        branchId: branch ? branch.id : null,
+        branch,
+        branches,
+        selectBranch,
+    };
+};
+
+// Цены филиала: branchId врача или, если не задан, выбранный посетителем филиал
+export const useBranchPrices = (branchId?: number | null) => {
+    const { branchId: selectedBranchId } = useSelectedBranch();
+    const [prices, setPrices] = useState(() => branchService.peekPrices());
+
+    useEffect(() => {
+        let cancelled = false;
+        branchService.getPrices().then((loaded) => {
+            if (!cancelled) setPrices(loaded);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const effectiveBranchId = branchId ?? selectedBranchId;
+    return useCallback(
+        (services: ApiService[]) => applyBranchPrices(services, prices, effectiveBranchId),
+        [prices, effectiveBranchId]
+    );
+};
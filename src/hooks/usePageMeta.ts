@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import { canonicalUrl, metaTags, pageTitle, type PageMeta } from '../services/seo';
+
+// Мета страницы могут задавать несколько компонентов сразу: RouteMeta — по адресу,
+// страница — по загруженным данным. Действует мета последнего подключившегося
+// компонента, у которого она уже есть; после его размонтирования — предыдущего.
+const entries: { meta: PageMeta | null }[] = [];
+
+function setMetaTag(attribute: string, key: string, content: string) {
+    let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+    if (!element) {
+        element = document.createElement('meta');
+        element.setAttribute(attribute, key);
+        document.head.appendChild(element);
+    }
+    element.setAttribute('content', content);
+}
+
+function applyPageMeta(meta: PageMeta) {
+    document.title = pageTitle(meta.title);
+    for (const tag of metaTags(meta)) setMetaTag(tag.attribute, tag.key, tag.content);
+
+    let canonical = document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+    if (!canonical) {
+        canonical = document.createElement('link');
+        canonical.rel = 'canonical';
+        document.head.appendChild(canonical);
+    }
+    canonical.href = canonicalUrl(meta.path);
+
+    // Разметка пререндера и предыдущей страницы заменяется целиком
+    for (const script of document.head.querySelectorAll('script[type="application/ld+json"]')) script.remove();
+    for (const data of meta.structuredData || []) {
+        const script = document.createElement('script');
+        script.type = 'application/ld+json';
+        script.textContent = JSON.stringify(data);
+        document.head.appendChild(script);
+    }
+}
+
+function applyCurrent() {
+    const current = [...entries].reverse().find((entry) => entry.meta);
+    if (current?.meta) applyPageMeta(current.meta);
+}
+
+// null — данные еще загружаются, действует мета предыдущего уровня
+export const usePageMeta = (meta: PageMeta | null) => {
+    const entry = useRef<{ meta: PageMeta | null }>({ meta: null });
+    // Сравнение по содержимому: страницам не нужно мемоизировать объект меты
+    const serialized = meta ? JSON.stringify(meta) : '';
+
+    useEffect(() => {
+        const current = entry.current;
+        entries.push(current);
+        return () => {
+            entries.splice(entries.indexOf(current), 1);
+            applyCurrent();
+        };
+    }, []);
+
+    useEffect(() => {
+        entry.current.meta = serialized ? (JSON.parse(serialized) as PageMeta) : null;
+        applyCurrent();
+    }, [serialized]);
+};
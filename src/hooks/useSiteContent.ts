@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useState } from 'react';
+import { formatOpenStatus, getOpenStatus } from '../services/clinicSchedule';
+import siteContentService, { scheduleForBranch } from '../services/siteContent';
+
+// Первый рендер — из кэша или запасных данных, после загрузки из Directus — актуальные
+const useLoaded = <T>(peek: () => T, load: () => Promise<T>): T => {
+    const [value, setValue] = useState<T>(peek);
+
+    useEffect(() => {
+        let cancelled = false;
+        load().then((loaded) => {
+            if (!cancelled) setValue(loaded);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [load]);
+
+    return value;
+};
+
+const peekClinic = () => siteContentService.peekClinic();
+const loadClinic = () => siteContentService.getClinic();
+const peekFAQ = () => siteContentService.peekFAQ();
+const loadFAQ = () => siteContentService.getFAQ();
+const peekDocuments = () => siteContentService.peekDocuments();
+const loadDocuments = () => siteContentService.getDocuments();
+
+export const useClinicDetails = () => useLoaded(peekClinic, loadClinic);
+
+export const useFAQ = () => useLoaded(peekFAQ, loadFAQ);
+
+export const useDocuments = () => useLoaded(peekDocuments, loadDocuments);
+
+// "Открыто до 22:00" / "Закрыто, откроется завтра в 09:00"; пересчитывается раз в минуту
+export const useOpenStatus = (branchId?: number | null) => {
+    const clinic = useClinicDetails();
+    const [now, setNow] = useState(() => new Date());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), 60_000);
+        return () => clearInterval(timer);
+    }, []);
+
+    return useMemo(() => {
+        const status = getOpenStatus(scheduleForBranch(clinic, branchId), now);
+        return { ...status, label: formatOpenStatus(status, now) };
+    }, [clinic, branchId, now]);
+};
@@ -0,0 +1,177 @@
+// Точка входа пререндера: scripts/prerender.mjs собирает ее в режиме SSR и записывает
+// HTML страниц в dist. Разметка упрощенная — только текст и ссылки для поисковиков;
+// при загрузке приложения React заменяет ее полноценной страницей.
+import { renderToStaticMarkup } from "react-dom/server";
+import type { ReactNode } from "react";
+import type { FAQItem } from "./data/faq";
+import archimedService, { isPublicDoctor } from "./services/archimed";
+import branchService, { type Branch } from "./services/branches";
+import { DIRECTIONS, keywordMatch, type DirectionConfig } from "./services/directions";
+import { STATIC_PAGES, clinicData, directionMeta, doctorFullName, doctorMeta, type PageMeta } from "./services/seo";
+import siteContentService, { type ClinicDetails } from "./services/siteContent";
+import type { ArchimedDoctor } from "./types/cms";
+
+export { canonicalUrl, metaTags, pageTitle } from "./services/seo";
+
+export interface PrerenderedPage extends PageMeta {
+  html: string;
+}
+
+// Без связей врач-услуга направление определяется по специальности, как на ServicePage
+const directionDoctors = (direction: DirectionConfig, doctors: ArchimedDoctor[]) =>
+  doctors.filter(
+    (d) =>
+      keywordMatch(d.type, direction.doctorKeywords) ||
+      keywordMatch((d.types || []).map((t) => t.name).join(" "), direction.doctorKeywords)
+  );
+
+function PageLayout({ meta, children }: { meta: PageMeta; children?: ReactNode }) {
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <h1 className="text-3xl md:text-4xl font-bold mb-4">{meta.title}</h1>
+      <p className="text-gray-600 mb-8">{meta.description}</p>
+      {children}
+    </div>
+  );
+}
+
+function DoctorList({ doctors }: { doctors: ArchimedDoctor[] }) {
+  if (doctors.length === 0) return null;
+  return (
+    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {doctors.map((doctor) => (
+        <li key={doctor.id}>
+          <a href={`/doctors/${doctor.id}`} className="text-primary hover:underline">
+            {doctorFullName(doctor)}
+          </a>{" "}
+          <span className="text-gray-500">{doctor.type}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DirectionList({ directions }: { directions: DirectionConfig[] }) {
+  if (directions.length === 0) return null;
+  return (
+    <ul className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+      {directions.map((direction) => (
+        <li key={direction.slug}>
+          <a href={`/services/${direction.slug}`} className="text-primary hover:underline">
+            {direction.title}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DoctorContent({ doctor }: { doctor: ArchimedDoctor }) {
+  const directions = DIRECTIONS.filter((direction) => directionDoctors(direction, [doctor]).length > 0);
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <h1 className="text-3xl md:text-4xl font-bold mb-2">{doctorFullName(doctor)}</h1>
+      <p className="text-xl text-gray-600 mb-4">{doctor.type}</p>
+      {(doctor.info || "").split("\n").map((line) => line.trim() && <p key={line}>{line}</p>)}
+      {doctor.branch && <p className="text-gray-600">{doctor.branch}</p>}
+      {directions.length > 0 && (
+        <>
+          <h2 className="text-2xl font-semibold mt-8 mb-4">Направления</h2>
+          <DirectionList directions={directions} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function ContactsContent({ clinic }: { clinic: ClinicDetails }) {
+  return (
+    <div className="space-y-2">
+      <p>{clinic.address}</p>
+      {clinic.phones.map((phone) => (
+        <p key={phone.value}>
+          <a href={phone.href}>{phone.value}</a> {phone.label}
+        </p>
+      ))}
+      {clinic.email && <p>{clinic.email}</p>}
+      {clinic.hoursSummary.map((line) => (
+        <p key={line}>{line}</p>
+      ))}
+    </div>
+  );
+}
+
+function FAQContent({ items }: { items: FAQItem[] }) {
+  return (
+    <dl className="space-y-4">
+      {items.map((item) => (
+        <div key={item.id}>
+          <dt className="font-semibold">{item.question}</dt>
+          <dd className="text-gray-600">{item.answer}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+// Содержимое статических страниц, для которых есть что показать без приложения
+function staticContent(meta: PageMeta, doctors: ArchimedDoctor[], clinic: ClinicDetails, faq: FAQItem[]): ReactNode {
+  switch (meta.path) {
+    case "/":
+      return <DirectionList directions={DIRECTIONS} />;
+    case "/doctors":
+      return <DoctorList doctors={doctors} />;
+    case "/contacts":
+      return <ContactsContent clinic={clinic} />;
+    case "/questions":
+      return <FAQContent items={faq} />;
+    default:
+      return null;
+  }
+}
+
+// Данные берутся из тех же источников, что и в браузере, с теми же запасными вариантами:
+// без сети на сборке врачи — из src/data/doctors.json, контакты и FAQ — из src/data
+export async function renderPages(): Promise<PrerenderedPage[]> {
+  const [doctors, clinic, faq, branches] = await Promise.all([
+    archimedService
+      .getDoctors()
+      .then((list) => list.filter(isPublicDoctor))
+      .catch(() => [] as ArchimedDoctor[]),
+    siteContentService.getClinic(),
+    siteContentService.getFAQ(),
+    branchService.getBranches().catch(() => [] as Branch[]),
+  ]);
+
+  const pages: PrerenderedPage[] = STATIC_PAGES.map((meta) => ({
+    ...meta,
+    structuredData: meta.path === "/contacts" ? clinicData(clinic, branches) : meta.structuredData,
+    html: renderToStaticMarkup(<PageLayout meta={meta}>{staticContent(meta, doctors, clinic, faq)}</PageLayout>),
+  }));
+
+  for (const direction of DIRECTIONS) {
+    const meta = directionMeta(direction);
+    const list = directionDoctors(direction, doctors);
+    pages.push({
+      ...meta,
+      html: renderToStaticMarkup(
+        <PageLayout meta={meta}>
+          {list.length > 0 && <h2 className="text-2xl font-semibold mb-4">Врачи направления</h2>}
+          <DoctorList doctors={list} />
+          <p className="mt-8">
+            <a href="/prices" className="text-primary hover:underline">
+              Цены на услуги
+            </a>
+          </p>
+        </PageLayout>
+      ),
+    });
+  }
+
+  for (const doctor of doctors) {
+    const address = branches.find((b) => b.id === doctor.branch_id)?.address || doctor.address;
+    pages.push({ ...doctorMeta(doctor, address), html: renderToStaticMarkup(<DoctorContent doctor={doctor} />) });
+  }
+
+  return pages;
+}
@@ -1,3 +1,4 @@
+import authService from './auth';
 import type {
   ArchimedDoctor,
   ArchimedZone,
@@ -5,24 +6,24 @@ import type {
   ArchimedCategory,
   ArchimedScientificDegree,
   ApiService,
+  DoctorServiceLinks,
   AppointmentData,
+  AppointmentFilters,
   ArchimedAppointment,
-  AppointmentStatus
+  AppointmentStatus,
+  ScheduleDay,
+  ScheduleSlot,
+  SlotQuery
 } from '../types/cms';
 import { mockServices } from '../data/mockServices';
 import { mockDoctors, mockBranches } from '../data/mockDoctors';
 
-// Archimed API configuration
-const ARCHIMED_API_URL = import.meta.env.VITE_ARCHIMED_API_URL || 'https://newapi.archimed-soft.ru/api/v5';
-const ARCHIMED_API_TOKEN = import.meta.env.VITE_ARCHIMED_API_TOKEN || '';
+// Archimed API is reached through our server-side proxy, which keeps the token off the client
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+const ARCHIMED_API_URL = `${API_URL}/api/archimed`;
 // Public gateway (proxy) that may already aggregate Archimed doctors for this site
 const PUBLIC_DOCTORS_URL = 'https://aldan.yurta.site/api/archimed/doctors';
 
-console.log('Environment variables:');
-console.log('VITE_ARCHIMED_API_URL:', import.meta.env.VITE_ARCHIMED_API_URL);
-console.log('VITE_ARCHIMED_API_TOKEN:', import.meta.env.VITE_ARCHIMED_API_TOKEN);
-console.log('Final ARCHIMED_API_URL:', ARCHIMED_API_URL);
-console.log('Final ARCHIMED_API_TOKEN:', ARCHIMED_API_TOKEN);
 // Some deployments don't have categories endpoint – disable to avoid 404 requests
 const ARCHIMED_CATEGORIES_ENABLED = false;
 
@@ -35,6 +36,28 @@ const DEFAULT_REQUEST_TIMEOUT_MS = 20000; // 20s
 const DEFAULT_API_PAGE_LIMIT = 200; // request large page size to reduce pagination
 const MAX_API_PAGES = 50; // hard cap to prevent runaway loops
 
+// Online booking (schedule slots)
+const DEFAULT_SLOT_DURATION_MIN = 30;
+const DEFAULT_SCHEDULE_DAYS = 14;
+const MOCK_TALONS_KEY = 'archimed_mock_talons_v1';
+// Talon statuses used in mock mode (real ones come from /talonstatuses)
+const MOCK_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  { id: 1, name: 'Новая' },
+  { id: 2, name: 'Подтверждена' },
+  { id: 3, name: 'Пациент пришел' },
+  { id: 4, name: 'Отменена' },
+];
+// Mock working hours per weekday (0 = Sunday): [open, close] in hours, null = day off
+const MOCK_WORKING_HOURS: Record<number, [number, number] | null> = {
+  0: null,
+  1: [8, 17],
+  2: [8, 17],
+  3: [8, 17],
+  4: [8, 17],
+  5: [8, 17],
+  6: [9, 14],
+};
+
 // Helpers for name normalization and blacklist
 const normalizeRu = (s: string) =>
   (s || '')
@@ -46,6 +69,44 @@ const normalizeRu = (s: string) =>
 const makeFullName = (d: ArchimedDoctor) =>
   normalizeRu([d?.name, d?.name1, d?.name2].filter(Boolean).join(' '));
 
+// Doctors shown on the site: no massage therapists and no admin/test accounts (Администратор ArchiMed+, Арбаев)
+export function isPublicDoctor(doctor: ArchimedDoctor): boolean {
+  const isMassage =
+    /массажист/i.test(doctor?.type || '') || (doctor?.types || []).some((t) => /массажист/i.test(t.name || ''));
+  if (isMassage) return false;
+  const nameBlob = `${doctor?.name || ''} ${doctor?.name1 || ''} ${doctor?.name2 || ''} ${doctor?.info || ''}`;
+  return !/(администратор|archimed|арбаев)/i.test(nameBlob);
+}
+
+// Phone match key: last 10 digits, so "+7 (923) ..." and "8923..." are the same number
+const phoneKey = (phone?: string) => (phone || '').replace(/\D/g, '').slice(-10);
+
+// Date helpers for schedule slots (clinic local time)
+const pad2 = (n: number) => String(n).padStart(2, '0');
+const toDateKey = (d: Date) => `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+const toTimeKey = (d: Date) => `${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+const toLocalIso = (d: Date) => `${toDateKey(d)}T${toTimeKey(d)}:00`;
+const parseDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+};
+
+// Thrown when the requested slot is no longer free
+// Error response from the proxy; status lets callers tell an expired session (401/403) from an outage
+export class ArchimedApiError extends Error {
+  constructor(public status: number, body: string) {
+    super(`Archimed API error: ${status} - ${body}`);
+    this.name = 'ArchimedApiError';
+  }
+}
+
+export class SlotConflictError extends Error {
+  constructor(message = 'Выбранное время уже занято, выберите другое') {
+    super(message);
+    this.name = 'SlotConflictError';
+  }
+}
+
 // Names to exclude from all doctors lists and details
 const NAME_BLACKLIST = new Set<string>([
   'хорбаа анжела тарасовна',
@@ -54,19 +115,17 @@ const NAME_BLACKLIST = new Set<string>([
 class ArchimedService {
   private baseUrl: string;
   private headers: HeadersInit;
+  private mockModePromise: Promise<boolean> | null = null;
   private servicesCache: ApiService[] = [];
   private doctorsCache: ArchimedDoctor[] = [];
+  private serviceLinksPromise: Promise<DoctorServiceLinks> | null = null;
 
   constructor() {
     this.baseUrl = ARCHIMED_API_URL;
     this.headers = {
       'Content-Type': 'application/json',
-      ...(ARCHIMED_API_TOKEN && { 'Authorization': `Bearer ${ARCHIMED_API_TOKEN}` }),
     };
 
-    console.log('ArchimedService constructor, API URL:', this.baseUrl);
-    console.log('API Token configured:', !!ARCHIMED_API_TOKEN);
-
     // Warm caches from localStorage on startup for instant UI
     try {
       const doctorsFromStorage = this.readFromStorage<unknown>(DOCTORS_CACHE_KEY, DOCTORS_CACHE_TTL_MS);
@@ -96,23 +155,25 @@ class ArchimedService {
 
     const url = `${this.baseUrl}${endpoint}`;
     const controller = new AbortController();
-    const timeout = window.setTimeout(() => controller.abort('timeout'), options?.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS);
+    const timeout = setTimeout(() => controller.abort('timeout'), options?.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS);
 
     let response: Response;
     try {
+      // Токен сотрудника или пациента нужен для чтения и изменения талонов; публичным запросам он не мешает
+      const token = await authService.getValidToken();
       response = await fetch(url, {
-        headers: this.headers,
+        headers: token ? { ...this.headers, Authorization: `Bearer ${token}` } : this.headers,
         signal: controller.signal,
         ...options,
       });
     } catch (e) {
-      window.clearTimeout(timeout);
+      clearTimeout(timeout);
       if ((e as Error)?.name === 'AbortError') {
         throw new Error('Request timeout');
       }
       throw e;
     } finally {
-      window.clearTimeout(timeout);
+      clearTimeout(timeout);
     }
 
     if (!response.ok) {
@@ -120,12 +181,26 @@ class ArchimedService {
       if (!options?.suppressErrorLog) {
         console.error('API error response:', errorText);
       }
-      throw new Error(`Archimed API error: ${response.status} - ${errorText}`);
+      throw new ArchimedApiError(response.status, errorText);
     }
 
     return response.json();
   }
 
+  // Mock mode only when the proxy explicitly reports that the Archimed token is not configured.
+  // A failed check is not cached and reaches the caller: a booking must not silently land in localStorage.
+  private isMockMode(): Promise<boolean> {
+    if (!this.mockModePromise) {
+      this.mockModePromise = this.request<{ configured: boolean }>('/status', { suppressErrorLog: true })
+        .then((status) => status?.configured === false)
+        .catch((error) => {
+          this.mockModePromise = null;
+          throw error;
+        });
+    }
+    return this.mockModePromise;
+  }
+
   private readFromStorage<T>(key: string, ttlMs: number): T | null {
     try {
       if (typeof window === 'undefined') return null;
@@ -182,10 +257,10 @@ class ArchimedService {
     try {
       // 1) Try public gateway first (absolute URL)
       const controller = new AbortController();
-      const timeoutId = window.setTimeout(() => controller.abort('timeout'), DEFAULT_REQUEST_TIMEOUT_MS);
+      const timeoutId = setTimeout(() => controller.abort('timeout'), DEFAULT_REQUEST_TIMEOUT_MS);
       const publicUrl = `${PUBLIC_DOCTORS_URL}?limit=${DEFAULT_API_PAGE_LIMIT}`;
       const siteResp = await fetch(publicUrl, { signal: controller.signal });
-      window.clearTimeout(timeoutId);
+      clearTimeout(timeoutId);
       if (siteResp.ok) {
         const siteJson = await siteResp.json();
         const publicData = Array.isArray(siteJson) ? siteJson : (siteJson?.data || []);
@@ -598,43 +673,74 @@ class ArchimedService {
     }
   }
 
-  // Public helpers to link services with doctors
+  // Doctor ↔ service links (maintained by staff, /api/doctor-services)
+  async getDoctorServiceLinks(): Promise<DoctorServiceLinks> {
+    if (!this.serviceLinksPromise) {
+      this.serviceLinksPromise = fetch(`${API_URL}/api/doctor-services`)
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+          return response.json() as Promise<DoctorServiceLinks>;
+        })
+        .catch((error) => {
+          console.warn('Связи врачей и услуг недоступны:', error);
+          this.serviceLinksPromise = null;
+          return { doctors: {}, updatedAt: null };
+        });
+    }
+    return this.serviceLinksPromise;
+  }
+
+  // После изменения связей сотрудником
+  invalidateDoctorServiceLinks(): void {
+    this.serviceLinksPromise = null;
+  }
+
+  // Услуги врача; null — связи для врача еще не заведены
+  async getDoctorServices(doctorId: number): Promise<ApiService[] | null> {
+    const [links, services] = await Promise.all([
+      this.getDoctorServiceLinks(),
+      this.getServices().catch(() => [] as ApiService[])
+    ]);
+    const link = links.doctors[String(doctorId)];
+    if (!link) return null;
+    const ids = new Set(link.serviceIds);
+    return services.filter(svc => ids.has(svc.id));
+  }
+
+  // Врачи, у которых услуга есть в списке; пусто — исполнители услуги не заведены
+  async getServiceDoctors(serviceId: number): Promise<ArchimedDoctor[]> {
+    const [links, doctors] = await Promise.all([this.getDoctorServiceLinks(), this.getDoctors()]);
+    return doctors.filter(d => links.doctors[String(d.id)]?.serviceIds.includes(serviceId));
+  }
+
   async getDoctorsWithServices(): Promise<Array<ArchimedDoctor & { services?: ApiService[] }>> {
-    const [doctors, services] = await Promise.all([
+    const [doctors, services, links] = await Promise.all([
       this.getDoctors(),
-      this.getServices().catch(() => [] as ApiService[])
+      this.getServices().catch(() => [] as ApiService[]),
+      this.getDoctorServiceLinks()
     ]);
-    const normalized = (s: string) => (s || '').toLowerCase().replace(/ё/g, 'е');
-    const tokenize = (s: string) => normalized(s).split(/\s+/).filter(Boolean);
-    const result = doctors.map(d => {
-      const docTokens = new Set<string>([...tokenize(d.type), ...(d.types || []).flatMap(t => tokenize(t.name))]);
-      const matched = services.filter(svc => {
-        const svcTokens = new Set<string>([...tokenize(svc.group_name), ...tokenize(svc.name)]);
-        for (const t of docTokens) if (svcTokens.has(t)) return true;
-        return false;
-      });
-      return { ...d, services: matched };
+    const byId = new Map(services.map(svc => [svc.id, svc]));
+    return doctors.map(d => {
+      const link = links.doctors[String(d.id)];
+      if (!link) return d;
+      const linked = link.serviceIds.map(id => byId.get(id)).filter((svc): svc is ApiService => Boolean(svc));
+      return { ...d, services: linked };
     });
-    return result;
   }
 
   async getServicesWithDoctors(): Promise<Array<ApiService & { doctors?: ArchimedDoctor[] }>> {
-    const [doctors, services] = await Promise.all([
+    const [doctors, services, links] = await Promise.all([
       this.getDoctors(),
-      this.getServices().catch(() => [] as ApiService[])
+      this.getServices().catch(() => [] as ApiService[]),
+      this.getDoctorServiceLinks()
     ]);
-    const normalized = (s: string) => (s || '').toLowerCase().replace(/ё/g, 'е');
-    const tokenize = (s: string) => normalized(s).split(/\s+/).filter(Boolean);
-    const svcWithDocs = services.map(svc => {
-      const svcTokens = new Set<string>([...tokenize(svc.group_name), ...tokenize(svc.name)]);
-      const matched = doctors.filter(d => {
-        const docTokens = new Set<string>([...tokenize(d.type), ...(d.types || []).flatMap(t => tokenize(t.name))]);
-        for (const t of docTokens) if (svcTokens.has(t)) return true;
-        return false;
-      });
-      return { ...svc, doctors: matched };
-    });
-    return svcWithDocs;
+    const doctorsByService = new Map<number, ArchimedDoctor[]>();
+    for (const d of doctors) {
+      for (const id of links.doctors[String(d.id)]?.serviceIds || []) {
+        doctorsByService.set(id, [...(doctorsByService.get(id) || []), d]);
+      }
+    }
+    return services.map(svc => ({ ...svc, doctors: doctorsByService.get(svc.id) || [] }));
   }
 
   private async refreshServices(): Promise<void> {
@@ -652,28 +758,185 @@ class ArchimedService {
     }
   }
 
+  // Schedule (online booking)
+  async getDoctorSlots(query: SlotQuery): Promise<ScheduleDay[]> {
+    const days = query.days ?? DEFAULT_SCHEDULE_DAYS;
+    const dateFrom = query.dateFrom ?? toDateKey(new Date());
+    const dateTo = new Date(parseDateKey(dateFrom));
+    dateTo.setDate(dateTo.getDate() + days - 1);
+    const duration = this.resolveSlotDuration(query);
+
+    // Без токена Archimed генерируем правдоподобное расписание для тестирования
+    if (await this.isMockMode()) {
+      return this.generateMockSchedule({ ...query, duration, dateFrom, days });
+    }
+
+    const params = new URLSearchParams({
+      doctor_id: query.doctorId.toString(),
+      date_from: dateFrom,
+      date_to: toDateKey(dateTo),
+      duration: duration.toString(),
+    });
+    if (query.branchId) params.append('branch_id', query.branchId.toString());
+
+    const response = await this.request<{ data: Array<Partial<ScheduleSlot>> }>(`/schedule?${params.toString()}`);
+    const slots = (response?.data || [])
+      .map((raw) => this.normalizeSlot(raw, query, duration))
+      .filter((slot): slot is ScheduleSlot => slot !== null && new Date(slot.start).getTime() > Date.now());
+    return this.groupSlotsByDay(slots);
+  }
+
+  private resolveSlotDuration(query: SlotQuery): number {
+    if (query.duration && query.duration > 0) return query.duration;
+    const doctor = this.doctorsCache.find((d) => d.id === query.doctorId);
+    const maxTime = Number.parseInt(doctor?.max_time || '', 10);
+    return Number.isFinite(maxTime) && maxTime > 0 ? maxTime : DEFAULT_SLOT_DURATION_MIN;
+  }
+
+  private normalizeSlot(raw: Partial<ScheduleSlot>, query: SlotQuery, duration: number): ScheduleSlot | null {
+    const start = raw.start ? new Date(raw.start) : (raw.date && raw.time ? new Date(`${raw.date}T${raw.time}:00`) : null);
+    if (!start || Number.isNaN(start.getTime())) return null;
+    const slotDuration = raw.duration || duration;
+    const end = raw.end ? new Date(raw.end) : new Date(start.getTime() + slotDuration * 60000);
+    return {
+      doctor_id: raw.doctor_id ?? query.doctorId,
+      branch_id: raw.branch_id ?? query.branchId ?? 0,
+      date: toDateKey(start),
+      time: toTimeKey(start),
+      start: toLocalIso(start),
+      end: toLocalIso(end),
+      duration: slotDuration,
+    };
+  }
+
+  private groupSlotsByDay(slots: ScheduleSlot[]): ScheduleDay[] {
+    const byDate = new Map<string, ScheduleSlot[]>();
+    for (const slot of slots) {
+      const list = byDate.get(slot.date) || [];
+      list.push(slot);
+      byDate.set(slot.date, list);
+    }
+    return Array.from(byDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, list]) => ({ date, slots: list.sort((a, b) => a.start.localeCompare(b.start)) }));
+  }
+
+  // Deterministic fake schedule: same doctor and day always give the same busy slots
+  private generateMockSchedule(query: Required<Pick<SlotQuery, 'doctorId' | 'duration' | 'dateFrom' | 'days'>> & SlotQuery): ScheduleDay[] {
+    const reserved = this.readMockTalons().filter(
+      (t): t is ArchimedAppointment & { start: string; end: string } => t.doctor_id === query.doctorId && !!t.start && !!t.end
+    );
+    const doctor = this.doctorsCache.find((d) => d.id === query.doctorId);
+    const branchId = query.branchId ?? doctor?.branch_id ?? 0;
+    const now = Date.now();
+    const slots: ScheduleSlot[] = [];
+
+    for (let i = 0; i < query.days; i++) {
+      const day = parseDateKey(query.dateFrom);
+      day.setDate(day.getDate() + i);
+      const hours = MOCK_WORKING_HOURS[day.getDay()];
+      if (!hours) continue;
+
+      const [openHour, closeHour] = hours;
+      const cursor = new Date(day);
+      cursor.setHours(openHour, 0, 0, 0);
+      const close = new Date(day);
+      close.setHours(closeHour, 0, 0, 0);
+
+      while (cursor.getTime() + query.duration * 60000 <= close.getTime()) {
+        const start = new Date(cursor);
+        const end = new Date(start.getTime() + query.duration * 60000);
+        cursor.setTime(end.getTime());
+
+        if (start.getTime() <= now) continue;
+        const seed = `${query.doctorId}|${toLocalIso(start)}`;
+        if (this.hashString(seed) % 100 < 35) continue; // ~35% already taken
+        const overlapsReserved = reserved.some(
+          (t) => new Date(t.start).getTime() < end.getTime() && start.getTime() < new Date(t.end).getTime()
+        );
+        if (overlapsReserved) continue;
+
+        slots.push({
+          doctor_id: query.doctorId,
+          branch_id: branchId,
+          date: toDateKey(start),
+          time: toTimeKey(start),
+          start: toLocalIso(start),
+          end: toLocalIso(end),
+          duration: query.duration,
+        });
+      }
+    }
+
+    return this.groupSlotsByDay(slots);
+  }
+
+  private hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+      hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
+
+  private readMockTalons(): ArchimedAppointment[] {
+    return this.readFromStorage<ArchimedAppointment[]>(MOCK_TALONS_KEY, Number.POSITIVE_INFINITY) || [];
+  }
+
+  // Re-reads the doctor's schedule right before booking so a stale picker can't double-book
+  private async assertSlotAvailable(appointmentData: AppointmentData): Promise<void> {
+    if (!appointmentData.slotStart || !appointmentData.doctorId) return;
+    const date = appointmentData.slotStart.slice(0, 10);
+    const days = await this.getDoctorSlots({
+      doctorId: appointmentData.doctorId,
+      branchId: appointmentData.branchId,
+      duration: appointmentData.duration,
+      dateFrom: date,
+      days: 1,
+    });
+    const isFree = days.some((d) => d.slots.some((slot) => slot.start === appointmentData.slotStart));
+    if (!isFree) {
+      throw new SlotConflictError();
+    }
+  }
+
   // Appointments
   async createAppointment(appointmentData: AppointmentData): Promise<ArchimedAppointment> {
+    await this.assertSlotAvailable(appointmentData);
+
+    const slotStart = appointmentData.slotStart ? new Date(appointmentData.slotStart) : null;
+    const slotEnd = slotStart
+      ? new Date(slotStart.getTime() + this.resolveSlotDuration({
+        doctorId: appointmentData.doctorId ?? 0,
+        duration: appointmentData.duration,
+      }) * 60000)
+      : null;
+    const preferredDate = slotStart ? toDateKey(slotStart) : appointmentData.preferredDate;
+    const preferredTime = slotStart ? toTimeKey(slotStart) : appointmentData.preferredTime;
+
     // Если API токен не настроен, используем моковые данные для тестирования
-    if (!ARCHIMED_API_TOKEN) {
+    if (await this.isMockMode()) {
       console.warn('API token not configured, using mock data for testing');
+      const appointment: ArchimedAppointment = {
+        id: Math.floor(Math.random() * 1000),
+        patient_name: appointmentData.patientName,
+        patient_phone: appointmentData.patientPhone,
+        patient_email: appointmentData.patientEmail,
+        preferred_date: preferredDate,
+        preferred_time: preferredTime,
+        comments: appointmentData.comments,
+        service_id: appointmentData.serviceId,
+        doctor_id: appointmentData.doctorId,
+        branch_id: appointmentData.branchId,
+        start: slotStart ? toLocalIso(slotStart) : undefined,
+        end: slotEnd ? toLocalIso(slotEnd) : undefined,
+        status_id: 1,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+      this.writeToStorage(MOCK_TALONS_KEY, [...this.readMockTalons(), appointment]);
       return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve({
-            id: Math.floor(Math.random() * 1000),
-            patient_name: appointmentData.patientName,
-            patient_phone: appointmentData.patientPhone,
-            patient_email: appointmentData.patientEmail,
-            preferred_date: appointmentData.preferredDate,
-            preferred_time: appointmentData.preferredTime,
-            comments: appointmentData.comments,
-            service_id: appointmentData.serviceId,
-            doctor_id: appointmentData.doctorId,
-            status_id: 1,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          });
-        }, 1000);
+        setTimeout(() => resolve(appointment), 1000);
       });
     }
 
@@ -681,43 +944,79 @@ class ArchimedService {
       patient_name: appointmentData.patientName,
       patient_phone: appointmentData.patientPhone,
       patient_email: appointmentData.patientEmail,
-      preferred_date: appointmentData.preferredDate,
-      preferred_time: appointmentData.preferredTime,
+      preferred_date: preferredDate,
+      preferred_time: preferredTime,
       comments: appointmentData.comments,
       service_id: appointmentData.serviceId,
-      doctor_id: appointmentData.doctorId
+      doctor_id: appointmentData.doctorId,
+      branch_id: appointmentData.branchId,
+      start: slotStart ? toLocalIso(slotStart) : undefined,
+      end: slotEnd ? toLocalIso(slotEnd) : undefined
     };
 
-    return this.request<ArchimedAppointment>('/talons', {
-      method: 'POST',
-      body: JSON.stringify(payload)
-    });
+    try {
+      return await this.request<ArchimedAppointment>('/talons', {
+        method: 'POST',
+        body: JSON.stringify(payload)
+      });
+    } catch (error) {
+      // Archimed отвечает 409, если талон на это время уже выдан
+      if (slotStart && /Archimed API error: 409/.test((error as Error)?.message || '')) {
+        throw new SlotConflictError();
+      }
+      throw error;
+    }
   }
 
-  async getAppointments(filters?: {
-    doctorId?: number;
-    serviceId?: number;
-    statusId?: number;
+  // Errors are not swallowed: an empty inbox must not hide an expired session or an outage
+  async getAppointments(filters?: AppointmentFilters & {
     page?: number;
     limit?: number;
   }): Promise<{ data: ArchimedAppointment[]; total: number; page: number; limit: number }> {
-    try {
-      const params = new URLSearchParams();
+    if (await this.isMockMode()) {
+      const phone = filters?.patientPhone ? phoneKey(filters.patientPhone) : '';
+      const data = this.readMockTalons()
+        .filter((a) => !phone || phoneKey(a.patient_phone) === phone)
+        .filter((a) => !filters?.doctorId || a.doctor_id === filters.doctorId)
+        .filter((a) => !filters?.serviceId || a.service_id === filters.serviceId)
+        .filter((a) => !filters?.statusId || a.status_id === filters.statusId)
+        .filter((a) => {
+          const date = (a.start || a.preferred_date || '').slice(0, 10);
+          return (!filters?.dateFrom || date >= filters.dateFrom) && (!filters?.dateTo || date <= filters.dateTo);
+        })
+        .reverse();
+      const page = filters?.page ?? 1;
+      const limit = filters?.limit ?? data.length;
+      return { data: data.slice((page - 1) * limit, page * limit), total: data.length, page, limit };
+    }
 
-      if (filters?.doctorId) params.append('doctor_id', filters.doctorId.toString());
-      if (filters?.serviceId) params.append('service_id', filters.serviceId.toString());
-      if (filters?.statusId) params.append('status_id', filters.statusId.toString());
-      if (filters?.page) params.append('page', filters.page.toString());
-      if (filters?.limit) params.append('limit', filters.limit.toString());
+    const params = new URLSearchParams();
 
-      const queryString = params.toString();
-      const endpoint = queryString ? `/talons?${queryString}` : '/talons';
+    if (filters?.doctorId) params.append('doctor_id', filters.doctorId.toString());
+    if (filters?.serviceId) params.append('service_id', filters.serviceId.toString());
+    if (filters?.statusId) params.append('status_id', filters.statusId.toString());
+    if (filters?.patientPhone) params.append('patient_phone', filters.patientPhone);
+    if (filters?.dateFrom) params.append('date_from', filters.dateFrom);
+    if (filters?.dateTo) params.append('date_to', filters.dateTo);
+    if (filters?.page) params.append('page', filters.page.toString());
+    if (filters?.limit) params.append('limit', filters.limit.toString());
 
-      return await this.request<{ data: ArchimedAppointment[]; total: number; page: number; limit: number }>(endpoint);
-    } catch (error) {
-      console.warn('API недоступен для записей на прием:', error);
-      return { data: [], total: 0, page: 1, limit: 100 };
+    const queryString = params.toString();
+    const endpoint = queryString ? `/talons?${queryString}` : '/talons';
+
+    return this.request<{ data: ArchimedAppointment[]; total: number; page: number; limit: number }>(endpoint);
+  }
+
+  // Every page of talons matching the filters (staff inbox)
+  async getAllAppointments(filters?: AppointmentFilters): Promise<ArchimedAppointment[]> {
+    const all: ArchimedAppointment[] = [];
+    for (let page = 1; page <= MAX_API_PAGES; page++) {
+      const response = await this.getAppointments({ ...filters, page, limit: DEFAULT_API_PAGE_LIMIT });
+      const data = response?.data || [];
+      all.push(...data);
+      if (data.length < DEFAULT_API_PAGE_LIMIT || all.length >= (response.total ?? 0)) break;
     }
+    return all;
   }
 
   async getAppointment(id: number): Promise<ArchimedAppointment> {
@@ -725,15 +1024,30 @@ class ArchimedService {
   }
 
   async updateAppointment(id: number, appointmentData: Partial<AppointmentData>): Promise<ArchimedAppointment> {
+    // Перенос на другой слот: проверяем, что он еще свободен, и пересчитываем время талона
+    if (appointmentData.slotStart && appointmentData.doctorId) {
+      await this.assertSlotAvailable(appointmentData as AppointmentData);
+    }
+    const slotStart = appointmentData.slotStart ? new Date(appointmentData.slotStart) : null;
+    const slotEnd = slotStart
+      ? new Date(slotStart.getTime() + this.resolveSlotDuration({
+        doctorId: appointmentData.doctorId ?? 0,
+        duration: appointmentData.duration,
+      }) * 60000)
+      : null;
+
     const payload = {
       patient_name: appointmentData.patientName,
       patient_phone: appointmentData.patientPhone,
       patient_email: appointmentData.patientEmail,
-      preferred_date: appointmentData.preferredDate,
-      preferred_time: appointmentData.preferredTime,
+      preferred_date: slotStart ? toDateKey(slotStart) : appointmentData.preferredDate,
+      preferred_time: slotStart ? toTimeKey(slotStart) : appointmentData.preferredTime,
       comments: appointmentData.comments,
       service_id: appointmentData.serviceId,
-      doctor_id: appointmentData.doctorId
+      doctor_id: appointmentData.doctorId,
+      start: slotStart ? toLocalIso(slotStart) : undefined,
+      end: slotEnd ? toLocalIso(slotEnd) : undefined,
+      status_id: appointmentData.statusId
     };
 
     // Удаляем undefined значения
@@ -741,12 +1055,29 @@ class ArchimedService {
       payload[key as keyof typeof payload] === undefined && delete payload[key as keyof typeof payload]
     );
 
+    if (await this.isMockMode()) {
+      const talons = this.readMockTalons();
+      const index = talons.findIndex((a) => a.id === id);
+      if (index === -1) throw new Error(`Archimed API error: 404 - talon ${id} not found`);
+      talons[index] = { ...talons[index], ...(payload as Partial<ArchimedAppointment>), updated_at: new Date().toISOString() };
+      this.writeToStorage(MOCK_TALONS_KEY, talons);
+      return talons[index];
+    }
+
     return this.request<ArchimedAppointment>(`/talons/${id}`, {
       method: 'PUT',
       body: JSON.stringify(payload)
     });
   }
 
+  // Cancel = move the talon to the "cancelled" status (its id differs between Archimed installations)
+  async cancelAppointment(id: number): Promise<ArchimedAppointment> {
+    const statuses = await this.getAppointmentStatuses();
+    const cancelled = statuses.find((status) => /отмен/i.test(status.name));
+    if (!cancelled) throw new Error('Статус отмены записи не найден');
+    return this.updateAppointment(id, { statusId: cancelled.id });
+  }
+
   async deleteAppointment(id: number): Promise<void> {
     await this.request<void>(`/talons/${id}`, {
       method: 'DELETE'
@@ -755,6 +1086,8 @@ class ArchimedService {
 
   // Appointment Statuses
   async getAppointmentStatuses(): Promise<AppointmentStatus[]> {
+    if (await this.isMockMode()) return MOCK_APPOINTMENT_STATUSES;
+
     try {
       const response = await this.request<{ data: AppointmentStatus[]; total: number; page: number; limit: number }>('/talonstatuses');
       return response.data || [];
@@ -1,28 +1,59 @@
-import type { User, LoginData, RegisterData, AuthResponse } from '../types/cms';
+import type { User, LoginData, RegisterData, AuthResponse, PhoneCodeRequest } from '../types/cms';
 
 // Backend API configuration
 const BACKEND_API_URL = import.meta.env.VITE_BACKEND_API_URL || 'http://localhost:3001/api';
 const AUTH_TOKEN_KEY = 'auth_token';
 const USER_DATA_KEY = 'user_data';
+const TOKEN_EXPIRES_KEY = 'auth_expires_at';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
+// Обновляем access-токен чуть заранее, чтобы он не истек по дороге к серверу
+const TOKEN_EXPIRY_SKEW_MS = 30 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+type SessionListener = (user: User | null) => void;
 
 class AuthService {
     private baseUrl: string;
+    private refreshPromise: Promise<AuthResponse> | null = null;
+    private listeners = new Set<SessionListener>();
 
     constructor() {
         this.baseUrl = BACKEND_API_URL;
+
+        // Вход/выход в другой вкладке
+        if (typeof window !== 'undefined') {
+            window.addEventListener('storage', (event) => {
+                if (event.key === USER_DATA_KEY || event.key === AUTH_TOKEN_KEY || event.key === null) {
+                    this.notify();
+                }
+            });
+        }
+    }
+
+    // Подписка на смену сессии (Header, меню аккаунта). Возвращает функцию отписки.
+    subscribe(listener: SessionListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private notify(): void {
+        const user = this.getCurrentUser();
+        for (const listener of this.listeners) listener(user);
     }
 
     private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
         const url = `${this.baseUrl}${endpoint}`;
-        const token = this.getToken();
+        const token = endpoint === '/auth/refresh' ? null : await this.getValidToken();
 
         const response = await fetch(url, {
+            ...options,
             headers: {
                 'Content-Type': 'application/json',
                 ...(token && { 'Authorization': `Bearer ${token}` }),
                 ...options?.headers,
             },
-            ...options,
         });
 
         if (!response.ok) {
@@ -48,6 +79,43 @@ class AuthService {
         if (typeof window === 'undefined') return;
         localStorage.removeItem(AUTH_TOKEN_KEY);
         localStorage.removeItem(USER_DATA_KEY);
+        localStorage.removeItem(TOKEN_EXPIRES_KEY);
+        localStorage.removeItem(REFRESH_TOKEN_KEY);
+        this.notify();
+    }
+
+    private saveSession(response: AuthResponse): void {
+        this.setToken(response.token);
+        this.setUser(response.user);
+        if (typeof window === 'undefined') return;
+        localStorage.setItem(TOKEN_EXPIRES_KEY, response.expires_at);
+        localStorage.setItem(REFRESH_TOKEN_KEY, response.refresh_token);
+    }
+
+    isTokenExpired(): boolean {
+        if (typeof window === 'undefined') return true;
+        const expiresAt = localStorage.getItem(TOKEN_EXPIRES_KEY);
+        if (!expiresAt) return false;
+        return new Date(expiresAt).getTime() - TOKEN_EXPIRY_SKEW_MS <= Date.now();
+    }
+
+    // Access-токен, при необходимости обновленный через refresh-токен.
+    // null — сессии нет или обновить ее не удалось (сессия при этом очищается).
+    async getValidToken(): Promise<string | null> {
+        const token = this.getToken();
+        if (!token || !this.isTokenExpired()) return token;
+        if (typeof window === 'undefined' || !localStorage.getItem(REFRESH_TOKEN_KEY)) {
+            this.removeToken();
+            return null;
+        }
+        try {
+            const response = await this.refreshToken();
+            return response.token;
+        } catch (error) {
+            console.warn('Token refresh failed:', error);
+            this.removeToken();
+            return null;
+        }
     }
 
     // User data management
@@ -64,6 +132,7 @@ class AuthService {
     setUser(user: User): void {
         if (typeof window === 'undefined') return;
         localStorage.setItem(USER_DATA_KEY, JSON.stringify(user));
+        this.notify();
     }
 
     // Authentication methods
@@ -73,8 +142,25 @@ class AuthService {
             body: JSON.stringify(loginData),
         });
 
-        this.setToken(response.token);
-        this.setUser(response.user);
+        this.saveSession(response);
+        return response;
+    }
+
+    // Вход по телефону: код из SMS, аккаунт создается при первом входе
+    async requestPhoneCode(phone: string): Promise<PhoneCodeRequest> {
+        return this.request<PhoneCodeRequest>('/auth/phone/request', {
+            method: 'POST',
+            body: JSON.stringify({ phone }),
+        });
+    }
+
+    async loginWithPhone(phone: string, code: string): Promise<AuthResponse> {
+        const response = await this.request<AuthResponse>('/auth/phone/login', {
+            method: 'POST',
+            body: JSON.stringify({ phone, code: code.trim() }),
+        });
+
+        this.saveSession(response);
         return response;
     }
 
@@ -84,8 +170,7 @@ class AuthService {
             body: JSON.stringify(registerData),
         });
 
-        this.setToken(response.token);
-        this.setUser(response.user);
+        this.saveSession(response);
         return response;
     }
 
@@ -93,6 +178,7 @@ class AuthService {
         try {
             await this.request('/auth/logout', {
                 method: 'POST',
+                body: JSON.stringify({ refresh_token: localStorage.getItem(REFRESH_TOKEN_KEY) }),
             });
         } catch (error) {
             console.warn('Logout request failed:', error);
@@ -102,13 +188,22 @@ class AuthService {
     }
 
     async refreshToken(): Promise<AuthResponse> {
-        const response = await this.request<AuthResponse>('/auth/refresh', {
-            method: 'POST',
-        });
-
-        this.setToken(response.token);
-        this.setUser(response.user);
-        return response;
+        // Параллельные запросы ждут одно обновление: refresh-токен одноразовый
+        if (!this.refreshPromise) {
+            const refreshToken = typeof window === 'undefined' ? null : localStorage.getItem(REFRESH_TOKEN_KEY);
+            this.refreshPromise = this.request<AuthResponse>('/auth/refresh', {
+                method: 'POST',
+                body: JSON.stringify({ refresh_token: refreshToken }),
+            })
+                .then((response) => {
+                    this.saveSession(response);
+                    return response;
+                })
+                .finally(() => {
+                    this.refreshPromise = null;
+                });
+        }
+        return this.refreshPromise;
     }
 
     // Check if user is authenticated
@@ -148,6 +243,8 @@ class AuthService {
             body: JSON.stringify({
                 currentPassword,
                 newPassword,
+                // Текущая сессия остается, остальные устройства выходят из аккаунта
+                refresh_token: localStorage.getItem(REFRESH_TOKEN_KEY),
             }),
         });
     }
@@ -160,12 +257,43 @@ class AuthService {
         });
     }
 
+    // Set a new password using the token from the reset email
+    async confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+        await this.request('/auth/reset-password/confirm', {
+            method: 'POST',
+            body: JSON.stringify({ token, newPassword }),
+        });
+    }
+
+    // Resend the verification email to the current user
+    async resendVerificationEmail(): Promise<void> {
+        await this.request('/auth/verify-email/resend', { method: 'POST' });
+    }
+
+    // Confirm the profile phone with an SMS code (needed to see appointments and lab results)
+    async requestPhoneConfirmation(): Promise<PhoneCodeRequest> {
+        return this.request<PhoneCodeRequest>('/auth/phone/confirm/request', { method: 'POST' });
+    }
+
+    async confirmPhone(code: string): Promise<User> {
+        const response = await this.request<User>('/auth/phone/confirm', {
+            method: 'POST',
+            body: JSON.stringify({ code: code.trim() }),
+        });
+
+        this.setUser(response);
+        return response;
+    }
+
     // Verify email
     async verifyEmail(token: string): Promise<void> {
         await this.request('/auth/verify-email', {
             method: 'POST',
             body: JSON.stringify({ token }),
         });
+
+        const user = this.getUser();
+        if (user) this.setUser({ ...user, email_verified: true });
     }
 }
 
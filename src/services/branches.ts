@@ -0,0 +1,175 @@
+// Филиалы клиники: справочник Archimed, дополненный данными из Directus (адрес, телефон,
+// график), цены филиалов и выбранный посетителем филиал, общий для всех страниц.
+
+import archimedService, { isPublicDoctor } from './archimed';
+import { formatWorkingHours, type ClinicSchedule } from './clinicSchedule';
+import directusService from './directus';
+import siteContentService, { mapUrl, phoneHref, scheduleForBranch, type ClinicDetails, type ClinicPhone } from './siteContent';
+import type { ApiService, ArchimedBranch, ArchimedDoctor, BranchPrice } from '../types/cms';
+
+const SELECTED_BRANCH_KEY = 'selectedBranchId';
+
+export interface Branch {
+  id: number;
+  name: string;
+  address: string;
+  mapUrl: string;
+  phone: ClinicPhone | null;
+  schedule: ClinicSchedule;
+  hoursSummary: string[];
+  doctorCount: number;
+}
+
+type BranchListener = (branchId: number | null) => void;
+
+function readSelectedBranch(): number | null {
+  try {
+    const id = Number(localStorage.getItem(SELECTED_BRANCH_KEY));
+    return Number.isInteger(id) && id > 0 ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+// Самый частый адрес среди врачей филиала — Archimed хранит адрес у врача, а не у филиала
+function mostCommonAddress(doctors: ArchimedDoctor[]): string {
+  const counts = new Map<string, number>();
+  for (const doctor of doctors) {
+    const address = (doctor.address || '').trim();
+    if (address) counts.set(address, (counts.get(address) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+}
+
+// Показываем филиалы с врачами на сайте и филиалы, заведенные в Directus
+function buildBranches(archimed: ArchimedBranch[], doctors: ArchimedDoctor[], clinic: ClinicDetails): Branch[] {
+  const publicDoctors = doctors.filter(isPublicDoctor);
+  const ids = new Set([...publicDoctors.map((d) => d.branch_id).filter(Boolean), ...clinic.branches.map((b) => b.id)]);
+
+  return [...ids]
+    .map((id) => {
+      const cms = clinic.branches.find((b) => b.id === id);
+      const branchDoctors = publicDoctors.filter((d) => d.branch_id === id);
+      const name = cms?.name || archimed.find((b) => b.id === id)?.name || branchDoctors[0]?.branch || `Филиал ${id}`;
+      const address = cms?.address || mostCommonAddress(branchDoctors) || clinic.address;
+      const schedule = scheduleForBranch(clinic, id);
+      return {
+        id,
+        name,
+        address,
+        mapUrl: mapUrl(address),
+        phone: cms?.phone ? { value: cms.phone, label: name, href: phoneHref(cms.phone) } : clinic.phones[0] || null,
+        schedule,
+        hoursSummary: formatWorkingHours(schedule.weekly),
+        doctorCount: branchDoctors.length,
+      };
+    })
+    .sort((a, b) => b.doctorCount - a.doctorCount || a.name.localeCompare(b.name, 'ru'));
+}
+
+// Цены филиала поверх цен Archimed; недоступные в филиале услуги убираются
+export function applyBranchPrices(services: ApiService[], prices: BranchPrice[], branchId: number | null | undefined): ApiService[] {
+  if (!branchId) return services;
+  const overrides = new Map(prices.filter((p) => p.branch_id === branchId).map((p) => [p.service_id, p]));
+  if (overrides.size === 0) return services;
+  return services.flatMap((service) => {
+    const override = overrides.get(service.id);
+    if (!override) return [service];
+    if (!override.is_available) return [];
+    return [
+      {
+        ...service,
+        base_cost: override.base_cost ?? service.base_cost,
+        cito_cost: override.cito_cost ?? service.cito_cost,
+      },
+    ];
+  });
+}
+
+class BranchService {
+  private branches: Branch[] | null = null;
+  private prices: BranchPrice[] = [];
+  private branchesPromise: Promise<Branch[]> | null = null;
+  private pricesPromise: Promise<BranchPrice[]> | null = null;
+  private selectedBranchId: number | null = null;
+  private listeners = new Set<BranchListener>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      this.selectedBranchId = readSelectedBranch();
+      // Выбор филиала в другой вкладке
+      window.addEventListener('storage', (event) => {
+        if (event.key !== SELECTED_BRANCH_KEY && event.key !== null) return;
+        this.selectedBranchId = readSelectedBranch();
+        this.notify();
+      });
+    }
+  }
+
+  peekBranches(): Branch[] {
+    return this.branches || [];
+  }
+
+  getBranches(): Promise<Branch[]> {
+    if (!this.branchesPromise) {
+      this.branchesPromise = Promise.all([
+        archimedService.getBranches().catch(() => [] as ArchimedBranch[]),
+        archimedService.getDoctors().catch(() => [] as ArchimedDoctor[]),
+        siteContentService.getClinic(),
+      ]).then(([archimed, doctors, clinic]) => {
+        this.branches = buildBranches(archimed, doctors, clinic);
+        return this.branches;
+      });
+    }
+    return this.branchesPromise;
+  }
+
+  peekPrices(): BranchPrice[] {
+    return this.prices;
+  }
+
+  // Без Directus цен филиалов нет — везде цены Archimed
+  getPrices(): Promise<BranchPrice[]> {
+    if (!this.pricesPromise) {
+      this.pricesPromise = directusService
+        .getBranchPrices()
+        .then((res) => res.data || [])
+        .catch(() => [] as BranchPrice[])
+        .then((prices) => {
+          this.prices = prices;
+          return prices;
+        });
+    }
+    return this.pricesPromise;
+  }
+
+  getSelectedBranchId(): number | null {
+    return this.selectedBranchId;
+  }
+
+  // null — все филиалы
+  selectBranch(branchId: number | null): void {
+    this.selectedBranchId = branchId;
+    try {
+      if (branchId) localStorage.setItem(SELECTED_BRANCH_KEY, String(branchId));
+      else localStorage.removeItem(SELECTED_BRANCH_KEY);
+    } catch {
+      // Без localStorage выбор действует до перезагрузки страницы
+    }
+    this.notify();
+  }
+
+  subscribe(listener: BranchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener(this.selectedBranchId);
+  }
+}
+
+export const branchService = new BranchService();
+export default branchService;
@@ -1,5 +1,7 @@
 // Certificate service for API integration
 
+import authService from './auth';
+
 export interface Customer {
   firstName: string;
   lastName: string;
@@ -16,16 +18,36 @@ export interface CreateCertificateRequest {
 
 export interface CreateCertificateResponse {
   message: string;
-  code: string;
+  orderNumber: string;
   paymentUrl: string;
   orderId: string;
 }
 
+export type CertificateStatus = 'pending' | 'active' | 'redeemed' | 'expired' | 'cancelled';
+
+// Публичные сведения о сертификате (без данных получателя и отправителя)
+export interface CertificateBalance {
+  code: string;
+  amount: number;
+  balance: number;
+  status: CertificateStatus;
+  expiresAt: string | null;
+}
+
+// Сертификат в личном кабинете: купленный пользователем или подаренный ему
+export interface OwnedCertificate extends CertificateBalance {
+  orderNumber: string;
+  issuedAt: string | null;
+  relation: 'purchased' | 'received';
+  recipientName: string;
+}
+
 export interface CheckPaymentResponse {
   orderStatus: number;
   orderNumber: string;
   amount: number;
-  // ... другие поля при необходимости
+  // Выпускается после успешной оплаты
+  certificate: CertificateBalance | null;
 }
 
 class CertificateService {
@@ -93,6 +115,55 @@ class CertificateService {
     }
   }
 
+  /**
+   * Проверка баланса сертификата по коду
+   */
+  async getCertificateBalance(code: string): Promise<CertificateBalance> {
+    try {
+      const response = await fetch(
+        `${this.apiUrl}/api/certificates/${encodeURIComponent(code.trim())}/balance`
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(
+          errorData?.message || 
+          `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error checking certificate balance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Сертификаты текущего пользователя (нужен вход и подтвержденный email)
+   */
+  async getMyCertificates(): Promise<OwnedCertificate[]> {
+    const token = await authService.getValidToken();
+    const response = await fetch(`${this.apiUrl}/api/certificates/mine`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.message || `HTTP error! status: ${response.status}`);
+    }
+
+    const result: { data: OwnedCertificate[] } = await response.json();
+    return result.data;
+  }
+
+  /**
+   * Ссылка на PDF оплаченного сертификата (orderId — идентификатор заказа в банке)
+   */
+  getCertificatePdfUrl(orderId: string): string {
+    return `${this.apiUrl}/certificate/${encodeURIComponent(orderId)}/pdf`;
+  }
+
   /**
    * Разделение полного имени на имя и фамилию
    */
@@ -0,0 +1,170 @@
+// Часы работы клиники: недельный график, праздничные исключения и графики филиалов.
+// Все расчеты — в местном времени клиники (Кызыл), а не в часовом поясе браузера.
+
+import type { ClinicHoliday, ClinicInfo } from '../types/cms';
+
+export const CLINIC_TIME_ZONE = 'Asia/Krasnoyarsk';
+
+export type WorkingHours = ClinicInfo['working_hours'];
+
+export interface ScheduleException {
+  hours: string;
+  note: string;
+}
+
+export interface ClinicSchedule {
+  weekly: WorkingHours;
+  // Дата YYYY-MM-DD → часы этого дня; перекрывает недельный график
+  exceptions: Record<string, ScheduleException>;
+}
+
+export interface DayHours {
+  open: string; // HH:MM
+  close: string;
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  closesAt: string | null;
+  opensAt: { date: string; time: string } | null;
+  note: string | null;
+}
+
+// Индекс — Date#getDay()
+const DAY_KEYS: (keyof WorkingHours)[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const WEEK: { key: keyof WorkingHours; short: string }[] = [
+  { key: 'monday', short: 'Пн' },
+  { key: 'tuesday', short: 'Вт' },
+  { key: 'wednesday', short: 'Ср' },
+  { key: 'thursday', short: 'Чт' },
+  { key: 'friday', short: 'Пт' },
+  { key: 'saturday', short: 'Сб' },
+  { key: 'sunday', short: 'Вс' },
+];
+
+// Поиск следующего рабочего дня не дальше этого горизонта
+const LOOKAHEAD_DAYS = 14;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "8:00-22:00", "08:00 – 22:00" → { open: '08:00', close: '22:00' }; иначе — выходной
+export function parseHours(range: string | null | undefined): DayHours | null {
+  const match = /^(\d{1,2}):(\d{2})\s*[-–—]\s*(\d{1,2}):(\d{2})$/.exec((range || '').trim());
+  if (!match) return null;
+  const open = `${pad(Number(match[1]))}:${match[2]}`;
+  const close = `${pad(Number(match[3]))}:${match[4]}`;
+  return open < close ? { open, close } : null;
+}
+
+// Соседние дни с одинаковыми часами объединяются: "Пн-Пт: 08:00 - 22:00", "Вс: выходной"
+export function formatWorkingHours(hours: WorkingHours): string[] {
+  const lines: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= WEEK.length; i++) {
+    const range = (hours[WEEK[start].key] || '').trim();
+    if (i < WEEK.length && (hours[WEEK[i].key] || '').trim() === range) continue;
+    const days = i - 1 === start ? WEEK[start].short : `${WEEK[start].short}-${WEEK[i - 1].short}`;
+    const parsed = parseHours(range);
+    lines.push(`${days}: ${parsed ? `${parsed.open} - ${parsed.close}` : 'выходной'}`);
+    start = i;
+  }
+  return lines;
+}
+
+// Недельный график плюс исключения: общие для клиники и, если задан branchId, — филиала.
+// Исключение филиала на ту же дату важнее общего
+export function buildSchedule(weekly: WorkingHours, holidays: ClinicHoliday[], branchId?: number): ClinicSchedule {
+  const exceptions: Record<string, ScheduleException> = {};
+  const relevant = holidays
+    .filter((h) => h.branch_id == null || (branchId !== undefined && h.branch_id === branchId))
+    .sort((a, b) => Number(a.branch_id != null) - Number(b.branch_id != null));
+  for (const holiday of relevant) {
+    exceptions[holiday.date.slice(0, 10)] = { hours: holiday.hours || '', note: holiday.note || '' };
+  }
+  return { weekly, exceptions };
+}
+
+// Текущие дата и время в часовом поясе клиники
+export function clinicNow(now = new Date()): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: CLINIC_TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// Календарная арифметика над YYYY-MM-DD в UTC, чтобы пояс браузера не сдвигал дату
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+const weekdayOf = (dateKey: string) => DAY_KEYS[new Date(`${dateKey}T00:00:00Z`).getUTCDay()];
+
+export function hoursOn(schedule: ClinicSchedule, dateKey: string): DayHours | null {
+  const exception = schedule.exceptions[dateKey];
+  return parseHours(exception ? exception.hours : schedule.weekly[weekdayOf(dateKey)]);
+}
+
+export const isOpenOn = (schedule: ClinicSchedule, dateKey: string) => hoursOn(schedule, dateKey) !== null;
+
+export function getOpenStatus(schedule: ClinicSchedule, now = new Date()): OpenStatus {
+  const { date, time } = clinicNow(now);
+  const today = hoursOn(schedule, date);
+  const note = schedule.exceptions[date]?.note || null;
+
+  if (today && time >= today.open && time < today.close) {
+    return { isOpen: true, closesAt: today.close, opensAt: null, note };
+  }
+  if (today && time < today.open) {
+    return { isOpen: false, closesAt: null, opensAt: { date, time: today.open }, note };
+  }
+  for (let i = 1; i <= LOOKAHEAD_DAYS; i++) {
+    const next = addDays(date, i);
+    const hours = hoursOn(schedule, next);
+    if (hours) return { isOpen: false, closesAt: null, opensAt: { date: next, time: hours.open }, note };
+  }
+  return { isOpen: false, closesAt: null, opensAt: null, note };
+}
+
+const formatDate = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('ru-RU', { timeZone: 'UTC', day: 'numeric', month: 'long' });
+
+// "Открыто до 22:00", "Закрыто, откроется завтра в 09:00", "Закрыто, откроется 3 января в 08:00"
+export function formatOpenStatus(status: OpenStatus, now = new Date()): string {
+  if (status.isOpen) return `Открыто до ${status.closesAt}`;
+  if (!status.opensAt) return 'Закрыто';
+  const today = clinicNow(now).date;
+  const day =
+    status.opensAt.date === today
+      ? 'сегодня'
+      : status.opensAt.date === addDays(today, 1)
+        ? 'завтра'
+        : formatDate(status.opensAt.date);
+  return `Закрыто, откроется ${day} в ${status.opensAt.time}`;
+}
+
+// Ближайшие дни, когда график отличается от обычного: для страницы контактов
+export function upcomingExceptions(
+  schedule: ClinicSchedule,
+  days = 30,
+  now = new Date()
+): { date: string; label: string; hours: DayHours | null; note: string }[] {
+  const today = clinicNow(now).date;
+  const until = addDays(today, days);
+  return Object.entries(schedule.exceptions)
+    .filter(([date]) => date >= today && date <= until)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, exception]) => ({ date, label: formatDate(date), hours: parseHours(exception.hours), note: exception.note }));
+}
@@ -1,3 +1,5 @@
+import { createQueryMatcher, normalizeSearchText, type QueryMatcher } from './textMatch';
+
 // Map UI direction slugs to human names and matching predicates for API data
 export interface DirectionConfig {
     slug: string;
@@ -42,9 +44,23 @@ export function getDirectionBySlug(slug: string) {
     return DIRECTIONS.find(d => d.slug === slug);
 }
 
+// Ключевое слово совпадает как подстрока или по основам слов: "пластический хирург"
+// находит "Пластическая хирургия". Опечатки здесь не допускаются.
+const keywordMatchers = new Map<string, QueryMatcher>();
+
+function keywordMatcher(keyword: string): QueryMatcher {
+    let matcher = keywordMatchers.get(keyword);
+    if (!matcher) {
+        matcher = createQueryMatcher(keyword, { typos: false });
+        keywordMatchers.set(keyword, matcher);
+    }
+    return matcher;
+}
+
 export function keywordMatch(text: string, keywords: string[]) {
-    const lower = (text || '').toLowerCase();
-    return keywords.some(k => lower.includes(k));
+    const normalized = normalizeSearchText(text);
+    if (!normalized) return false;
+    return keywords.some(k => normalized.includes(normalizeSearchText(k)) || keywordMatcher(k).matches(text));
 }
 
 
@@ -7,6 +7,10 @@ import type {
   FAQ, 
   Contact, 
   ClinicInfo,
+  ClinicDocument,
+  ClinicHoliday,
+  ClinicBranch,
+  BranchPrice,
   DirectusResponse,
   DirectusListResponse,
   ApiService
@@ -232,6 +236,31 @@ class DirectusService {
     return this.request<DirectusResponse<ClinicInfo>>('clinic_info');
   }
 
+  // Праздничные дни и графики филиалов
+  async getHolidays(): Promise<DirectusListResponse<ClinicHoliday>> {
+    return this.request<DirectusListResponse<ClinicHoliday>>('holidays?sort=date&limit=-1');
+  }
+
+  async getBranches(): Promise<DirectusListResponse<ClinicBranch>> {
+    return this.request<DirectusListResponse<ClinicBranch>>('branches?sort=name');
+  }
+
+  async getBranchPrices(): Promise<DirectusListResponse<BranchPrice>> {
+    return this.request<DirectusListResponse<BranchPrice>>('branch_prices?limit=-1');
+  }
+
+  // Documents
+  async getDocuments(): Promise<DirectusListResponse<ClinicDocument>> {
+    return this.request<DirectusListResponse<ClinicDocument>>(
+      'documents?sort=sort&fields=id,title,description,url,sort,file.id,file.filename_download,file.filesize,file.type'
+    );
+  }
+
+  // Ссылка на файл из Directus; download — отдать как вложение
+  getAssetUrl(fileId: string, download = false): string {
+    return `${this.baseUrl}/assets/${fileId}${download ? '?download' : ''}`;
+  }
+
   // Submit contact form
   async submitContactForm(data: {
     name: string;
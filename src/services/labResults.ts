@@ -0,0 +1,130 @@
+// Lab results: the patient's completed orders in the cabinet and one-time access
+// by order number + birth date + SMS code for patients without an account.
+
+import authService from './auth';
+
+export type ReferenceFlag = 'low' | 'high' | null;
+
+export interface LabResultItem {
+  name: string;
+  value: string | number;
+  unit: string;
+  referenceMin: number | null;
+  referenceMax: number | null;
+  referenceText: string;
+  // Выход за референсный интервал, рассчитывается на сервере
+  flag: ReferenceFlag;
+}
+
+export interface LabOrder {
+  orderNumber: string;
+  patientName: string;
+  status: 'in_progress' | 'completed';
+  takenAt: string | null;
+  completedAt: string | null;
+  items: LabResultItem[];
+  documents: { id: string; name: string }[];
+}
+
+export interface LabAccessRequest {
+  requestId: string;
+  // Маска номера, на который ушел код: +7 (***) ***-22-33
+  phone: string;
+  expiresIn: number;
+}
+
+export interface LabAccess {
+  token: string;
+  expiresAt: string;
+}
+
+// Заказ по одноразовому токену; бланки скачиваются по отдельной короткой сессии
+export interface SharedLabOrder extends LabOrder {
+  documentsToken: string;
+  documentsExpiresAt: string;
+}
+
+// Неверный SMS-код; attemptsLeft — сколько попыток осталось до сброса кода
+export class LabCodeError extends Error {
+  attemptsLeft: number;
+
+  constructor(message: string, attemptsLeft: number) {
+    super(message);
+    this.name = 'LabCodeError';
+    this.attemptsLeft = attemptsLeft;
+  }
+}
+
+class LabResultsService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.apiUrl}/api/lab-results${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options?.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      if (errorData?.errorCode === 'INVALID_CODE') {
+        throw new LabCodeError(errorData.message, errorData.attemptsLeft ?? 0);
+      }
+      throw new Error(errorData?.message || `HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  private async authHeaders(): Promise<HeadersInit> {
+    const token = await authService.getValidToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  async getMyResults(): Promise<LabOrder[]> {
+    const response = await this.request<{ data: LabOrder[] }>('/mine', { headers: await this.authHeaders() });
+    return response.data;
+  }
+
+  // Бланк из кабинета скачивается с токеном, поэтому отдаем Blob, а не ссылку
+  async downloadMyDocument(orderNumber: string, documentId: string): Promise<Blob> {
+    const response = await fetch(
+      `${this.apiUrl}/api/lab-results/mine/${encodeURIComponent(orderNumber)}/documents/${encodeURIComponent(documentId)}`,
+      { headers: await this.authHeaders() }
+    );
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+    return response.blob();
+  }
+
+  async requestAccess(orderNumber: string, birthDate: string): Promise<LabAccessRequest> {
+    return this.request<LabAccessRequest>('/access', {
+      method: 'POST',
+      body: JSON.stringify({ orderNumber: orderNumber.trim(), birthDate }),
+    });
+  }
+
+  async verifyAccess(requestId: string, code: string): Promise<LabAccess> {
+    return this.request<LabAccess>('/access/verify', {
+      method: 'POST',
+      body: JSON.stringify({ requestId, code: code.trim() }),
+    });
+  }
+
+  // Токен доступа одноразовый: второй вызов с ним вернет ошибку
+  async getSharedOrder(token: string): Promise<SharedLabOrder> {
+    return this.request<SharedLabOrder>(`/access/${encodeURIComponent(token)}`);
+  }
+
+  getSharedDocumentUrl(documentsToken: string, documentId: string): string {
+    return `${this.apiUrl}/api/lab-results/access/${encodeURIComponent(documentsToken)}/documents/${encodeURIComponent(documentId)}`;
+  }
+}
+
+export const labResultsService = new LabResultsService();
+export default labResultsService;
@@ -0,0 +1,73 @@
+// Lead (contact form) service: submits requests to server.js
+
+export interface LeadRequest {
+  name: string;
+  phone: string;
+  email: string;
+  message: string;
+  agreeToTerms: boolean;
+  agreeToSiteConsent: boolean;
+  // Страница, с которой отправлена заявка
+  page?: string;
+}
+
+export interface LeadResponse {
+  id: string;
+  message: string;
+}
+
+export type LeadField = keyof Omit<LeadRequest, 'page'>;
+export type LeadFieldErrors = Partial<Record<LeadField, string>>;
+
+// Сервер отклонил заявку: ошибки по полям формы
+export class LeadValidationError extends Error {
+  fields: LeadFieldErrors;
+
+  constructor(message: string, fields: LeadFieldErrors) {
+    super(message);
+    this.name = 'LeadValidationError';
+    this.fields = fields;
+  }
+}
+
+class LeadService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  /**
+   * Отправка заявки из формы обратной связи
+   */
+  async submitLead(data: LeadRequest): Promise<LeadResponse> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/leads`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        if (errorData?.errorCode === 'VALIDATION_ERROR') {
+          throw new LeadValidationError(errorData.message, errorData.fields || {});
+        }
+        throw new Error(
+          errorData?.message ||
+          `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error submitting lead:', error);
+      throw error;
+    }
+  }
+}
+
+export const leadService = new LeadService();
+export default leadService;
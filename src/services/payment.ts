@@ -19,9 +19,12 @@ export interface CertificatePaymentData extends PaymentData {
   message?: string;
 }
 
+export type PaymentKind = 'certificate' | 'appointment';
+
 export interface AlfaBankPaymentResponse {
   formUrl: string;
   orderId: string;
+  orderNumber?: string;
   errorCode?: string;
   errorMessage?: string;
 }
@@ -44,46 +47,31 @@ export interface AlfaBankOrderStatus {
 class PaymentService {
   private apiUrl: string;
   private apiKey: string;
-  private alfaBankUrl: string;
-  private alfaBankToken: string;
-  private alfaBankLogin: string;
-  private alfaBankPassword: string;
 
+  // Реквизиты Альфа-Банка хранятся только на сервере (server/config.js),
+  // клиент обращается к банку исключительно через прокси /api/payment/*
   constructor() {
     this.apiUrl = import.meta.env.VITE_PAYMENT_API_URL || '';
     this.apiKey = import.meta.env.VITE_PAYMENT_API_KEY || '';
-    
-    // Определяем среду
-    const isProduction = import.meta.env.PROD || false;
-    
-    if (isProduction) {
-      // Продакшн среда
-      this.alfaBankUrl = 'https://pay.alfabank.ru/payment/rest';
-      this.alfaBankToken = 'pfcr5js74l5jnsqcsrms960nok';
-      this.alfaBankLogin = 'clinicaldan-operator';
-      this.alfaBankPassword = 'vy_$2BTVD*KVD#u/';
-    } else {
-      // Тестовая среда
-      this.alfaBankUrl = 'https://alfa.rbsuat.com/payment/rest';
-      this.alfaBankToken = 'pfcr5js74l5jnsqcsrms960nok';
-      this.alfaBankLogin = 'clinicaldan-operator';
-      this.alfaBankPassword = 'KACr2LiW3R?';
-    }
-    
-    console.log(`🔗 Платежный сервис инициализирован в ${isProduction ? 'ПРОДАКШН' : 'ТЕСТОВОЙ'} среде`);
-    console.log(`🌐 URL Альфа-Банка: ${this.alfaBankUrl}`);
   }
 
   // Создание платежа через Альфа-Банк
-  async createAlfaBankPayment(data: CertificatePaymentData): Promise<AlfaBankPaymentResponse> {
+  async createAlfaBankPayment(
+    data: CertificatePaymentData,
+    kind: PaymentKind = 'certificate'
+  ): Promise<AlfaBankPaymentResponse> {
     try {
-      const orderNumber = this.generateOrderNumber();
-      
+      // Номер заказа генерирует сервер и сохраняет заказ в журнале
       const requestData = {
         amount: data.amount,
         returnUrl: data.returnUrl,
         failUrl: data.cancelUrl,
-        description: data.description
+        description: data.description,
+        kind,
+        customer: {
+          name: data.customerName,
+          email: data.customerEmail
+        }
       };
 
       // Используем наш прокси-сервер для обхода CORS
@@ -109,7 +97,8 @@ class PaymentService {
 
       return {
         formUrl: result.formUrl,
-        orderId: result.orderId
+        orderId: result.orderId,
+        orderNumber: result.orderNumber
       };
     } catch (error) {
       console.error('Error creating Alfa Bank payment:', error);
@@ -153,10 +142,13 @@ class PaymentService {
   }
 
   // Создание платежа для подарочного сертификата (обновленная версия)
-  async createCertificatePayment(data: CertificatePaymentData): Promise<{ paymentUrl: string; orderId: string }> {
+  async createCertificatePayment(
+    data: CertificatePaymentData,
+    kind: PaymentKind = 'certificate'
+  ): Promise<{ paymentUrl: string; orderId: string }> {
     try {
       // Используем Альфа-Банк для создания платежа
-      const result = await this.createAlfaBankPayment(data);
+      const result = await this.createAlfaBankPayment(data, kind);
       return {
         paymentUrl: result.formUrl,
         orderId: result.orderId
@@ -206,7 +198,7 @@ class PaymentService {
         message: ''
       };
       
-      return await this.createCertificatePayment(certificateData);
+      return await this.createCertificatePayment(certificateData, 'appointment');
     } catch (error) {
       console.error('Error creating appointment payment:', error);
       throw error;
@@ -0,0 +1,160 @@
+// Site-wide search index over doctors, services, directions and FAQ for the header
+// search and /search. Matching itself lives in textMatch.ts.
+
+import archimedService, { isPublicDoctor } from './archimed';
+import { DIRECTIONS } from './directions';
+import { createQueryMatcher, type SearchField } from './textMatch';
+import siteContentService from './siteContent';
+import type { FAQItem } from '../data/faq';
+import type { ApiService, ArchimedDoctor } from '../types/cms';
+
+export type SearchResultType = 'doctor' | 'service' | 'direction' | 'faq';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  url: string;
+  score: number;
+}
+
+export type GroupedSearchResults = Record<SearchResultType, SearchResult[]>;
+
+export const SEARCH_RESULT_LABELS: Record<SearchResultType, string> = {
+  direction: 'Направления',
+  doctor: 'Врачи',
+  service: 'Услуги',
+  faq: 'Вопросы и ответы',
+};
+
+// Порядок групп в выдаче
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['direction', 'doctor', 'service', 'faq'];
+
+interface IndexedDocument extends Omit<SearchResult, 'score'> {
+  fields: SearchField[];
+}
+
+// Группы, скрытые из прайс-листа, не показываем и в поиске
+const HIDDEN_SERVICE_GROUPS = /стомат|физиотерап/i;
+
+const doctorFullName = (doctor: ArchimedDoctor) =>
+  [doctor.name, doctor.name1, doctor.name2].filter(Boolean).join(' ');
+
+function doctorDocument(doctor: ArchimedDoctor): IndexedDocument {
+  const specialties = [doctor.type, ...(doctor.types || []).map((t) => t.name)].filter(Boolean);
+  return {
+    type: 'doctor',
+    id: `doctor-${doctor.id}`,
+    title: doctorFullName(doctor),
+    subtitle: [...new Set(specialties)].join(', '),
+    url: `/doctors/${doctor.id}`,
+    fields: [
+      { text: doctorFullName(doctor), weight: 3 },
+      ...specialties.map((text) => ({ text, weight: 2 })),
+      { text: doctor.branch },
+    ],
+  };
+}
+
+function serviceDocument(service: ApiService): IndexedDocument {
+  return {
+    type: 'service',
+    id: `service-${service.id}`,
+    title: service.name,
+    subtitle: [service.group_name, service.base_cost > 0 ? `${service.base_cost.toLocaleString('ru-RU')} ₽` : '']
+      .filter(Boolean)
+      .join(' · '),
+    url: `/prices?q=${encodeURIComponent(service.name)}`,
+    fields: [
+      { text: service.name, weight: 3 },
+      { text: service.altname, weight: 2 },
+      { text: service.group_name },
+      { text: service.code },
+    ],
+  };
+}
+
+function buildStaticDocuments(faqItems: FAQItem[]): IndexedDocument[] {
+  const directions: IndexedDocument[] = DIRECTIONS.map((direction) => ({
+    type: 'direction',
+    id: `direction-${direction.slug}`,
+    title: direction.title,
+    url: `/services/${direction.slug}`,
+    fields: [{ text: direction.title, weight: 3 }],
+  }));
+  const faq: IndexedDocument[] = faqItems.map((item) => ({
+    type: 'faq',
+    id: `faq-${item.id}`,
+    title: item.question,
+    subtitle: item.category,
+    url: `/questions?q=${encodeURIComponent(item.question)}`,
+    fields: [
+      { text: item.question, weight: 2 },
+      { text: item.answer },
+    ],
+  }));
+  return [...directions, ...faq];
+}
+
+class SiteSearchService {
+  private documents: IndexedDocument[] | null = null;
+  private loading: Promise<IndexedDocument[]> | null = null;
+
+  // Индекс строится один раз из кэша ArchimedService и FAQ из Directus. Если врачей или услуги
+  // получить не удалось, поиск идет по тому, что есть, но индекс не кэшируется — следующий
+  // поиск запросит недостающее снова
+  private loadDocuments(): Promise<IndexedDocument[]> {
+    if (this.documents) return Promise.resolve(this.documents);
+    if (!this.loading) {
+      let complete = true;
+      const orEmpty = <T>(promise: Promise<T[]>) =>
+        promise.catch(() => {
+          complete = false;
+          return [] as T[];
+        });
+
+      this.loading = Promise.all([
+        orEmpty<ArchimedDoctor>(archimedService.getDoctors()),
+        orEmpty<ApiService>(archimedService.getServices()),
+        siteContentService.getFAQ(),
+      ])
+        .then(([doctors, services, faqItems]) => {
+          const documents = [
+            ...buildStaticDocuments(faqItems),
+            ...doctors.filter(isPublicDoctor).map(doctorDocument),
+            ...services
+              .filter((s) => s.base_cost > 0 && !HIDDEN_SERVICE_GROUPS.test(s.group_name || ''))
+              .map(serviceDocument),
+          ];
+          if (complete) this.documents = documents;
+          return documents;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  // Результаты по группам, в каждой не больше limitPerType, лучшие сверху
+  async search(query: string, limitPerType = 5): Promise<GroupedSearchResults> {
+    const grouped: GroupedSearchResults = { direction: [], doctor: [], service: [], faq: [] };
+    const matcher = createQueryMatcher(query);
+    if (matcher.isEmpty) return grouped;
+
+    for (const { fields, ...document } of await this.loadDocuments()) {
+      const score = matcher.score(fields);
+      if (score > 0) grouped[document.type].push({ ...document, score });
+    }
+    for (const type of SEARCH_RESULT_TYPES) {
+      grouped[type] = grouped[type]
+        .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title, 'ru'))
+        .slice(0, limitPerType);
+    }
+    return grouped;
+  }
+}
+
+export const siteSearchService = new SiteSearchService();
+export default siteSearchService;
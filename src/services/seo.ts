@@ -0,0 +1,271 @@
+// Заголовки, описания, Open Graph и разметка schema.org для страниц. Те же данные использует
+// пререндер (scripts/prerender.mjs), чтобы страницы врачей и направлений были видны без JavaScript.
+
+import type { Branch } from './branches';
+import { parseHours, upcomingExceptions, type ClinicSchedule, type WorkingHours } from './clinicSchedule';
+import type { DirectionConfig } from './directions';
+import type { ClinicDetails } from './siteContent';
+import type { ApiService, ArchimedDoctor } from '../types/cms';
+
+export const SITE_NAME = import.meta.env.VITE_SITE_NAME || 'Клиника Алдан';
+export const SITE_URL = (import.meta.env.VITE_SITE_URL || 'https://clinicaldan.ru').replace(/\/$/, '');
+
+const DESCRIPTION_MAX_LENGTH = 160;
+// Превью для соцсетей, если у страницы нет своей картинки
+const DEFAULT_IMAGE = '/Logo.png';
+// Прайс-лист — тысячи позиций; в разметку попадают первые, чтобы не раздувать страницу
+const MAX_STRUCTURED_OFFERS = 100;
+
+export type StructuredData = Record<string, unknown>;
+
+export interface PageMeta {
+  path: string;
+  title: string;
+  description: string;
+  image?: string;
+  type?: 'website' | 'profile';
+  structuredData?: StructuredData[];
+}
+
+export interface MetaTag {
+  attribute: 'name' | 'property';
+  key: string;
+  content: string;
+}
+
+// Страницы без параметров, которые имеет смысл индексировать
+export const STATIC_PAGES: PageMeta[] = [
+  {
+    path: '/',
+    title: SITE_NAME,
+    description:
+      'Клиника Алдан - современная медицинская клиника с высококвалифицированными специалистами. Широкий спектр медицинских услуг в Кызыле.',
+  },
+  {
+    path: '/about',
+    title: 'О клинике',
+    description: 'Клиника Алдан в Кызыле: история, лицензии, оборудование и специалисты многопрофильного медицинского центра.',
+  },
+  {
+    path: '/doctors',
+    title: 'Врачи',
+    description: 'Врачи Клиники Алдан в Кызыле: специальности, опыт работы и онлайн-запись на прием.',
+  },
+  {
+    path: '/prices',
+    title: 'Цены на услуги',
+    description: 'Прайс-лист Клиники Алдан: стоимость приемов врачей, диагностики и анализов в Кызыле.',
+  },
+  {
+    path: '/reviews',
+    title: 'Отзывы пациентов',
+    description: 'Отзывы пациентов о врачах и услугах Клиники Алдан в Кызыле.',
+  },
+  {
+    path: '/stock',
+    title: 'Акции',
+    description: 'Действующие акции и специальные предложения Клиники Алдан.',
+  },
+  {
+    path: '/contacts',
+    title: 'Контакты',
+    description: 'Адрес, телефоны и режим работы Клиники Алдан в Кызыле. Схема проезда и онлайн-запись.',
+  },
+  {
+    path: '/questions',
+    title: 'Вопросы и ответы',
+    description: 'Ответы на частые вопросы пациентов Клиники Алдан: запись, подготовка к исследованиям, оплата.',
+  },
+  {
+    path: '/documents',
+    title: 'Документы',
+    description: 'Лицензии, правовые документы и информация для пациентов Клиники Алдан.',
+  },
+  {
+    path: '/certificates',
+    title: 'Подарочные сертификаты',
+    description: 'Подарочные сертификаты Клиники Алдан на медицинские услуги.',
+  },
+];
+
+// Неизвестные адреса получают описание главной страницы, но свой canonical
+export function staticPageMeta(path: string): PageMeta {
+  const normalized = path.length > 1 ? path.replace(/\/$/, '') : path;
+  return STATIC_PAGES.find((page) => page.path === normalized) || { ...STATIC_PAGES[0], path: normalized };
+}
+
+export const pageTitle = (title: string) => (title === SITE_NAME ? title : `${title} — ${SITE_NAME}`);
+
+export const canonicalUrl = (path: string) => `${SITE_URL}${path === '/' ? '/' : path.replace(/\/$/, '')}`;
+
+export const absoluteUrl = (url: string) => (/^https?:\/\//.test(url) ? url : `${SITE_URL}${url.startsWith('/') ? '' : '/'}${url}`);
+
+// description и Open Graph; title и canonical задаются отдельно
+export function metaTags(meta: PageMeta): MetaTag[] {
+  return [
+    { attribute: 'name', key: 'description', content: meta.description },
+    { attribute: 'property', key: 'og:type', content: meta.type || 'website' },
+    { attribute: 'property', key: 'og:site_name', content: SITE_NAME },
+    { attribute: 'property', key: 'og:locale', content: 'ru_RU' },
+    { attribute: 'property', key: 'og:title', content: pageTitle(meta.title) },
+    { attribute: 'property', key: 'og:description', content: meta.description },
+    { attribute: 'property', key: 'og:url', content: canonicalUrl(meta.path) },
+    { attribute: 'property', key: 'og:image', content: absoluteUrl(meta.image || DEFAULT_IMAGE) },
+    { attribute: 'name', key: 'twitter:card', content: meta.image ? 'summary' : 'summary_large_image' },
+  ];
+}
+
+// Описание в одну строку и не длиннее, чем показывают поисковики
+export function metaDescription(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  if (line.length <= DESCRIPTION_MAX_LENGTH) return line;
+  const cut = line.slice(0, DESCRIPTION_MAX_LENGTH - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${space > 0 ? cut.slice(0, space) : cut}…`;
+}
+
+export const doctorFullName = (doctor: ArchimedDoctor) =>
+  [doctor.name, doctor.name1, doctor.name2].filter(Boolean).join(' ');
+
+// Фото из ProDoctorov бывают встроенными data: URL — для превью они не годятся
+const doctorPhoto = (doctor: ArchimedDoctor) =>
+  doctor.photo && !doctor.photo.startsWith('data:') ? absoluteUrl(doctor.photo) : undefined;
+
+const postalAddress = (address: string) => ({
+  '@type': 'PostalAddress',
+  streetAddress: address,
+  addressCountry: 'RU',
+});
+
+// Адрес — филиала, где принимает врач; без него — адрес из карточки врача
+export function doctorMeta(doctor: ArchimedDoctor, address = doctor.address): PageMeta {
+  const name = doctorFullName(doctor);
+  const specialty = doctor.type || 'Врач';
+  const about = (doctor.info || '').split('\n')[0];
+  const path = `/doctors/${doctor.id}`;
+  const specialties = (doctor.types || []).map((t) => t.name).filter(Boolean);
+  return {
+    path,
+    title: `${name} — ${specialty}`,
+    description: metaDescription(
+      `${specialty} ${name} в Клинике Алдан, Кызыл. ${about ? `${about.replace(/\.?$/, '.')} ` : ''}Онлайн-запись на прием.`
+    ),
+    image: doctorPhoto(doctor),
+    type: 'profile',
+    structuredData: [
+      {
+        '@context': 'https://schema.org',
+        '@type': 'Physician',
+        name,
+        medicalSpecialty: specialties.length > 0 ? specialties : [specialty],
+        image: doctorPhoto(doctor),
+        url: canonicalUrl(path),
+        address: address ? postalAddress(address) : undefined,
+      },
+    ],
+  };
+}
+
+export function directionMeta(direction: DirectionConfig): PageMeta {
+  return {
+    path: `/services/${direction.slug}`,
+    title: direction.title,
+    description: metaDescription(
+      `${direction.title} в Клинике Алдан, Кызыл: услуги, цены и врачи направления. Онлайн-запись на прием.`
+    ),
+  };
+}
+
+// Услуги с ценой как MedicalProcedure с предложением (Offer); бесплатные и без цены пропускаются
+export function proceduresData(services: ApiService[]): StructuredData[] {
+  const unique = [...new Map(services.map((s) => [s.id, s])).values()];
+  const priced = unique.filter((s) => s.base_cost > 0).slice(0, MAX_STRUCTURED_OFFERS);
+  if (priced.length === 0) return [];
+  return [
+    {
+      '@context': 'https://schema.org',
+      '@graph': priced.map((service) => ({
+        '@type': 'MedicalProcedure',
+        name: service.name,
+        description: service.altname || service.info || undefined,
+        offers: {
+          '@type': 'Offer',
+          price: service.base_cost,
+          priceCurrency: 'RUB',
+          availability: 'https://schema.org/InStock',
+        },
+      })),
+    },
+  ];
+}
+
+const SCHEMA_DAYS: Record<keyof WorkingHours, string> = {
+  monday: 'https://schema.org/Monday',
+  tuesday: 'https://schema.org/Tuesday',
+  wednesday: 'https://schema.org/Wednesday',
+  thursday: 'https://schema.org/Thursday',
+  friday: 'https://schema.org/Friday',
+  saturday: 'https://schema.org/Saturday',
+  sunday: 'https://schema.org/Sunday',
+};
+
+// Недельный график одной записью на каждые часы работы; выходные не указываются.
+// Праздничные дни ближайшего месяца — отдельно, выходной обозначается 00:00-00:00
+function openingHours(schedule: ClinicSchedule): StructuredData {
+  const groups = new Map<string, { opens: string; closes: string; days: string[] }>();
+  for (const day of Object.keys(SCHEMA_DAYS) as (keyof WorkingHours)[]) {
+    const hours = parseHours(schedule.weekly[day]);
+    if (!hours) continue;
+    const key = `${hours.open}-${hours.close}`;
+    const group = groups.get(key) || { opens: hours.open, closes: hours.close, days: [] };
+    group.days.push(SCHEMA_DAYS[day]);
+    groups.set(key, group);
+  }
+  const special = upcomingExceptions(schedule);
+  return {
+    openingHoursSpecification: [...groups.values()].map((group) => ({
+      '@type': 'OpeningHoursSpecification',
+      dayOfWeek: group.days,
+      opens: group.opens,
+      closes: group.closes,
+    })),
+    specialOpeningHoursSpecification:
+      special.length > 0
+        ? special.map((day) => ({
+            '@type': 'OpeningHoursSpecification',
+            validFrom: day.date,
+            validThrough: day.date,
+            opens: day.hours?.open || '00:00',
+            closes: day.hours?.close || '00:00',
+          }))
+        : undefined,
+  };
+}
+
+// Клиника с часами работы; при нескольких филиалах каждый — отдельное подразделение
+export function clinicData(clinic: ClinicDetails, branches: Branch[] = []): StructuredData[] {
+  return [
+    {
+      '@context': 'https://schema.org',
+      '@type': 'MedicalClinic',
+      name: clinic.name,
+      url: `${SITE_URL}/`,
+      image: absoluteUrl(DEFAULT_IMAGE),
+      address: postalAddress(clinic.address),
+      telephone: clinic.phones[0]?.value,
+      email: clinic.email || undefined,
+      ...openingHours(clinic.schedule),
+      department:
+        branches.length > 1
+          ? branches.map((branch) => ({
+              '@type': 'MedicalClinic',
+              name: branch.name,
+              url: canonicalUrl(`/branches/${branch.id}`),
+              address: postalAddress(branch.address),
+              telephone: branch.phone?.value,
+              ...openingHours(branch.schedule),
+            }))
+          : undefined,
+    },
+  ];
+}
@@ -1,3 +1,6 @@
+import type { ApiService } from '../types/cms';
+import { DIRECTIONS, keywordMatch } from './directions';
+
 // Система категоризации услуг по типам
 export interface ServiceCategory {
     id: string;
@@ -13,6 +16,8 @@ export interface ServiceSubcategory {
     name: string;
     slug: string;
     parentCategory: string;
+    // Направление (slug из DIRECTIONS), к которому относится подкатегория
+    direction: string;
     keywords: string[];
     description: string;
 }
@@ -25,7 +30,7 @@ export const SERVICE_CATEGORIES: ServiceCategory[] = [
         slug: 'laboratory',
         icon: '🧪',
         description: 'Анализы крови, мочи, биохимические исследования',
-        keywords: ['анализ', 'кровь', 'моча', 'биохимия', 'гематолог', 'лаборатор', 'исследование']
+        keywords: ['анализ', 'кровь', 'моча', 'биохимия', 'гематолог', 'лаборатор', 'пцр', 'мазок', 'антитела', 'гистолог', 'цитолог']
     },
     {
         id: 'ultrasound',
@@ -93,6 +98,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Гинекологические УЗИ',
         slug: 'gynecology-ultrasound',
         parentCategory: 'ultrasound',
+        direction: 'gynecology',
         keywords: ['гинек', 'узи', 'матка', 'яичник', 'фолликул', 'беременность'],
         description: 'УЗИ органов малого таза, фолликулометрия, скрининг беременности'
     },
@@ -101,6 +107,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Гинекологические консультации',
         slug: 'gynecology-consultations',
         parentCategory: 'consultations',
+        direction: 'gynecology',
         keywords: ['гинек', 'консультация', 'прием', 'осмотр'],
         description: 'Приемы гинеколога, профилактические осмотры'
     },
@@ -109,6 +116,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Гинекологические анализы',
         slug: 'gynecology-analyses',
         parentCategory: 'laboratory',
+        direction: 'gynecology',
         keywords: ['гинек', 'анализ', 'мазок', 'гормон', 'инфекц', 'цитолог'],
         description: 'Анализы на инфекции, гормоны, цитология'
     },
@@ -117,6 +125,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Гинекологическая хирургия',
         slug: 'gynecology-surgery',
         parentCategory: 'surgery',
+        direction: 'gynecology',
         keywords: ['гинек', 'лазер', 'операция', 'удаление', 'коагуляция'],
         description: 'Лазерная гинекология, малоинвазивные операции'
     },
@@ -127,6 +136,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Урологические УЗИ',
         slug: 'urology-ultrasound',
         parentCategory: 'ultrasound',
+        direction: 'urology',
         keywords: ['урол', 'узи', 'почка', 'мочевой', 'простата'],
         description: 'УЗИ почек, мочевого пузыря, простаты'
     },
@@ -135,6 +145,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Урологические консультации',
         slug: 'urology-consultations',
         parentCategory: 'consultations',
+        direction: 'urology',
         keywords: ['урол', 'консультация', 'прием', 'осмотр'],
         description: 'Приемы уролога, профилактические осмотры'
     },
@@ -143,6 +154,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Урологические анализы',
         slug: 'urology-analyses',
         parentCategory: 'laboratory',
+        direction: 'urology',
         keywords: ['урол', 'анализ', 'моча', 'посев', 'спермограмм'],
         description: 'Анализы мочи, посевы, спермограмма'
     },
@@ -153,6 +165,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Кардиологические консультации',
         slug: 'cardiology-consultations',
         parentCategory: 'consultations',
+        direction: 'cardiology',
         keywords: ['карди', 'консультация', 'прием', 'осмотр'],
         description: 'Приемы кардиолога, консультации по заболеваниям сердца'
     },
@@ -161,6 +174,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Кардиологическая диагностика',
         slug: 'cardiology-functional',
         parentCategory: 'functional',
+        direction: 'cardiology',
         keywords: ['карди', 'экг', 'эхокардио', 'холтер', 'велоэргометр'],
         description: 'ЭКГ, эхокардиография, холтеровское мониторирование'
     },
@@ -169,6 +183,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Кардиологические анализы',
         slug: 'cardiology-analyses',
         parentCategory: 'laboratory',
+        direction: 'cardiology',
         keywords: ['карди', 'анализ', 'тропонин', 'креатинкиназа', 'липид'],
         description: 'Анализы на маркеры сердечных заболеваний'
     },
@@ -179,6 +194,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Гастроэнтерологические консультации',
         slug: 'gastro-consultations',
         parentCategory: 'consultations',
+        direction: 'gastroenterology',
         keywords: ['гастро', 'консультация', 'прием', 'осмотр'],
         description: 'Приемы гастроэнтеролога, консультации по ЖКТ'
     },
@@ -187,6 +203,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Гастроэнтерологическая эндоскопия',
         slug: 'gastro-endoscopy',
         parentCategory: 'endoscopy',
+        direction: 'gastroenterology',
         keywords: ['гастро', 'эндоскоп', 'гастроскоп', 'колоноскоп'],
         description: 'Гастроскопия, колоноскопия, ректороманоскопия'
     },
@@ -195,6 +212,7 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Гастроэнтерологические УЗИ',
         slug: 'gastro-ultrasound',
         parentCategory: 'ultrasound',
+        direction: 'gastroenterology',
         keywords: ['гастро', 'узи', 'печень', 'желчный', 'поджелудочная'],
         description: 'УЗИ органов брюшной полости'
     },
@@ -203,57 +221,36 @@ export const SERVICE_SUBCATEGORIES: ServiceSubcategory[] = [
         name: 'Гастроэнтерологические анализы',
         slug: 'gastro-analyses',
         parentCategory: 'laboratory',
+        direction: 'gastroenterology',
         keywords: ['гастро', 'анализ', 'печеночн', 'амилаза', 'липаза'],
         description: 'Анализы на ферменты, маркеры заболеваний ЖКТ'
     }
 ];
 
-// Функция для получения категории по ключевым словам
-export function getServiceCategory(serviceName: string, serviceGroup?: string): ServiceCategory | null {
-    const text = `${serviceName} ${serviceGroup || ''}`.toLowerCase();
+// Угадывание по ключевым словам — запасной вариант для услуг, которых нет в таксономии
+// (см. serviceTaxonomy.ts). Сравнение учитывает морфологию: keywordMatch.
 
-    for (const category of SERVICE_CATEGORIES) {
-        if (category.keywords.some(keyword => text.includes(keyword))) {
-            return category;
-        }
-    }
+const serviceText = (service: ApiService) => [service.name, service.altname, service.group_name].filter(Boolean).join(' ');
 
-    return null;
+export function guessServiceCategory(service: ApiService): ServiceCategory | null {
+    const text = serviceText(service);
+    return SERVICE_CATEGORIES.find(category => keywordMatch(text, category.keywords)) || null;
 }
 
-// Функция для получения подкатегории по ключевым словам
-export function getServiceSubcategory(serviceName: string, serviceGroup?: string, direction?: string): ServiceSubcategory | null {
-    const text = `${serviceName} ${serviceGroup || ''} ${direction || ''}`.toLowerCase();
-
-    for (const subcategory of SERVICE_SUBCATEGORIES) {
-        if (subcategory.keywords.some(keyword => text.includes(keyword))) {
-            return subcategory;
-        }
-    }
-
-    return null;
+// Подкатегория ищется только внутри категории и направлений услуги
+export function guessServiceSubcategory(service: ApiService, categoryId: string | null, directions: string[]): ServiceSubcategory | null {
+    if (!categoryId) return null;
+    const text = serviceText(service);
+    const candidates = SERVICE_SUBCATEGORIES.filter(
+        sub => sub.parentCategory === categoryId && directions.includes(sub.direction)
+    );
+    return candidates.find(sub => keywordMatch(text, sub.keywords)) || candidates[0] || null;
 }
 
-// Функция для группировки услуг по категориям
-export function groupServicesByCategory(services: any[], direction?: string) {
-    const grouped: { [key: string]: any[] } = {};
-
-    services.forEach(service => {
-        const category = getServiceCategory(service.name, service.group);
-        const subcategory = getServiceSubcategory(service.name, service.group, direction);
-
-        if (category) {
-            const key = subcategory ? `${category.id}-${subcategory.id}` : category.id;
-            if (!grouped[key]) {
-                grouped[key] = [];
-            }
-            grouped[key].push({
-                ...service,
-                category,
-                subcategory
-            });
-        }
-    });
-
-    return grouped;
+export function guessServiceDirections(service: ApiService): string[] {
+    return DIRECTIONS.filter(direction =>
+        keywordMatch(service.group_name, direction.serviceKeywords) ||
+        keywordMatch(service.name, direction.serviceKeywords) ||
+        keywordMatch(service.altname, direction.serviceKeywords)
+    ).map(direction => direction.slug);
 }
@@ -0,0 +1,207 @@
+// Service taxonomy: which directions, category and subcategory an Archimed service belongs to.
+// Explicit mappings come from the server store (/api/service-taxonomy): a service mapping
+// overrides its group's mapping field by field. Keyword guessing is only the fallback, and
+// the staff panel lists services that still rely on it.
+// Every change produces a new ServiceTaxonomyData object, so components keep it in state and
+// pass it to classify/groupByCategory/getReport — useMemo then recalculates on its own.
+
+import {
+  SERVICE_CATEGORIES,
+  SERVICE_SUBCATEGORIES,
+  type ServiceCategory,
+  type ServiceSubcategory,
+  guessServiceCategory,
+  guessServiceDirections,
+  guessServiceSubcategory,
+} from './serviceCategories';
+import staffService from './staff';
+import type { ApiService } from '../types/cms';
+
+export type TaxonomyKind = 'groups' | 'services';
+
+export interface TaxonomyEntry {
+  directions?: string[];
+  category?: string | null;
+  subcategory?: string | null;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export interface ServiceTaxonomyData {
+  groups: Record<string, TaxonomyEntry>;
+  services: Record<string, TaxonomyEntry>;
+  updatedAt: string | null;
+}
+
+// Откуда взята классификация: своя запись услуги, запись группы или ключевые слова
+export type TaxonomySource = 'service' | 'group' | 'keyword';
+
+export interface ServiceClassification {
+  directions: string[];
+  category: ServiceCategory | null;
+  subcategory: ServiceSubcategory | null;
+  source: TaxonomySource;
+}
+
+export interface ServiceCategoryGroup {
+  key: string;
+  category: ServiceCategory;
+  subcategory: ServiceSubcategory | null;
+  services: ApiService[];
+}
+
+export interface UnmappedGroup {
+  groupId: number;
+  groupName: string;
+  services: { service: ApiService; guess: ServiceClassification }[];
+}
+
+export interface TaxonomyReport {
+  total: number;
+  mapped: number;
+  unmapped: UnmappedGroup[];
+}
+
+const EMPTY_TAXONOMY: ServiceTaxonomyData = { groups: {}, services: {}, updatedAt: null };
+
+class ServiceTaxonomyService {
+  private apiUrl: string;
+  private data: ServiceTaxonomyData = EMPTY_TAXONOMY;
+  private loadPromise: Promise<ServiceTaxonomyData> | null = null;
+  // Классификация кэшируется для каждой версии данных отдельно
+  private cache = new WeakMap<ServiceTaxonomyData, Map<number, ServiceClassification>>();
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  // Загружается один раз; без сервера все услуги классифицируются по ключевым словам
+  load(): Promise<ServiceTaxonomyData> {
+    if (!this.loadPromise) {
+      this.loadPromise = fetch(`${this.apiUrl}/api/service-taxonomy`)
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+          return response.json() as Promise<ServiceTaxonomyData>;
+        })
+        .then((data) => {
+          this.setData(data);
+          return this.data;
+        })
+        .catch((error) => {
+          console.warn('Service taxonomy unavailable, using keyword rules:', error);
+          this.loadPromise = null;
+          return this.data;
+        });
+    }
+    return this.loadPromise;
+  }
+
+  private setData(data: ServiceTaxonomyData): void {
+    this.data = { groups: data.groups || {}, services: data.services || {}, updatedAt: data.updatedAt ?? null };
+  }
+
+  getData(): ServiceTaxonomyData {
+    return this.data;
+  }
+
+  classify(service: ApiService, taxonomy: ServiceTaxonomyData = this.data): ServiceClassification {
+    let cache = this.cache.get(taxonomy);
+    if (!cache) {
+      cache = new Map();
+      this.cache.set(taxonomy, cache);
+    }
+    const cached = cache.get(service.id);
+    if (cached) return cached;
+
+    const own = taxonomy.services[String(service.id)];
+    const group = taxonomy.groups[String(service.group_id)];
+    // Поле берется из записи услуги, затем группы; undefined — сопоставления нет
+    const pick = <K extends 'directions' | 'category' | 'subcategory'>(field: K): TaxonomyEntry[K] | undefined => {
+      if (own && field in own) return own[field];
+      if (group && field in group) return group[field];
+      return undefined;
+    };
+
+    const directions = pick('directions') ?? guessServiceDirections(service);
+    const categoryId = pick('category');
+    const category =
+      categoryId === undefined
+        ? guessServiceCategory(service)
+        : SERVICE_CATEGORIES.find((c) => c.id === categoryId) || null;
+    const subcategoryId = pick('subcategory');
+    const subcategory =
+      subcategoryId === undefined
+        ? guessServiceSubcategory(service, category?.id || null, directions)
+        : SERVICE_SUBCATEGORIES.find((s) => s.id === subcategoryId) || null;
+
+    const classification: ServiceClassification = {
+      directions,
+      category,
+      subcategory,
+      source: own ? 'service' : group ? 'group' : 'keyword',
+    };
+    cache.set(service.id, classification);
+    return classification;
+  }
+
+  isInDirection(service: ApiService, directionSlug: string, taxonomy: ServiceTaxonomyData = this.data): boolean {
+    return this.classify(service, taxonomy).directions.includes(directionSlug);
+  }
+
+  // Услуги по категориям и подкатегориям, в порядке SERVICE_CATEGORIES; без категории не попадают
+  groupByCategory(services: ApiService[], taxonomy: ServiceTaxonomyData = this.data): ServiceCategoryGroup[] {
+    const groups = new Map<string, ServiceCategoryGroup>();
+    for (const service of services) {
+      const { category, subcategory } = this.classify(service, taxonomy);
+      if (!category) continue;
+      const key = subcategory ? `${category.id}:${subcategory.id}` : category.id;
+      const group = groups.get(key) || { key, category, subcategory, services: [] };
+      group.services.push(service);
+      groups.set(key, group);
+    }
+    const order = (group: ServiceCategoryGroup) => SERVICE_CATEGORIES.indexOf(group.category);
+    return [...groups.values()].sort((a, b) => order(a) - order(b));
+  }
+
+  // Отчет для сотрудников: услуги без явного сопоставления, по группам Archimed
+  getReport(services: ApiService[], taxonomy: ServiceTaxonomyData = this.data): TaxonomyReport {
+    const unmapped = new Map<number, UnmappedGroup>();
+    let mapped = 0;
+    for (const service of services) {
+      const guess = this.classify(service, taxonomy);
+      if (guess.source !== 'keyword') {
+        mapped += 1;
+        continue;
+      }
+      const group = unmapped.get(service.group_id) || {
+        groupId: service.group_id,
+        groupName: service.group_name,
+        services: [],
+      };
+      group.services.push({ service, guess });
+      unmapped.set(service.group_id, group);
+    }
+    return {
+      total: services.length,
+      mapped,
+      unmapped: [...unmapped.values()].sort((a, b) => b.services.length - a.services.length),
+    };
+  }
+
+  // Изменения — только сотрудники; возвращают новую версию данных
+  async saveMapping(kind: TaxonomyKind, id: number, entry: TaxonomyEntry): Promise<ServiceTaxonomyData> {
+    const saved = await staffService.saveTaxonomyEntry(kind, id, entry);
+    this.setData({ ...this.data, [kind]: { ...this.data[kind], [id]: saved } });
+    return this.data;
+  }
+
+  async removeMapping(kind: TaxonomyKind, id: number): Promise<ServiceTaxonomyData> {
+    await staffService.removeTaxonomyEntry(kind, id);
+    const { [String(id)]: _removed, ...rest } = this.data[kind];
+    this.setData({ ...this.data, [kind]: rest });
+    return this.data;
+  }
+}
+
+export const serviceTaxonomyService = new ServiceTaxonomyService();
+export default serviceTaxonomyService;
@@ -0,0 +1,197 @@
+// Редактируемое содержимое сайта из Directus: сведения о клинике, FAQ и документы.
+// Если Directus недоступен или коллекция пуста, используются данные из src/data —
+// сайт работает и без CMS, а правки редакторов применяются без деплоя.
+
+import { buildSchedule, formatWorkingHours, type ClinicSchedule, type WorkingHours } from './clinicSchedule';
+import directusService from './directus';
+import { CLINIC_CONTACTS_FALLBACK, CLINIC_INFO_FALLBACK } from '../data/clinic';
+import { DOCUMENTS_FALLBACK, type DocumentLink } from '../data/documents';
+import { FAQ_ITEMS, type FAQItem } from '../data/faq';
+import type { ClinicBranch, ClinicDocument, ClinicHoliday, ClinicInfo, Contact } from '../types/cms';
+
+export interface ClinicPhone {
+  value: string;
+  label: string;
+  href: string;
+}
+
+export interface ClinicDetails {
+  name: string;
+  address: string;
+  mapUrl: string;
+  phones: ClinicPhone[];
+  email: string;
+  workingHours: WorkingHours;
+  // Строки вида "Пн-Пт: 08:00 - 22:00" для подвала, контактов и FAQ
+  hoursSummary: string[];
+  schedule: ClinicSchedule;
+  // Филиалы из Directus и их графики; остальные филиалы работают по schedule
+  branches: ClinicBranch[];
+  branchSchedules: Record<number, ClinicSchedule>;
+}
+
+export const phoneHref = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  return `tel:+${digits.length === 11 && digits.startsWith('8') ? `7${digits.slice(1)}` : digits}`;
+};
+
+export const mapUrl = (address: string) => `https://yandex.ru/maps/?text=${encodeURIComponent(address)}`;
+
+function buildClinicDetails(
+  info: ClinicInfo,
+  contacts: Contact[],
+  holidays: ClinicHoliday[] = [],
+  branches: ClinicBranch[] = []
+): ClinicDetails {
+  const byPriority = (type: Contact['type']) =>
+    contacts
+      .filter((c) => c.type === type && c.value)
+      .sort((a, b) => Number(b.is_primary) - Number(a.is_primary));
+  const address = byPriority('address')[0]?.value || info.address || CLINIC_INFO_FALLBACK.address;
+  const workingHours = { ...CLINIC_INFO_FALLBACK.working_hours, ...info.working_hours };
+  // Свой график — у филиалов из Directus и у филиалов с отдельными праздничными днями
+  const branchIds = [...new Set([...branches.map((b) => b.id), ...holidays.flatMap((h) => (h.branch_id ? [h.branch_id] : []))])];
+  const branchHours = (id: number) => ({
+    ...workingHours,
+    ...(branches.find((b) => b.id === id)?.working_hours || {}),
+  });
+  return {
+    name: info.name || CLINIC_INFO_FALLBACK.name,
+    address,
+    mapUrl: mapUrl(address),
+    phones: byPriority('phone').map((c) => ({ value: c.value, label: c.label, href: phoneHref(c.value) })),
+    email: byPriority('email')[0]?.value || '',
+    workingHours,
+    hoursSummary: formatWorkingHours(workingHours),
+    schedule: buildSchedule(workingHours, holidays),
+    branches,
+    branchSchedules: Object.fromEntries(branchIds.map((id) => [id, buildSchedule(branchHours(id), holidays, id)])),
+  };
+}
+
+// График филиала врача или слота; неизвестный филиал — общий график клиники
+export const scheduleForBranch = (clinic: ClinicDetails, branchId?: number | null): ClinicSchedule =>
+  (branchId ? clinic.branchSchedules[branchId] : undefined) || clinic.schedule;
+
+// Подстановки в ответах FAQ, чтобы адрес и часы работы не дублировались в тексте
+function renderPlaceholders(text: string, clinic: ClinicDetails): string {
+  const values: Record<string, string> = {
+    working_hours: clinic.hoursSummary.join(', '),
+    address: clinic.address,
+    phone: clinic.phones[0]?.value || '',
+    email: clinic.email,
+  };
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+const extension = (name: string) => {
+  const match = /\.([a-z0-9]+)(?:$|[?#])/i.exec(name);
+  return match ? match[1].toUpperCase() : '';
+};
+
+const formatFileSize = (size: number | string | null) => {
+  const bytes = Number(size);
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+function toDocumentLink(doc: ClinicDocument): DocumentLink | null {
+  const url = doc.file ? directusService.getAssetUrl(doc.file.id, true) : doc.url;
+  if (!url) return null;
+  return {
+    id: String(doc.id),
+    title: doc.title,
+    description: doc.description || '',
+    url,
+    fileType: extension(doc.file?.filename_download || url),
+    fileSize: formatFileSize(doc.file?.filesize ?? null),
+  };
+}
+
+const FALLBACK_CLINIC = buildClinicDetails(CLINIC_INFO_FALLBACK, CLINIC_CONTACTS_FALLBACK);
+
+class SiteContentService {
+  private clinic: ClinicDetails | null = null;
+  private faq: FAQItem[] | null = null;
+  private documents: DocumentLink[] | null = null;
+  private clinicPromise: Promise<ClinicDetails> | null = null;
+  private faqPromise: Promise<FAQItem[]> | null = null;
+  private documentsPromise: Promise<DocumentLink[]> | null = null;
+
+  // Синхронные значения для первого рендера: загруженные данные или запасные
+  peekClinic(): ClinicDetails {
+    return this.clinic || FALLBACK_CLINIC;
+  }
+
+  peekFAQ(): FAQItem[] {
+    return this.faq || FAQ_ITEMS.map((item) => ({ ...item, answer: renderPlaceholders(item.answer, FALLBACK_CLINIC) }));
+  }
+
+  peekDocuments(): DocumentLink[] {
+    return this.documents || DOCUMENTS_FALLBACK;
+  }
+
+  // Коллекции загружаются независимо: ошибка одной не сбрасывает остальные
+  getClinic(): Promise<ClinicDetails> {
+    if (!this.clinicPromise) {
+      this.clinicPromise = Promise.allSettled([
+        directusService.getClinicInfo(),
+        directusService.getContacts(),
+        directusService.getHolidays(),
+        directusService.getBranches(),
+      ]).then(([info, contacts, holidays, branches]) => {
+        const clinicInfo = info.status === 'fulfilled' && info.value.data ? info.value.data : CLINIC_INFO_FALLBACK;
+        const contactList =
+          contacts.status === 'fulfilled' && contacts.value.data.length > 0
+            ? contacts.value.data
+            : CLINIC_CONTACTS_FALLBACK;
+        this.clinic = buildClinicDetails(
+          clinicInfo,
+          contactList,
+          holidays.status === 'fulfilled' ? holidays.value.data : [],
+          branches.status === 'fulfilled' ? branches.value.data : []
+        );
+        return this.clinic;
+      });
+    }
+    return this.clinicPromise;
+  }
+
+  getFAQ(): Promise<FAQItem[]> {
+    if (!this.faqPromise) {
+      this.faqPromise = Promise.all([
+        directusService
+          .getFAQ()
+          .then((res) => res.data)
+          .catch(() => []),
+        this.getClinic(),
+      ]).then(([items, clinic]) => {
+        const source: FAQItem[] =
+          items.length > 0
+            ? items.map(({ id, question, answer, category }) => ({ id, question, answer, category }))
+            : FAQ_ITEMS;
+        this.faq = source.map((item) => ({ ...item, answer: renderPlaceholders(item.answer, clinic) }));
+        return this.faq;
+      });
+    }
+    return this.faqPromise;
+  }
+
+  getDocuments(): Promise<DocumentLink[]> {
+    if (!this.documentsPromise) {
+      this.documentsPromise = directusService
+        .getDocuments()
+        .then((res) => res.data.map(toDocumentLink).filter((doc): doc is DocumentLink => doc !== null))
+        .catch(() => [] as DocumentLink[])
+        .then((docs) => {
+          this.documents = docs.length > 0 ? docs : DOCUMENTS_FALLBACK;
+          return this.documents;
+        });
+    }
+    return this.documentsPromise;
+  }
+}
+
+export const siteContentService = new SiteContentService();
+export default siteContentService;
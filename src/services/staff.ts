@@ -0,0 +1,144 @@
+// Staff-only API of server.js: leads, inbox annotations (assignee, call outcome, notes),
+// service taxonomy mappings and doctor ↔ service links.
+// Requests carry the staff user's access token; the server records who made each change.
+
+import authService from './auth';
+import type { DoctorServiceLink } from '../types/cms';
+import type { LeadRequest } from './leads';
+import type { TaxonomyEntry, TaxonomyKind } from './serviceTaxonomy';
+
+export type LeadStatus = 'new' | 'in_progress' | 'closed' | 'spam';
+export type InboxItemType = 'appointment' | 'lead';
+export type CallOutcome = 'called_back' | 'no_answer' | 'booked';
+
+export interface Lead extends Omit<LeadRequest, 'agreeToTerms' | 'agreeToSiteConsent' | 'page'> {
+  id: string;
+  page: string | null;
+  status: LeadStatus;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface InboxNote {
+  id: string;
+  text: string;
+  author: string;
+  at: string;
+}
+
+export interface InboxAnnotation {
+  type: InboxItemType;
+  id: string;
+  assignee: string | null;
+  callOutcome: CallOutcome | null;
+  notes: InboxNote[];
+  history: { field: string; from: unknown; to: unknown; by: string; at: string }[];
+  updatedAt: string | null;
+}
+
+// Сессия сотрудника отсутствует или истекла, либо у пользователя нет роли staff
+export class StaffAuthError extends Error {
+  constructor(message = 'Требуется вход сотрудника') {
+    super(message);
+    this.name = 'StaffAuthError';
+  }
+}
+
+class StaffService {
+  private apiUrl: string;
+
+  constructor() {
+    this.apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  }
+
+  private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
+    const token = await authService.getValidToken();
+    if (!token) throw new StaffAuthError();
+
+    const response = await fetch(`${this.apiUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+        ...options?.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      if (response.status === 401 || response.status === 403) {
+        throw new StaffAuthError(errorData?.message);
+      }
+      throw new Error(errorData?.message || `HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async getLeads(): Promise<Lead[]> {
+    const response = await this.request<{ data: Lead[] }>('/api/leads');
+    return response.data;
+  }
+
+  async updateLeadStatus(id: string, status: LeadStatus): Promise<Lead> {
+    return this.request<Lead>(`/api/leads/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  async getAnnotations(type?: InboxItemType): Promise<Record<string, InboxAnnotation>> {
+    const response = await this.request<{ data: Record<string, InboxAnnotation> }>(
+      type ? `/api/inbox?type=${type}` : '/api/inbox'
+    );
+    return response.data;
+  }
+
+  async getRegistrars(): Promise<string[]> {
+    const response = await this.request<{ data: string[] }>('/api/inbox/registrars');
+    return response.data;
+  }
+
+  async updateAnnotation(
+    type: InboxItemType,
+    id: string | number,
+    changes: Partial<Pick<InboxAnnotation, 'assignee' | 'callOutcome'>>
+  ): Promise<InboxAnnotation> {
+    return this.request<InboxAnnotation>(`/api/inbox/${type}/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async addNote(type: InboxItemType, id: string | number, text: string): Promise<InboxAnnotation> {
+    return this.request<InboxAnnotation>(`/api/inbox/${type}/${encodeURIComponent(id)}/notes`, {
+      method: 'POST',
+      body: JSON.stringify({ text }),
+    });
+  }
+
+  async saveTaxonomyEntry(kind: TaxonomyKind, id: number, entry: TaxonomyEntry): Promise<TaxonomyEntry> {
+    return this.request<TaxonomyEntry>(`/api/service-taxonomy/${kind}/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(entry),
+    });
+  }
+
+  async removeTaxonomyEntry(kind: TaxonomyKind, id: number): Promise<void> {
+    await this.request(`/api/service-taxonomy/${kind}/${id}`, { method: 'DELETE' });
+  }
+
+  async saveDoctorServices(doctorId: number, serviceIds: number[]): Promise<DoctorServiceLink> {
+    return this.request<DoctorServiceLink>(`/api/doctor-services/${doctorId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ serviceIds }),
+    });
+  }
+
+  async removeDoctorServices(doctorId: number): Promise<void> {
+    await this.request(`/api/doctor-services/${doctorId}`, { method: 'DELETE' });
+  }
+}
+
+export const staffService = new StaffService();
+export default staffService;
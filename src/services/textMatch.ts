@@ -0,0 +1,308 @@
+// Russian-aware text matching shared by every search box and by direction keyword rules.
+// Words are compared by stem (Snowball Russian: "кардиолога", "кардиологу" → "кардиолог"),
+// ё/е and case are ignored, small typos are tolerated, and Latin input is also tried
+// as a wrong keyboard layout ("rfhlbjkju" → "кардиолог") and as transliteration ("uzi" → "узи").
+
+export interface SearchField {
+  text: string | number | null | undefined;
+  // Вес поля: совпадение в названии важнее совпадения в описании
+  weight?: number;
+}
+
+export interface QueryMatcher {
+  isEmpty: boolean;
+  // 0 — документ не подходит: каждое слово запроса должно найтись хотя бы в одном поле
+  score(fields: SearchField[]): number;
+  matches(...texts: SearchField['text'][]): boolean;
+}
+
+export interface QueryMatcherOptions {
+  // Допускать опечатки (для поисковых полей); правила-ключевые слова сравниваются строго
+  typos?: boolean;
+}
+
+export function normalizeSearchText(value: string | number | null | undefined): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^a-zа-я0-9]+/g, ' ')
+    .trim();
+}
+
+// --- Стемминг (Snowball Russian) ---
+
+const VOWELS = 'аеиоуыэюя';
+// Короче не обрезаем: "узи", "лор", "зуб" остаются словами, а не "уз"
+const MIN_STEM_LENGTH = 3;
+
+const PERFECTIVE_GERUND_AFTER_A = ['вшись', 'вши', 'в'];
+const PERFECTIVE_GERUND = ['ившись', 'ывшись', 'ивши', 'ывши', 'ив', 'ыв'];
+const REFLEXIVE = ['ся', 'сь'];
+const ADJECTIVE = [
+  'ими', 'ыми', 'его', 'ого', 'ему', 'ому', 'ее', 'ие', 'ые', 'ое', 'ей', 'ий', 'ый', 'ой',
+  'ем', 'им', 'ым', 'ом', 'их', 'ых', 'ую', 'юю', 'ая', 'яя', 'ою', 'ею',
+];
+const PARTICIPLE_AFTER_A = ['ем', 'нн', 'вш', 'ющ', 'щ'];
+const PARTICIPLE = ['ивш', 'ывш', 'ующ'];
+const VERB_AFTER_A = ['ете', 'йте', 'ешь', 'нно', 'ла', 'на', 'ли', 'ем', 'ло', 'но', 'ет', 'ют', 'ны', 'ть', 'й', 'л', 'н'];
+const VERB = [
+  'ейте', 'уйте', 'ила', 'ыла', 'ена', 'ите', 'или', 'ыли', 'ило', 'ыло', 'ено', 'ует', 'уют', 'ены', 'ить',
+  'ыть', 'ишь', 'ей', 'уй', 'ил', 'ыл', 'им', 'ым', 'ен', 'ят', 'ит', 'ыт', 'ую', 'ю',
+];
+const NOUN = [
+  'иями', 'ями', 'ами', 'иях', 'ией', 'ием', 'иям', 'ев', 'ов', 'ие', 'ье', 'еи', 'ии', 'ей', 'ой', 'ий',
+  'ям', 'ем', 'ам', 'ом', 'ах', 'ях', 'ию', 'ью', 'ия', 'ья', 'а', 'е', 'и', 'й', 'о', 'у', 'ы', 'ь', 'ю', 'я',
+];
+const SUPERLATIVE = ['ейше', 'ейш'];
+const DERIVATIONAL = ['ость', 'ост'];
+
+const byLength = (list: string[]) => [...list].sort((a, b) => b.length - a.length);
+const SORTED = {
+  gerundAfterA: byLength(PERFECTIVE_GERUND_AFTER_A),
+  gerund: byLength(PERFECTIVE_GERUND),
+  adjective: byLength(ADJECTIVE),
+  participleAfterA: byLength(PARTICIPLE_AFTER_A),
+  participle: byLength(PARTICIPLE),
+  verbAfterA: byLength(VERB_AFTER_A),
+  verb: byLength(VERB),
+  noun: byLength(NOUN),
+};
+
+// Снимает самое длинное окончание из списка; afterA — окончание должно стоять после "а"/"я"
+function removeEnding(word: string, endings: string[], afterA = false): string | null {
+  for (const ending of endings) {
+    if (!word.endsWith(ending)) continue;
+    const rest = word.slice(0, -ending.length);
+    if (afterA && !/[ая]$/.test(rest)) continue;
+    return rest;
+  }
+  return null;
+}
+
+// Начало области после первой гласной, за которой идет согласная (R1/R2 в Snowball)
+function regionStart(word: string, from: number): number {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!VOWELS.includes(word[i]) && VOWELS.includes(word[i - 1])) return i + 1;
+  }
+  return word.length;
+}
+
+function snowballStem(word: string): string {
+  const firstVowel = [...word].findIndex((ch) => VOWELS.includes(ch));
+  if (firstVowel === -1) return word;
+  const prefix = word.slice(0, firstVowel + 1);
+  let rv = word.slice(firstVowel + 1);
+
+  // Шаг 1: деепричастие, иначе возвратность + прилагательное/причастие, глагол или существительное
+  const gerund = removeEnding(rv, SORTED.gerundAfterA, true) ?? removeEnding(rv, SORTED.gerund);
+  if (gerund !== null) {
+    rv = gerund;
+  } else {
+    rv = removeEnding(rv, REFLEXIVE) ?? rv;
+    const adjective = removeEnding(rv, SORTED.adjective);
+    if (adjective !== null) {
+      rv = removeEnding(adjective, SORTED.participleAfterA, true) ?? removeEnding(adjective, SORTED.participle) ?? adjective;
+    } else {
+      rv = removeEnding(rv, SORTED.verbAfterA, true) ?? removeEnding(rv, SORTED.verb) ?? removeEnding(rv, SORTED.noun) ?? rv;
+    }
+  }
+
+  // Шаг 2
+  if (rv.endsWith('и')) rv = rv.slice(0, -1);
+
+  // Шаг 3: словообразовательные окончания в R2
+  const stem = prefix + rv;
+  const r2 = regionStart(stem, regionStart(stem, 0));
+  for (const ending of DERIVATIONAL) {
+    if (stem.endsWith(ending) && stem.length - ending.length >= r2) {
+      rv = rv.slice(0, -ending.length);
+      break;
+    }
+  }
+
+  // Шаг 4
+  if (rv.endsWith('нн')) {
+    rv = rv.slice(0, -1);
+  } else {
+    const superlative = removeEnding(rv, SUPERLATIVE);
+    if (superlative !== null) {
+      rv = superlative.endsWith('нн') ? superlative.slice(0, -1) : superlative;
+    } else if (rv.endsWith('ь')) {
+      rv = rv.slice(0, -1);
+    }
+  }
+
+  return prefix + rv;
+}
+
+export function stemWord(word: string): string {
+  if (!/[а-я]/.test(word) || /[a-z0-9]/.test(word)) return word;
+  const stem = snowballStem(word);
+  return stem.length >= MIN_STEM_LENGTH ? stem : word;
+}
+
+// Большие прайсы токенизируются на каждый ввод, поэтому основы кэшируются
+const STEM_CACHE_LIMIT = 20000;
+const stemCache = new Map<string, string[]>();
+
+export function tokenize(value: string | number | null | undefined): string[] {
+  const text = normalizeSearchText(value);
+  if (!text) return [];
+  const cached = stemCache.get(text);
+  if (cached) return cached;
+
+  const stems = text.split(' ').map(stemWord);
+  if (stemCache.size >= STEM_CACHE_LIMIT) stemCache.clear();
+  stemCache.set(text, stems);
+  return stems;
+}
+
+// --- Раскладка и транслитерация ---
+
+const QWERTY = "qwertyuiop[]asdfghjkl;'zxcvbnm,.`";
+const YCUKEN = 'йцукенгшщзхъфывапролджэячсмитьбюё';
+const TO_CYRILLIC_LAYOUT = new Map([...QWERTY].map((ch, i) => [ch, YCUKEN[i]]));
+const TO_LATIN_LAYOUT = new Map([...YCUKEN].map((ch, i) => [ch, QWERTY[i]]));
+
+// Текст, набранный не в той раскладке: "epb" → "узи", "шпп" → "igg"
+export function switchKeyboardLayout(text: string): string {
+  const lower = text.toLowerCase();
+  const map = /[а-яё]/.test(lower) ? TO_LATIN_LAYOUT : TO_CYRILLIC_LAYOUT;
+  return [...lower].map((ch) => map.get(ch) ?? ch).join('');
+}
+
+// Сочетания раньше одиночных букв
+const TRANSLIT_RULES: [string, string][] = [
+  ['shch', 'щ'], ['sch', 'щ'], ['zh', 'ж'], ['kh', 'х'], ['ts', 'ц'], ['ch', 'ч'], ['sh', 'ш'],
+  ['yo', 'е'], ['yu', 'ю'], ['ya', 'я'], ['ye', 'е'], ['ju', 'ю'], ['ja', 'я'], ['iy', 'ий'], ['yy', 'ый'],
+  ['a', 'а'], ['b', 'б'], ['v', 'в'], ['g', 'г'], ['d', 'д'], ['e', 'е'], ['z', 'з'], ['i', 'и'],
+  ['j', 'й'], ['k', 'к'], ['l', 'л'], ['m', 'м'], ['n', 'н'], ['o', 'о'], ['p', 'п'], ['r', 'р'],
+  ['s', 'с'], ['t', 'т'], ['u', 'у'], ['f', 'ф'], ['h', 'х'], ['c', 'к'], ['y', 'ы'], ['w', 'в'],
+  ['x', 'кс'], ['q', 'к'],
+];
+
+// Латиница → кириллица: "uzi" → "узи", "kardiolog" → "кардиолог", "ekg" → "экг"
+export function transliterate(text: string): string {
+  const lower = text.toLowerCase();
+  let result = '';
+  let i = 0;
+  while (i < lower.length) {
+    // "e" в начале слова чаще всего "э": ekg, eho, endokrinolog
+    if (lower[i] === 'e' && (i === 0 || !/[a-z]/.test(lower[i - 1]))) {
+      result += 'э';
+      i += 1;
+      continue;
+    }
+    const rule = TRANSLIT_RULES.find(([latin]) => lower.startsWith(latin, i));
+    if (rule) {
+      result += rule[1];
+      i += rule[0].length;
+    } else {
+      result += lower[i];
+      i += 1;
+    }
+  }
+  return result;
+}
+
+// Варианты одного слова запроса: само слово, другая раскладка и транслитерация.
+// Каждый вариант — основы слов; слово запроса совпало, если совпал любой вариант.
+function wordVariants(word: string): string[][] {
+  const variants = [tokenize(word)];
+  const isLatin = /[a-z]/i.test(word) && !/[а-яё]/i.test(word);
+  const isCyrillic = /[а-яё]/i.test(word) && !/[a-z]/i.test(word);
+  if (isLatin) variants.push(tokenize(switchKeyboardLayout(word)), tokenize(transliterate(word)));
+  if (isCyrillic) variants.push(tokenize(switchKeyboardLayout(word)));
+  return variants.filter((tokens) => tokens.length > 0);
+}
+
+// --- Сравнение ---
+
+// Расстояние Дамерау–Левенштейна (с перестановкой соседних букв); при превышении max — max + 1
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+// Сколько опечаток допускаем в слове запроса
+const allowedTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Оценка совпадения слова запроса со словом документа: 3 — то же слово, 2 — начало слова
+// (пользователь еще печатает), 1 — с опечаткой, 0 — не совпадает
+function termScore(term: string, token: string, typos: boolean): number {
+  if (term === token) return 3;
+  if (token.startsWith(term) && (term.length >= 2 || /\d/.test(term))) return 2;
+  // Стеммер иногда режет формы одного слова по-разному ("прием" → "при", "приема" → "прием")
+  if (term.startsWith(token) && token.length >= MIN_STEM_LENGTH && term.length - token.length <= 2) return 1;
+  const maxTypos = typos ? allowedTypos(term) : 0;
+  if (maxTypos === 0) return 0;
+  if (editDistance(term, token, maxTypos) <= maxTypos) return 1;
+  // Опечатка в начале длинного слова: "кардеолог" → "кардиологический"
+  if (token.length > term.length && editDistance(term, token.slice(0, term.length), maxTypos) <= maxTypos) return 1;
+  return 0;
+}
+
+export function createQueryMatcher(query: string, { typos = true }: QueryMatcherOptions = {}): QueryMatcher {
+  // Каждое слово запроса — группа вариантов; вариант — последовательность основ (слово может
+  // распасться на несколько: "узи-почек")
+  const words = query.split(/\s+/).map(wordVariants).filter((variants) => variants.length > 0);
+
+  const score = (fields: SearchField[]) => {
+    if (words.length === 0) return 1;
+    const tokenized = fields.map((field) => ({ tokens: tokenize(field.text), weight: field.weight ?? 1 }));
+    const bestFor = (term: string) => {
+      let best = 0;
+      for (const { tokens, weight } of tokenized) {
+        for (const token of tokens) {
+          const value = termScore(term, token, typos) * weight;
+          if (value > best) best = value;
+        }
+      }
+      return best;
+    };
+
+    let total = 0;
+    for (const variants of words) {
+      let bestVariant = 0;
+      for (const terms of variants) {
+        let variantScore = 0;
+        for (const term of terms) {
+          const value = bestFor(term);
+          if (value === 0) {
+            variantScore = 0;
+            break;
+          }
+          variantScore += value;
+        }
+        bestVariant = Math.max(bestVariant, variantScore);
+      }
+      if (bestVariant === 0) return 0;
+      total += bestVariant;
+    }
+    return total;
+  };
+
+  return {
+    isEmpty: words.length === 0,
+    score,
+    matches: (...texts) => score(texts.map((text) => ({ text }))) > 0,
+  };
+}
@@ -107,6 +107,18 @@ export interface ArchimedScientificDegree {
   name: string;
 }
 
+// Связи врач — услуга, которые ведут сотрудники (server.js, /api/doctor-services)
+export interface DoctorServiceLink {
+  serviceIds: number[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface DoctorServiceLinks {
+  doctors: Record<string, DoctorServiceLink>;
+  updatedAt: string | null;
+}
+
 // Appointment types
 export interface AppointmentData {
   patientName: string;
@@ -117,6 +129,48 @@ export interface AppointmentData {
   comments?: string;
   serviceId?: number;
   doctorId?: number;
+  branchId?: number;
+  // Reserved schedule slot (ISO datetime of slot start), if booked online
+  slotStart?: string;
+  duration?: number;
+  // Talon status, changed by staff only
+  statusId?: number;
+}
+
+// Doctor schedule slot types
+export interface ScheduleSlot {
+  doctor_id: number;
+  branch_id: number;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  start: string; // ISO datetime
+  end: string; // ISO datetime
+  duration: number; // minutes
+}
+
+export interface ScheduleDay {
+  date: string; // YYYY-MM-DD
+  slots: ScheduleSlot[];
+}
+
+export interface SlotQuery {
+  doctorId: number;
+  branchId?: number;
+  // Service duration in minutes; falls back to doctor's max_time
+  duration?: number;
+  dateFrom?: string; // YYYY-MM-DD, defaults to today
+  days?: number; // how many days ahead to look, defaults to 14
+}
+
+// Talon list filters (passed to the proxy as query parameters)
+export interface AppointmentFilters {
+  doctorId?: number;
+  serviceId?: number;
+  statusId?: number;
+  // Patient cabinet: the server returns only this patient's talons anyway
+  patientPhone?: string;
+  dateFrom?: string; // YYYY-MM-DD
+  dateTo?: string; // YYYY-MM-DD
 }
 
 export interface ArchimedAppointment {
@@ -129,6 +183,9 @@ export interface ArchimedAppointment {
   comments?: string;
   service_id?: number;
   doctor_id?: number;
+  branch_id?: number;
+  start?: string;
+  end?: string;
   status_id: number;
   created_at: string;
   updated_at: string;
@@ -194,6 +251,7 @@ export interface ClinicInfo {
   name: string;
   description: string;
   address: string;
+  // "08:00-22:00"; пустая строка — выходной
   working_hours: {
     monday: string;
     tuesday: string;
@@ -208,6 +266,54 @@ export interface ClinicInfo {
   advantages: string[];
 }
 
+// Праздничный или сокращенный день (коллекция holidays); hours — "10:00-16:00" или
+// пустая строка для выходного. branch_id = null — для всех филиалов
+export interface ClinicHoliday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  hours: string;
+  note: string | null;
+  branch_id: number | null;
+}
+
+// Филиал (коллекция branches); id — branch_id из Archimed. Пустые поля берутся
+// из Archimed и сведений о клинике; working_hours = null — общий график клиники
+export interface ClinicBranch {
+  id: number;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  working_hours: ClinicInfo['working_hours'] | null;
+}
+
+// Цена услуги в филиале (коллекция branch_prices). null — цена из Archimed;
+// is_available = false — услуга в филиале не оказывается
+export interface BranchPrice {
+  id: string;
+  branch_id: number;
+  service_id: number;
+  base_cost: number | null;
+  cito_cost: number | null;
+  is_available: boolean;
+}
+
+// Документ клиники (коллекция documents): файл из Directus или внешняя ссылка
+export interface DirectusFile {
+  id: string;
+  filename_download: string;
+  filesize: number | string | null;
+  type: string | null;
+}
+
+export interface ClinicDocument {
+  id: string;
+  title: string;
+  description: string | null;
+  file: DirectusFile | null;
+  url: string | null;
+  sort: number | null;
+}
+
 // API Response types
 export interface DirectusResponse<T> {
   data: T;
@@ -232,10 +338,23 @@ export interface User {
   name: string;
   phone?: string;
   role: 'patient' | 'staff';
+  lastname?: string;
+  firstname?: string;
+  middlename?: string;
+  email_verified?: boolean;
+  phone_verified?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Ответ на запрос SMS-кода (вход по телефону, подтверждение номера)
+export interface PhoneCodeRequest {
+  // Маска номера: +7 (***) ***-22-33
+  phone: string;
+  expiresIn: number;
+  resendIn: number;
+}
+
 export interface LoginData {
   email: string;
   password: string;
@@ -259,4 +378,6 @@ export interface AuthResponse {
   user: User;
   token: string;
   expires_at: string;
+  // Long-lived token exchanged for a new access token via /auth/refresh
+  refresh_token: string;
 } 
\ No newline at end of file